@@ -0,0 +1,434 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import Semaphore, { SemaphoreOptions } from './semaphore';
+import type { LockOptions } from './types';
+
+/**
+ * Observation of a single guarded call, used to adjust the limit
+ */
+export interface LimitSample {
+
+  /**
+   * Milliseconds the call took
+   */
+  latency:number;
+
+  /**
+   * Number of calls running when this one started, including itself
+   */
+  inFlight:number;
+
+  /**
+   * Whether the call failed, signalling overload
+   */
+  dropped:boolean;
+};
+
+/**
+ * Algorithm deciding the next concurrency limit from each sample. Custom
+ * algorithms can be given by implementing this interface.
+ */
+export interface LimitAlgorithm {
+
+  /**
+   * Calculates the new limit.
+   * 
+   * @param limit The current limit, which may be fractional
+   * @param sample The observed call
+   * @returns The new limit, clamped by the AdaptiveLimiter afterwards
+   */
+  update(limit:number, sample:LimitSample):number;
+};
+
+/**
+ * Options available for AimdLimit objects
+ */
+export interface AimdLimitOptions {
+
+  /**
+   * Amount the limit grows by after each successful call that made use of the
+   * limit. **Default = 1**.
+   */
+  increase ?: number;
+
+  /**
+   * Factor the limit is multiplied by after a dropped call.
+   * **Default = 0.9**.
+   */
+  backoffRatio ?: number;
+
+  /**
+   * Milliseconds after which a successful call is treated as dropped. Not used
+   * when not set.
+   */
+  latencyThreshold ?: number;
+};
+
+/**
+ * Additive-increase, multiplicative-decrease. Grows the limit steadily while
+ * calls succeed, and cuts it back sharply when they fail or get too slow.
+ */
+export class AimdLimit implements LimitAlgorithm {
+  readonly options:AimdLimitOptions;
+
+  /**
+   * @param options Additional settings for the algorithm.
+   * @param options.increase Amount the limit grows by per success.
+   * @param options.backoffRatio Factor the limit shrinks by per drop.
+   * @param options.latencyThreshold Milliseconds after which a call counts as
+   * dropped.
+   */
+  constructor(options?:AimdLimitOptions) {
+    this.options = { ...(options ?? {}) };
+
+    const { backoffRatio } = this.options;
+    if(typeof backoffRatio !== 'undefined' && !(backoffRatio > 0 && backoffRatio < 1))
+      throw new TypeError(`AimdLimit was constructed with a backoffRatio of "${backoffRatio}", a number between 0 and 1 is required`);
+  }
+
+  update(limit:number, sample:LimitSample):number {
+    const { latencyThreshold } = this.options;
+
+    if(sample.dropped || (typeof latencyThreshold === 'number' && sample.latency > latencyThreshold))
+      return limit * (this.options.backoffRatio ?? 0.9);
+
+    // Only grow when the limit is actually being used
+    if(sample.inFlight * 2 >= limit)
+      return limit + (this.options.increase ?? 1);
+    return limit;
+  }
+}
+
+/**
+ * Options available for GradientLimit objects
+ */
+export interface GradientLimitOptions {
+
+  /**
+   * How much each sample moves the limit, between 0 and 1. **Default = 0.2**.
+   */
+  smoothing ?: number;
+
+  /**
+   * How much slower than the fastest seen latency calls may get before the
+   * limit shrinks. **Default = 1.5**.
+   */
+  tolerance ?: number;
+};
+
+/**
+ * Gradient-style algorithm comparing the latency of each call to the fastest
+ * latency seen, which approximates the latency without any queueing. The limit
+ * shrinks as latency rises above it, and grows by a small queue allowance
+ * while it doesn't.
+ */
+export class GradientLimit implements LimitAlgorithm {
+  readonly options:GradientLimitOptions;
+
+  /**
+   * Fastest latency seen
+   */
+  #minLatency = Infinity;
+
+  /**
+   * @param options Additional settings for the algorithm.
+   * @param options.smoothing How much each sample moves the limit.
+   * @param options.tolerance Latency increase allowed before shrinking.
+   */
+  constructor(options?:GradientLimitOptions) {
+    this.options = { ...(options ?? {}) };
+
+    const { smoothing } = this.options;
+    if(typeof smoothing !== 'undefined' && !(smoothing > 0 && smoothing <= 1))
+      throw new TypeError(`GradientLimit was constructed with a smoothing of "${smoothing}", a number above 0 up to 1 is required`);
+  }
+
+  update(limit:number, sample:LimitSample):number {
+    const smoothing = this.options.smoothing ?? 0.2;
+
+    let gradient = 0.5;
+    if(!sample.dropped) {
+      this.#minLatency = Math.min(this.#minLatency, Math.max(sample.latency, 1));
+
+      const tolerance = this.options.tolerance ?? 1.5;
+      gradient = Math.max(0.5, Math.min(1, tolerance * this.#minLatency / Math.max(sample.latency, 1)));
+    }
+
+    // Allow a small queue on top, so the limit can keep growing
+    const target = (limit * gradient) + Math.sqrt(limit);
+    return (limit * (1 - smoothing)) + (target * smoothing);
+  }
+}
+
+/**
+ * Limit algorithms available by name, or a custom {@link LimitAlgorithm}.
+ */
+export type AdaptiveAlgorithm = ('aimd' | 'gradient' | LimitAlgorithm);
+
+/**
+ * Options available for AdaptiveLimiter objects
+ */
+export interface AdaptiveLimiterOptions extends SemaphoreOptions {
+
+  /**
+   * Algorithm adjusting the limit. **Default = 'aimd'**.
+   */
+  algorithm ?: AdaptiveAlgorithm;
+
+  /**
+   * Limit used at the start. **Default = 10**.
+   */
+  initialLimit ?: number;
+
+  /**
+   * The limit never shrinks below this. **Default = 1**.
+   */
+  minLimit ?: number;
+
+  /**
+   * The limit never grows above this. **Default = 1000**.
+   */
+  maxLimit ?: number;
+
+  /**
+   * Decides if an error thrown by a guarded call signals overload. Errors
+   * that don't are passed through without affecting the limit.
+   * **Default = every error signals overload**.
+   */
+  isDropped ?: (err:unknown) => boolean;
+
+  /**
+   * Callback executed whenever the limit changes.
+   */
+  onLimitChange ?: (limit:number, previous:number) => void;
+
+  /**
+   * Callback executed with any error thrown while adjusting the limit, such
+   * as by a custom algorithm. These errors never affect the guarded call, and
+   * are ignored when this is not set. Errors thrown by this callback are
+   * ignored as well.
+   */
+  onUpdateError ?: (err:unknown) => void;
+
+  /**
+   * Function returning the current time in milliseconds, used for measuring
+   * latency. **Default = Date.now**.
+   */
+  now ?: () => number;
+};
+
+/**
+ * Concurrency limiter that adjusts it's limit from the latency and errors of
+ * the calls it guards, backed by a resizable {@link Semaphore}.
+ */
+export default class AdaptiveLimiter {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * AdaptiveLimiter object.
+   */
+  public static readonly DefaultOptions:AdaptiveLimiterOptions = {
+    ...Semaphore.DefaultOptions,
+    algorithm: 'aimd',
+    initialLimit: 10,
+    minLimit: 1,
+    maxLimit: 1000,
+  };
+
+  /**
+   * Options dictating how this limiter will work
+   */
+  options:AdaptiveLimiterOptions;
+
+  /**
+   * Semaphore enforcing the current limit
+   */
+  readonly #semaphore:Semaphore;
+
+  /**
+   * Algorithm adjusting the limit
+   */
+  readonly #algorithm:LimitAlgorithm;
+
+  /**
+   * The exact limit, the Semaphore uses it rounded down
+   */
+  #limit:number;
+
+  /**
+   * Number of guarded calls running
+   */
+  #inFlight = 0;
+
+  /**
+   * @param options Additional settings for the limiter, including any of the
+   * Semaphore options for the underlying Semaphore.
+   * **Default = AdaptiveLimiter.DefaultOptions**.
+   * @param options.algorithm Algorithm adjusting the limit.
+   * @param options.initialLimit Limit used at the start.
+   * @param options.minLimit Lowest the limit may go.
+   * @param options.maxLimit Highest the limit may go.
+   * @param options.isDropped Function deciding if an error signals overload.
+   * @param options.onLimitChange Function called whenever the limit changes.
+   * @param options.onUpdateError Function called with errors thrown while
+   * adjusting the limit.
+   * @param options.now Function returning the current time in milliseconds.
+   */
+  constructor(options?:AdaptiveLimiterOptions) {
+    // Bind methods
+    this.guard = this.guard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...AdaptiveLimiter.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    const { minLimit, maxLimit } = this.options as Required<AdaptiveLimiterOptions>;
+    if(!Number.isInteger(minLimit) || minLimit < 1 || !Number.isInteger(maxLimit) || maxLimit < minLimit)
+      throw new TypeError(`AdaptiveLimiter was constructed with limits of "${minLimit}" to "${maxLimit}", positive integers in order are required`);
+
+    const initialLimit = this.options.initialLimit ?? 10;
+    if(typeof initialLimit !== 'number' || !Number.isFinite(initialLimit))
+      throw new TypeError(`AdaptiveLimiter was constructed with an initialLimit of "${initialLimit}", a number is required`);
+
+    this.#algorithm = AdaptiveLimiter.#createAlgorithm(this.options.algorithm);
+    this.#limit = this.#clamp(initialLimit);
+    this.#semaphore = new Semaphore(Math.floor(this.#limit), this.options);
+  }
+
+  /**
+   * The current concurrency limit
+   */
+  get limit():number {
+    return this.#semaphore.maxConcurrent;
+  }
+
+  /**
+   * Number of guarded calls currently running
+   */
+  get inFlight():number {
+    return this.#inFlight;
+  }
+
+  /**
+   * Performs the callback within the current limit, waiting in line when the
+   * limit is reached. The latency of the callback, and whether it throws, are
+   * fed to the algorithm to adjust the limit.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const limiter = new AdaptiveLimiter({ algorithm: 'gradient' });
+   * 
+   * const user = await limiter.guard(() => db.users.find(id));
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param cb Callback function executed within the limit
+   * @param options Optional settings for waiting in line, see
+   * {@link Semaphore.acquire}
+   * @returns Promise resolving to the results of the callback function
+   */
+  async guard<T = any>(cb:() => (Promise<T> | T), options?:LockOptions):Promise<T> {
+    const [ release ] = await this.#semaphore.acquire(options);
+
+    const now = this.options.now ?? Date.now;
+    const started = now();
+    const inFlight = ++this.#inFlight;
+
+    let dropped = false;
+    try {
+      return await cb();
+    } catch (err) {
+      dropped = (typeof this.options.isDropped === 'function' ? this.options.isDropped(err) : true);
+      throw err;
+    } finally {
+      this.#inFlight--;
+      release();
+
+      this.#safeUpdate({
+        latency: now() - started,
+        inFlight,
+        dropped,
+      });
+    }
+  }
+
+  /**
+   * Cancels all calls waiting in line, see {@link Semaphore.cancelAll}.
+   */
+  cancelAll():void {
+    this.#semaphore.cancelAll();
+  }
+
+  static #createAlgorithm(algorithm?:AdaptiveAlgorithm):LimitAlgorithm {
+    if(typeof algorithm === 'object' && algorithm !== null)
+      return algorithm;
+
+    switch(algorithm ?? 'aimd') {
+      case 'aimd':
+        return new AimdLimit();
+      case 'gradient':
+        return new GradientLimit();
+      default:
+        throw new TypeError(`unknown adaptive limit algorithm "${algorithm}"`);
+    }
+  }
+
+  #clamp(limit:number):number {
+    const { minLimit, maxLimit } = this.options as Required<AdaptiveLimiterOptions>;
+    return Math.min(maxLimit, Math.max(minLimit, limit));
+  }
+
+  /**
+   * Adjusts the limit without letting errors replace the outcome of the
+   * guarded call, since it runs in it's `finally` block.
+   */
+  #safeUpdate(sample:LimitSample):void {
+    try {
+      this.#update(sample);
+    } catch (err) {
+      this.#reportUpdateError(err);
+    }
+  }
+
+  #reportUpdateError(err:unknown):void {
+    if(typeof this.options.onUpdateError !== 'function')
+      return;
+
+    try {
+      this.options.onUpdateError(err);
+    } catch (reportErr) {
+      // Reporting must not replace the outcome of the guarded call either
+    }
+  }
+
+  #update(sample:LimitSample):void {
+    // Ignore an algorithm misbehaving, rather than breaking the guarded call
+    const limit = this.#algorithm.update(this.#limit, sample);
+    if(typeof limit !== 'number' || Number.isNaN(limit))
+      return;
+    this.#limit = this.#clamp(limit);
+
+    const previous = this.#semaphore.maxConcurrent;
+    const next = Math.floor(this.#limit);
+    if(next === previous)
+      return;
+
+    this.#semaphore.setMaxConcurrent(next);
+
+    if(typeof this.options.onLimitChange === 'function')
+      this.options.onLimitChange(next, previous);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import type { LockOptions } from './types';
+import {
+  Disarmer,
+  abortReason,
+  armWaiter,
+} from './waiter';
+
+/*
+ * Declaration of `Atomics.waitAsync`, matching the one shipped with newer
+ * TypeScript versions, so it compiles with older ones too.
+ */
+declare global {
+  interface Atomics {
+    waitAsync(
+      typedArray:Int32Array,
+      index:number,
+      value:number,
+      timeout?:number,
+    ):({ async:false; value:('not-equal' | 'timed-out'); } | { async:true; value:Promise<'ok' | 'timed-out'>; });
+  }
+}
+
+/**
+ * Checks that the runtime supports `Atomics.waitAsync`, which the shared
+ * locks need for waiting without blocking the thread.
+ * 
+ * @throws {TypeError} If `Atomics.waitAsync` is not available
+ * @param name Name of the lock class, used in the error message
+ */
+export function checkWaitAsync(name:string):void {
+  if(typeof Atomics.waitAsync !== 'function')
+    throw new TypeError(`${name} requires Atomics.waitAsync, which this runtime does not support`);
+}
+
+/**
+ * Checks that a buffer given to rebuild a shared lock is big enough.
+ * 
+ * @throws {TypeError} If the buffer is not a big enough SharedArrayBuffer
+ * @param name Name of the lock class, used in the error message
+ * @param buffer The buffer given
+ * @param length Number of 32-bit integers the lock keeps in it
+ * @returns View of the state in the buffer
+ */
+export function sharedState(name:string, buffer:SharedArrayBuffer, length:number):Int32Array {
+  if(!(buffer instanceof SharedArrayBuffer) || buffer.byteLength < length * Int32Array.BYTES_PER_ELEMENT)
+    throw new TypeError(`${name} requires a SharedArrayBuffer of at least ${length * Int32Array.BYTES_PER_ELEMENT} bytes`);
+
+  return new Int32Array(buffer, 0, length);
+}
+
+/**
+ * Parks until the value at the index changes from the expected value, or a
+ * notification arrives. Resolves straight away if it already changed.
+ * 
+ * @param state View of the shared state
+ * @param index Index of the value to watch
+ * @param value The value expected to still be there
+ * @returns Promise resolving once it is worth checking again
+ */
+export function parkShared(state:Int32Array, index:number, value:number):Promise<unknown> {
+  const result = Atomics.waitAsync(state, index, value);
+  return (result.async ? result.value : Promise.resolve(result.value));
+}
+
+/**
+ * Waiting lock attempt of a shared lock, which can be cancelled from within
+ * this thread.
+ */
+export interface SharedWaiter {
+  cancel:(err:Error) => void;
+};
+
+/**
+ * How a shared lock attempt takes the lock and waits for it.
+ */
+export interface SharedAttempt<T> {
+
+  /**
+   * Attempts to take the lock, returning null when it is not available
+   */
+  take:() => (T|null);
+
+  /**
+   * Parks until the lock may have become available
+   */
+  park:() => Promise<unknown>;
+
+  /**
+   * Hands a notification that woke a cancelled attempt on to another waiter
+   */
+  pass ?: () => void;
+};
+
+/**
+ * Takes a shared lock, parking on the shared state until it is available or
+ * the attempt is cancelled by timeout, signal, or the `waiters` set.
+ * 
+ * @param attempt How to take the lock and wait for it
+ * @param waiters Set the waiter is kept in while waiting
+ * @param options Timeout and signal of the attempt
+ * @param errorCancelled Error used when an aborted signal has no reason
+ * @returns Promise resolving with whatever `take` returned
+ */
+export function waitShared<T>(
+  attempt:SharedAttempt<T>,
+  waiters:Set<SharedWaiter>,
+  options:LockOptions,
+  errorCancelled?:Error,
+):Promise<T> {
+  const { signal } = options;
+  if(signal?.aborted)
+    return Promise.reject(abortReason(signal, errorCancelled));
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let disarm:(Disarmer|null) = null;
+
+    const waiter:SharedWaiter = {
+      cancel: err => {
+        if(settled)
+          return;
+        settled = true;
+
+        waiters.delete(waiter);
+        disarm?.();
+        reject(err);
+      },
+    };
+
+    const retry = ():void => {
+      // A cancelled attempt may still be woken, which another waiter needs
+      if(settled) {
+        attempt.pass?.();
+        return;
+      }
+
+      const taken = attempt.take();
+      if(taken === null) {
+        attempt.park().then(retry, waiter.cancel);
+        return;
+      }
+
+      settled = true;
+      waiters.delete(waiter);
+      disarm?.();
+      resolve(taken);
+    };
+
+    waiters.add(waiter);
+    disarm = armWaiter(options, waiter.cancel, errorCancelled);
+    retry();
+  });
+}
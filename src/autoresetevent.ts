@@ -0,0 +1,193 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { ErrCancelled } from './errors';
+import type { EventOptions, EventQueuedPromise } from './manualresetevent';
+import type { LockOptions } from './types';
+import { abortReason, armQueued } from './waiter';
+
+/**
+ * Signalling gate which lets exactly one waiter through per set, closing again
+ * automatically behind it. If nobody is waiting when set, the event stays set
+ * until the next wait passes through.
+ */
+export default class AutoResetEvent {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * AutoResetEvent object.
+   */
+  public static readonly DefaultOptions:EventOptions = { errorCancelled: ErrCancelled };
+
+  /**
+   * Options dictating how this event will work
+   */
+  options:EventOptions;
+
+  /**
+   * Is the event currently set (open for one waiter)
+   */
+  #set:boolean;
+
+  /**
+   * Waiters to release, one per set
+   */
+  #queue:Array<EventQueuedPromise> = [];
+
+  /**
+   * @param initialState Should the event start out set. **Default = false**.
+   * @param options Additional settings declaring how this event operates.
+   * **Default = AutoResetEvent.DefaultOptions**.
+   * @param options.onSet Function which is called whenever the event is set.
+   * @param options.onReset Function which is called whenever the event is
+   * reset, either manually or by letting a waiter through.
+   * @param options.onCancel Function which is called after the waiters are
+   * cancelled.
+   * @param options.errorCancelled The error value thrown to each waiter when
+   * the event is cancelled.
+   */
+  constructor(initialState?:boolean, options?:EventOptions) {
+    // Bind methods
+    this.set = this.set.bind(this);
+    this.reset = this.reset.bind(this);
+    this.wait = this.wait.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    this.#set = (initialState === true);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...AutoResetEvent.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Is the event currently set?
+   */
+  get isSet():boolean {
+    return this.#set;
+  }
+
+  /**
+   * Number of waiters waiting for the event to be set
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Sets the event, releasing exactly one waiter. If nobody is waiting, the
+   * event stays set and the next wait passes straight through. Setting an
+   * event that is already set has no further effect.
+   */
+  set():void {
+    if(typeof this.options.onSet === 'function')
+      this.options.onSet();
+
+    const next = this.#queue.shift();
+    if(!next) {
+      this.#set = true;
+      return;
+    }
+
+    // The waiter passes through, so the event closes again right away
+    if(typeof this.options.onReset === 'function')
+      this.options.onReset();
+
+    next.disarm?.();
+    next.resolve();
+  }
+
+  /**
+   * Resets the event, taking back a set that no waiter has passed through yet.
+   */
+  reset():void {
+    this.#set = false;
+
+    if(typeof this.options.onReset === 'function')
+      this.options.onReset();
+  }
+
+  /**
+   * Waits until the event is set, then resets it so no other waiter passes.
+   * Resolves straight away if the event already is set.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const workAvailable = new AutoResetEvent();
+   * 
+   * // Each worker
+   * while(running) {
+   *    await workAvailable.wait();
+   *    await processOne();
+   * }
+   * 
+   * // Wake exactly one worker
+   * workAvailable.set();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this wait
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving once the event lets this waiter through
+   */
+  wait(options?:LockOptions):Promise<void> {
+    if(this.#set) {
+      this.reset();
+      return Promise.resolve();
+    }
+
+    // An already aborted signal never waits
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, this.options.errorCancelled));
+
+    return new Promise<void>((resolve, reject) => {
+      const entry:EventQueuedPromise = {
+        resolve,
+        reject,
+      };
+      this.#queue.push(entry);
+
+      entry.disarm = armQueued(entry, () => this.#queue, options ?? {}, this.options.errorCancelled);
+    });
+  }
+
+  /**
+   * Cancels all waiters by rejecting their promises. The state of the event is
+   * left as it is.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const queue = this.#queue;
+    this.#queue = [];
+
+    queue.forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.options.errorCancelled ?? ErrCancelled);
+    });
+
+    // Call the onCancel asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+/**
+ * A time-limited grant of a lock from a {@link LockBackend}
+ */
+export interface LockLease {
+
+  /**
+   * Name of the lock the lease is for
+   */
+  key:string;
+
+  /**
+   * Identifies the holder, such as a host and process
+   */
+  owner:string;
+
+  /**
+   * Fencing token of the grant. Every grant of a key gets a higher token than
+   * the ones before it, so stores can reject writes carrying an older token.
+   */
+  token:number;
+
+  /**
+   * Milliseconds since the epoch, on the backend's clock, when the lease
+   * expires unless renewed
+   */
+  expiresAt:number;
+};
+
+/**
+ * Storage of leases shared by everyone locking the same keys, such as a lock
+ * server. Used by {@link RemoteMutex}, implement it to coordinate through
+ * whichever store your services already share.
+ * 
+ * Implementations must grant a key to one owner at a time, treat a lease as
+ * released once it expires, and hand out strictly increasing tokens for each
+ * key. Renewing and releasing only apply to the lease matching both the token
+ * and the owner. Failures should be rejected with {@link LockBackendError}.
+ */
+export interface LockBackend {
+
+  /**
+   * Grants the lock if it is free or it's lease has expired.
+   * 
+   * @param key Name of the lock
+   * @param owner Identifies the holder
+   * @param ttl Milliseconds until the lease expires
+   * @returns Promise resolving to the new lease, or null if the lock is held
+   */
+  acquire(key:string, owner:string, ttl:number):Promise<LockLease|null>;
+
+  /**
+   * Extends a lease that is still held.
+   * 
+   * @throws {LeaseLostError} If the lease expired or the lock was granted to
+   * somebody else
+   * @param lease The lease to extend
+   * @param ttl Milliseconds from now until the lease expires
+   * @returns Promise resolving to the extended lease
+   */
+  renew(lease:LockLease, ttl:number):Promise<LockLease>;
+
+  /**
+   * Releases a lease, doing nothing if it was already lost.
+   * 
+   * @param lease The lease to release
+   */
+  release(lease:LockLease):Promise<void>;
+
+  /**
+   * Frees any connections or resources held by the backend
+   */
+  close?():Promise<void>;
+};
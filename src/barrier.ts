@@ -0,0 +1,319 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrBrokenBarrier } from './errors';
+import type {
+  LockOptions,
+  LockRejector,
+  QueuedPromise,
+} from './types';
+import { abortReason, armQueued } from './waiter';
+
+export type BarrierResolver = (generation:number) => void;
+
+export type BarrierQueuedPromise = QueuedPromise<BarrierResolver, LockRejector>;
+
+/**
+ * Options available for Barrier objects
+ */
+export interface BarrierOptions {
+
+  /**
+   * Callback executed once per generation when the last party arrives, before
+   * any of the waiting parties are released. If it returns a promise, the
+   * parties are released once it resolves. Should it throw, the waiting
+   * parties are rejected with the error instead. With no party waiting, the
+   * error is thrown to the party that arrived last, or left as an unhandled
+   * rejection when the promise rejects.
+   */
+  onTrip ?: (generation:number) => (Promise<void> | void);
+
+  /**
+   * Callback executed AFTER the Barrier has it's waiting parties cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the waiting parties are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+};
+
+/**
+ * Cyclic barrier for phased work. A set number of parties must all arrive
+ * before any of them continue, after which the barrier resets itself for the
+ * next generation.
+ */
+export default class Barrier {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * Barrier object.
+   */
+  public static readonly DefaultOptions:BarrierOptions = { errorCancelled: ErrBrokenBarrier };
+
+  /**
+   * Options dictating how this barrier will work
+   */
+  options:BarrierOptions;
+
+  /**
+   * Number of parties needed to trip the barrier
+   */
+  #parties:number;
+
+  /**
+   * Number of parties that have arrived in the current generation
+   */
+  #arrived = 0;
+
+  /**
+   * Counter of the generations that have passed
+   */
+  #generation = 0;
+
+  /**
+   * Parties waiting for the current generation to trip
+   */
+  #queue:Array<BarrierQueuedPromise> = [];
+
+  /**
+   * @param parties Positive integer of the number of parties that must arrive
+   * before the barrier trips.
+   * @param options Additional settings declaring how this barrier operates.
+   * **Default = Barrier.DefaultOptions**.
+   * @param options.onTrip Function which is called once per generation when
+   * the barrier trips, before the waiting parties are released.
+   * @param options.onCancel Function which is called after the waiting parties
+   * are cancelled.
+   * @param options.errorCancelled The error value thrown to each waiting party
+   * when the barrier is cancelled. Defaults to `ErrBrokenBarrier`.
+   */
+  constructor(parties:number, options?:BarrierOptions) {
+    // Bind methods
+    this.arrive = this.arrive.bind(this);
+    this.arriveAndWait = this.arriveAndWait.bind(this);
+    this.arriveAndDeregister = this.arriveAndDeregister.bind(this);
+    this.register = this.register.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    if(typeof parties !== 'number' || !Number.isInteger(parties) || parties < 1)
+      throw new TypeError(`Barrier was constructed with parties of "${parties}", a positive integer is required`);
+    this.#parties = parties;
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...Barrier.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Number of parties needed to trip the barrier
+   */
+  get parties():number {
+    return this.#parties;
+  }
+
+  /**
+   * Number of parties that have arrived in the current generation
+   */
+  get arrived():number {
+    return this.#arrived;
+  }
+
+  /**
+   * Number of parties waiting for the current generation to trip
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * The current generation, starting at 0 and incremented each time the
+   * barrier trips or is cancelled.
+   */
+  get generation():number {
+    return this.#generation;
+  }
+
+  /**
+   * Marks a party as arrived without waiting for the others. Trips the barrier
+   * if it was the last party needed.
+   * 
+   * @throws The error thrown by `onTrip` when no party is waiting to be
+   * rejected with it
+   * @returns The generation that was arrived at
+   */
+  arrive():number {
+    const generation = this.#generation;
+
+    this.#arrived++;
+    this.#checkTrip();
+
+    return generation;
+  }
+
+  /**
+   * Marks a party as arrived, and waits for the remaining parties to arrive.
+   * The promise resolves with the generation that tripped, after the `onTrip`
+   * callback has finished.
+   * 
+   * If the wait times out, or it's signal aborts, the arrival is taken back
+   * and only this party is rejected. Cancelling the barrier with
+   * {@link Barrier.cancelAll} rejects all waiting parties with
+   * {@link ErrBrokenBarrier}.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const barrier = new Barrier(workers.length);
+   * 
+   * // In each worker
+   * for(const phase of phases) {
+   *    await phase.run();
+   *    await barrier.arriveAndWait();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this wait
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving to the generation that tripped
+   */
+  arriveAndWait(options?:LockOptions):Promise<number> {
+    // An already aborted signal never arrives
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, this.options.errorCancelled));
+
+    return new Promise<number>((resolve, reject) => {
+      const entry:BarrierQueuedPromise = {
+        resolve,
+        reject,
+      };
+      this.#queue.push(entry);
+      this.#arrived++;
+
+      this.#checkTrip();
+
+      // Only watch the timeout if we are still waiting
+      if(!this.#queue.includes(entry))
+        return;
+
+      // Takes back the arrival when giving up
+      entry.disarm = armQueued(entry, () => this.#queue, options ?? {}, this.options.errorCancelled, () => {
+        this.#arrived--;
+      });
+    });
+  }
+
+  /**
+   * Marks a party as arrived, and removes it from the parties needed for
+   * future generations. Useful when a party is finished with all of it's
+   * phases.
+   * 
+   * @throws {SynchroError} If it is the last party of the barrier
+   * @throws The error thrown by `onTrip` when no party is waiting to be
+   * rejected with it
+   */
+  arriveAndDeregister():void {
+    if(this.#parties <= 1)
+      throw new SynchroError('cannot deregister the last party of a barrier');
+
+    this.#parties--;
+    this.#checkTrip();
+  }
+
+  /**
+   * Adds parties to the barrier, starting with the current generation.
+   * 
+   * @param count Number of parties joining. **Default = 1**.
+   */
+  register(count = 1):void {
+    if(typeof count !== 'number' || !Number.isInteger(count) || count < 1)
+      throw new TypeError(`Barrier register was given a count of "${count}", a positive integer is required`);
+
+    this.#parties += count;
+  }
+
+  /**
+   * Breaks the barrier, rejecting all waiting parties. The barrier then starts
+   * fresh with a new generation.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the Barrier constructor options.
+   * - The {@link ErrBrokenBarrier} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const queue = this.#queue;
+    this.#queue = [];
+    this.#arrived = 0;
+    this.#generation++;
+
+    queue.forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.options.errorCancelled ?? ErrBrokenBarrier);
+    });
+
+    // Call the onCancel asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  #checkTrip():void {
+    if(this.#arrived < this.#parties)
+      return;
+
+    // Start the next generation before anything else can arrive
+    const generation = this.#generation;
+    const queue = this.#queue;
+    this.#queue = [];
+    this.#arrived = 0;
+    this.#generation++;
+
+    queue.forEach(({ disarm }) => disarm?.());
+
+    const release = () => queue.forEach(({ resolve }) => resolve(generation));
+    const fail = (err:Error) => queue.forEach(({ reject }) => reject(err));
+
+    if(typeof this.options.onTrip !== 'function') {
+      release();
+      return;
+    }
+
+    let result:(Promise<void> | void);
+    try {
+      result = this.options.onTrip(generation);
+    } catch (err) {
+      // Nobody is waiting to be rejected, so the arriving party gets the error
+      if(queue.length === 0)
+        throw err;
+
+      fail(err as Error);
+      return;
+    }
+
+    // Without a waiting party the rejection is left unhandled, not dropped
+    if(result && typeof result.then === 'function') {
+      if(queue.length > 0)
+        result.then(release, fail);
+    } else {
+      release();
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import Semaphore, { SemaphoreAcquireOptions } from './semaphore';
+
+/**
+ * Items that can be processed concurrently, either a regular or an async
+ * iterable. Async iterables are only pulled from when a slot is free.
+ */
+export type ConcurrentSource<T> = (Iterable<T> | AsyncIterable<T>);
+
+/**
+ * Function processing a single item, given it's index in the source.
+ */
+export type ConcurrentMapper<T, R> = (item:T, index:number) => (Promise<R> | R);
+
+/**
+ * How errors thrown by the mapper are handled.
+ * 
+ * - `fail-fast` The first error stops any further items from starting, and
+ * rejects straight away with it. Items already running are left to finish.
+ * - `collect` Every item is processed, and the errors are rejected together
+ * in an `AggregateError` in input order.
+ * 
+ * Either way, when acquiring a slot fails (by timeout or abort) no further
+ * items are started, and the promise rejects with that error once the items
+ * already running have finished.
+ */
+export type ConcurrentErrorMode = ('fail-fast' | 'collect');
+
+/**
+ * Options available for the concurrent helpers
+ */
+export interface ConcurrentOptions extends SemaphoreAcquireOptions {
+
+  /**
+   * How errors thrown by the mapper are handled. **Default = 'fail-fast'**.
+   */
+  errors ?: ConcurrentErrorMode;
+};
+
+/**
+ * Processes every item with the mapper, holding an acquisition of the
+ * Semaphore for each one. Used by {@link Semaphore.map} and the standalone
+ * helpers.
+ * 
+ * @param semaphore Semaphore limiting the concurrency
+ * @param source The items to process
+ * @param fn The mapper processing each item
+ * @param options Optional settings for processing, and for each acquisition
+ * @param collect Whether to keep the results, false when only the callbacks
+ * matter. **Default = true**.
+ * @returns Promise resolving to the results in input order, or an empty
+ * array when not collecting them
+ */
+export async function semaphoreMap<T, R>(
+  semaphore:Semaphore,
+  source:ConcurrentSource<T>,
+  fn:ConcurrentMapper<T, R>,
+  options?:ConcurrentOptions,
+  collect = true,
+):Promise<R[]> {
+  const { errors: mode, ...acquireOptions } = options ?? {};
+  const failFast = (mode ?? 'fail-fast') === 'fail-fast';
+
+  let iterator:(Iterator<T> | AsyncIterator<T>);
+  if(Symbol.asyncIterator in source)
+    iterator = (source as AsyncIterable<T>)[Symbol.asyncIterator]();
+  else
+    iterator = (source as Iterable<T>)[Symbol.iterator]();
+
+  const results:R[] = [];
+  const failures:Array<[ number, unknown ]> = [];
+
+  // Only the items in flight, so memory stays bounded for large sources
+  const running = new Set<Promise<void>>();
+
+  let count = 0;
+  let failed = false;
+
+  // Settles with the first error when failing fast
+  let fail:(((err:unknown) => void) | null) = null;
+  const failure = new Promise<never>((_resolve, reject) => {
+    fail = reject;
+  });
+  failure.catch(() => null);
+
+  async function run(value:T, index:number, release:() => void):Promise<void> {
+    try {
+      const result = await fn(value, index);
+      if(collect)
+        results[index] = result;
+    } catch (err) {
+      failures.push([ index, err ]);
+      if(failFast) {
+        failed = true;
+        fail?.(err);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // Lets the source clean up, since the rest of it won't be read
+  async function closeSource():Promise<void> {
+    try {
+      await iterator.return?.();
+    } catch (err) {
+      // The error that stopped reading is the one reported
+    }
+  }
+
+  for(;;) {
+    /*
+     * Wait for a slot before pulling, so only as many items as can run are
+     * read. Failing fast does not wait for the slot to be granted.
+     */
+    const acquiring = semaphore.acquire(acquireOptions);
+    let release:() => void;
+    try {
+      [ release ] = await Promise.race([ acquiring, failure ]);
+    } catch (err) {
+      if(failed) {
+        // The slot may still be granted later, so hand it straight back
+        acquiring.then(([ rel ]) => rel(), () => null);
+        break;
+      }
+
+      // Timed out or aborted, the items already running are still awaited
+      await closeSource();
+      await Promise.all(running);
+      throw err;
+    }
+
+    if(failed) {
+      release();
+      break;
+    }
+
+    let next:IteratorResult<T>;
+    try {
+      next = await iterator.next();
+    } catch (err) {
+      release();
+      await closeSource();
+      await Promise.all(running);
+      throw err;
+    }
+
+    if(next.done) {
+      release();
+      break;
+    }
+
+    const item = run(next.value, count++, release);
+    running.add(item);
+    item.then(() => running.delete(item));
+  }
+
+  if(failed) {
+    await closeSource();
+    throw failures[0][1];
+  }
+
+  await Promise.race([ Promise.all(running), failure ]);
+
+  if(failures.length > 0) {
+    const errors = failures.sort(([ left ], [ right ]) => left - right).map(([ , err ]) => err);
+    throw new AggregateError(errors, `${errors.length} of ${count} items failed`);
+  }
+
+  if(collect)
+    results.length = count;
+  return results;
+}
+
+/**
+ * Wraps the mapper so that it resolves with the outcome of each item, in the
+ * same shape as `Promise.allSettled`, instead of throwing.
+ * 
+ * @param fn The mapper to wrap
+ * @returns Mapper that never rejects
+ */
+export function settled<T, R>(fn:ConcurrentMapper<T, R>):ConcurrentMapper<T, PromiseSettledResult<R>> {
+  return async function settle(item:T, index:number):Promise<PromiseSettledResult<R>> {
+    try {
+      return {
+        status: 'fulfilled',
+        value: await fn(item, index),
+      };
+    } catch (reason) {
+      return {
+        status: 'rejected',
+        reason,
+      };
+    }
+  };
+}
+
+/**
+ * Processes every item with the mapper, at most `concurrency` at a time. The
+ * results are resolved in input order, see {@link Semaphore.map}.
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * ```
+ * const pages = await mapConcurrent(urls, 4, url => fetch(url));
+ * ```
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * @param source The items to process, an iterable or async iterable
+ * @param concurrency Maximum number of items processed at once
+ * @param fn The mapper processing each item
+ * @param options Optional settings such as the error mode
+ * @returns Promise resolving to the results in input order
+ */
+export function mapConcurrent<T, R>(
+  source:ConcurrentSource<T>,
+  concurrency:number,
+  fn:ConcurrentMapper<T, R>,
+  options?:ConcurrentOptions,
+):Promise<R[]> {
+  return semaphoreMap(new Semaphore(concurrency), source, fn, options);
+}
@@ -0,0 +1,325 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled, ErrTimeout } from './errors';
+import type Mutex from './mutex';
+import type {
+  LockOptions,
+  LockRejector,
+  QueuedPromise,
+  Releaser,
+} from './types';
+import { abortReason, armQueued } from './waiter';
+
+export type ConditionPredicate = () => (Promise<boolean> | boolean);
+
+export type ConditionQueuedPromise = QueuedPromise<() => void, LockRejector>;
+
+/**
+ * Options available for Condition objects
+ */
+export interface ConditionOptions {
+
+  /**
+   * Error object that parked waiters are rejected with when cancelled.
+   * Defaults to the `errorCancelled` of the Mutex, or {@link ErrCancelled}.
+   */
+  errorCancelled ?: (Error|SynchroError);
+};
+
+/**
+ * Conditions with parked waiters for each Mutex, so that cancelling the Mutex
+ * can reach them. Conditions are only listed while they have parked waiters,
+ * so that the ones no longer in use are not kept alive by the Mutex.
+ */
+// eslint-disable-next-line no-use-before-define
+const registry = new WeakMap<Mutex, Set<Condition>>();
+
+/**
+ * Cancels the parked waiters of every Condition bound to the Mutex. Called by
+ * {@link Mutex.cancelAll}.
+ * 
+ * @param mutex The Mutex being cancelled
+ * @param err Optional custom error to reject with
+ */
+export function cancelConditions(mutex:Mutex, err?:Error):void {
+  registry.get(mutex)?.forEach(condition => condition.cancelAll(err));
+}
+
+/**
+ * Condition variable bound to a Mutex. Allows a holder of the Mutex to give up
+ * the lock and wait until it is notified that the state it is waiting for may
+ * have changed, re-acquiring the Mutex before continuing.
+ */
+export default class Condition {
+  /**
+   * Options dictating how this condition will work
+   */
+  options:ConditionOptions;
+
+  /**
+   * The Mutex this condition is bound to
+   */
+  readonly #mutex:Mutex;
+
+  /**
+   * Waiters parked until they are notified
+   */
+  #queue:Array<ConditionQueuedPromise> = [];
+
+  /**
+   * @param mutex The Mutex protecting the state this condition is about.
+   * @param options Additional settings for Condition operation.
+   * @param options.errorCancelled Error object that is thrown when the parked
+   * waiters are rejected via `cancelAll`.
+   */
+  constructor(mutex:Mutex, options?:ConditionOptions) {
+    // Bind methods
+    this.wait = this.wait.bind(this);
+    this.waitFor = this.waitFor.bind(this);
+    this.notifyOne = this.notifyOne.bind(this);
+    this.notifyAll = this.notifyAll.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    this.options = { ...(options ?? {}) };
+    this.#mutex = mutex;
+  }
+
+  /**
+   * The Mutex this condition is bound to
+   */
+  get mutex():Mutex {
+    return this.#mutex;
+  }
+
+  /**
+   * Number of waiters parked on this condition
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Releases the held Mutex and parks until notified, then re-acquires the
+   * Mutex before resolving with a new releaser.
+   * 
+   * Releasing and parking happens atomically, so a notification sent by the
+   * next holder of the Mutex is never missed. The given releaser is always
+   * consumed, if the promise rejects (by timeout, abort, or cancelling) the
+   * Mutex is **not** held anymore.
+   * 
+   * Like most condition variables, waking up does not promise the state has
+   * changed. Check the state again after waking, or use
+   * {@link Condition.waitFor} to do so automatically.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * let release = await mtx.lock();
+   * while(buffer.length === 0)
+   *    release = await cond.wait(release);
+   * 
+   * const item = buffer.shift();
+   * release();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param release The releaser of the currently held Mutex lock
+   * @param options Optional settings for this wait
+   * @param options.timeout Milliseconds to wait, both parked and re-acquiring
+   * the Mutex, before rejecting with `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving with the releaser of the re-acquired Mutex
+   */
+  async wait(release:Releaser, options?:LockOptions):Promise<Releaser> {
+    const signal = options?.signal;
+    const errorCancelled = this.#errorCancelled();
+
+    const timeout = options?.timeout;
+    const deadline = (typeof timeout === 'number' && Number.isFinite(timeout) ? Date.now() + timeout : null);
+
+    const parked = new Promise<void>((resolve, reject) => {
+      // An already aborted signal never parks
+      if(signal?.aborted) {
+        reject(abortReason(signal, errorCancelled));
+        return;
+      }
+
+      const entry:ConditionQueuedPromise = {
+        resolve,
+        reject,
+      };
+      this.#park(entry);
+
+      entry.disarm = armQueued(entry, () => this.#queue, {
+        timeout,
+        signal,
+      }, errorCancelled, () => this.#unpark());
+    });
+
+    // Now parked, the Mutex can be given up
+    release();
+
+    await parked;
+
+    // Re-acquiring only gets what is left of the timeout
+    return this.#mutex.lock({
+      signal,
+      ...(deadline === null ? {} : { timeout: Math.max(0, deadline - Date.now()) }),
+    });
+  }
+
+  /**
+   * Waits until the predicate returns true, parking on this condition between
+   * checks. The predicate is always checked while holding the Mutex.
+   * 
+   * If the predicate is already true, the given releaser is returned straight
+   * away. Like {@link Condition.wait}, when the promise rejects the Mutex is
+   * **not** held anymore. This includes errors thrown by the predicate.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const release = await cond.waitFor(
+   *    await mtx.lock(),
+   *    () => buffer.length > 0,
+   *    { timeout: 5000 },
+   * );
+   * 
+   * const item = buffer.shift();
+   * release();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param release The releaser of the currently held Mutex lock
+   * @param predicate Function checking if the awaited state has been reached
+   * @param options Optional settings for the whole wait
+   * @param options.timeout Milliseconds to wait in total before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving with the releaser of the held Mutex
+   */
+  async waitFor(release:Releaser, predicate:ConditionPredicate, options?:LockOptions):Promise<Releaser> {
+    const timeout = options?.timeout;
+    const deadline = (typeof timeout === 'number' && Number.isFinite(timeout) ? Date.now() + timeout : null);
+
+    let current:(Releaser|null) = release;
+    try {
+      while(!(await predicate())) {
+        const remaining = (deadline === null ? null : deadline - Date.now());
+        if(remaining !== null && remaining <= 0)
+          throw ErrTimeout;
+
+        // The wait consumes the releaser, even when rejecting
+        const waiting:Releaser = current;
+        current = null;
+        current = await this.wait(waiting, {
+          signal: options?.signal,
+          ...(remaining === null ? {} : { timeout: remaining }),
+        });
+      }
+    } catch (err) {
+      current?.();
+      throw err;
+    }
+
+    return current;
+  }
+
+  /**
+   * Wakes up the longest parked waiter, if there is one.
+   * 
+   * @returns True if a waiter was woken up
+   */
+  notifyOne():boolean {
+    const next = this.#queue.shift();
+    if(!next)
+      return false;
+    this.#unpark();
+
+    next.disarm?.();
+    next.resolve();
+    return true;
+  }
+
+  /**
+   * Wakes up all of the parked waiters. They will each re-acquire the Mutex
+   * in turn.
+   * 
+   * @returns The number of waiters woken up
+   */
+  notifyAll():number {
+    const queue = this.#queue;
+    this.#queue = [];
+    this.#unpark();
+
+    queue.forEach(({ resolve, disarm }) => {
+      disarm?.();
+      resolve();
+    });
+    return queue.length;
+  }
+
+  /**
+   * Cancels all parked waiters by rejecting their promises. This is also
+   * called when the bound Mutex is cancelled by {@link Mutex.cancelAll}.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The `errorCancelled` option of the bound Mutex.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const queue = this.#queue;
+    this.#queue = [];
+    this.#unpark();
+
+    queue.forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.#errorCancelled());
+    });
+  }
+
+  /**
+   * Parks the waiter, listing this condition for it's Mutex to cancel.
+   */
+  #park(entry:ConditionQueuedPromise):void {
+    this.#queue.push(entry);
+
+    const conditions = registry.get(this.#mutex) ?? new Set<Condition>();
+    conditions.add(this);
+    registry.set(this.#mutex, conditions);
+  }
+
+  /**
+   * Stops listing this condition once no waiters are parked anymore.
+   */
+  #unpark():void {
+    if(this.#queue.length > 0)
+      return;
+
+    const conditions = registry.get(this.#mutex);
+    conditions?.delete(this);
+    if(conditions?.size === 0)
+      registry.delete(this.#mutex);
+  }
+
+  #errorCancelled():Error {
+    return this.options.errorCancelled ?? this.#mutex.options.errorCancelled ?? ErrCancelled;
+  }
+}
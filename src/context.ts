@@ -0,0 +1,77 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Identity of a logical async task. Everything called from within
+ * {@link runTask}, including async continuations, belongs to the same task.
+ */
+export interface Task {
+
+  /**
+   * Unique number identifying the task, useful for debugging
+   */
+  readonly id:number;
+};
+
+/**
+ * Storage tracking the task of the current async context
+ */
+const storage = new AsyncLocalStorage<Task>();
+
+/**
+ * Counter handing out the task ids
+ */
+let nextTaskID = 1;
+
+/**
+ * Creates a new task identity, without entering it.
+ * 
+ * @returns The new task
+ */
+export function createTask():Task {
+  return { id: nextTaskID++ };
+}
+
+/**
+ * Gets the task of the current async context, if there is one.
+ * 
+ * @returns The current task, or undefined outside of any task
+ */
+export function currentTask():(Task|undefined) {
+  return storage.getStore();
+}
+
+/**
+ * Runs the callback as a logical task. Locks that track ownership, such as the
+ * {@link ReentrantMutex}, treat everything inside the callback as the same
+ * owner.
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * ```
+ * await runTask(async () => {
+ *    const unlock = await mtx.lock();
+ *    await helperThatAlsoLocks(mtx); // Re-enters instead of deadlocking
+ *    unlock();
+ * });
+ * ```
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * @param cb Callback executed within the task
+ * @param task The task to run as. **Default = a new task**.
+ * @returns The results of the callback
+ */
+export function runTask<T>(cb:() => T, task:Task = createTask()):T {
+  return storage.run(task, cb);
+}
@@ -0,0 +1,307 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import {
+  DeadlockError,
+  LockInversion,
+  LockOrderError,
+} from './errors';
+import {
+  Task,
+  currentTask as contextTask,
+  runTask as runContextTask,
+} from './context';
+
+/**
+ * Options available for DeadlockDetector objects
+ */
+export interface DeadlockDetectorOptions {
+
+  /**
+   * Records the order in which locks are acquired while holding others, and
+   * flags any acquisition made in the opposite order, even if no deadlock
+   * happens. **Default = false**.
+   */
+  lockOrder ?: boolean;
+
+  /**
+   * Callback executed when the lock ordering mode finds an inversion. When not
+   * set, the offending lock attempt is rejected with a {@link LockOrderError}
+   * instead.
+   */
+  onInversion ?: (inversion:LockInversion) => void;
+};
+
+interface CycleLink {
+  task:Task;
+  lock:object;
+};
+
+/**
+ * Tracks which async task holds and waits on which lock, for the locks that
+ * are given it in their `deadlockDetector` option. A lock attempt that would
+ * close a cycle in the wait-for graph is rejected with a {@link DeadlockError}
+ * instead of waiting forever.
+ * 
+ * Tasks are identified through the async context, see {@link runTask}. The
+ * guards of the locks run as a task automatically, while lock attempts made
+ * outside of any task are not tracked. The detector is what tracks the async
+ * context for the locks, so that locks without one never depend on it.
+ */
+export default class DeadlockDetector {
+  /**
+   * Options dictating how this detector will work
+   */
+  options:DeadlockDetectorOptions;
+
+  /**
+   * Tasks holding each lock, with the number of holds
+   */
+  #holders = new Map<object, Map<Task, number>>();
+
+  /**
+   * Locks each task is waiting on
+   */
+  #waiting = new Map<Task, Set<object>>();
+
+  /**
+   * Locks observed being acquired while holding each lock
+   */
+  #order = new WeakMap<object, Set<object>>();
+
+  /**
+   * Names used to describe the locks in errors
+   */
+  #names = new WeakMap<object, string>();
+
+  /**
+   * Counter for naming the locks without one
+   */
+  #nextName = 1;
+
+  /**
+   * @param options Additional settings for the detector.
+   * @param options.lockOrder Flag acquisitions made in the opposite order of
+   * what was observed before.
+   * @param options.onInversion Function called with each inversion found,
+   * instead of rejecting the lock attempt.
+   */
+  constructor(options?:DeadlockDetectorOptions) {
+    // Bind methods
+    this.request = this.request.bind(this);
+    this.granted = this.granted.bind(this);
+    this.withdraw = this.withdraw.bind(this);
+    this.released = this.released.bind(this);
+    this.currentTask = this.currentTask.bind(this);
+    this.runTask = this.runTask.bind(this);
+
+    this.options = { ...(options ?? {}) };
+  }
+
+  /**
+   * Called by a lock to get the task of the current async context.
+   * 
+   * @returns The current task, or undefined outside of any task
+   */
+  currentTask():(Task|undefined) {
+    return contextTask();
+  }
+
+  /**
+   * Called by a lock to run it's guard as a new task, see {@link runTask}.
+   * 
+   * @param cb Callback executed within the task
+   * @returns The results of the callback
+   */
+  runTask<T>(cb:() => T):T {
+    return runContextTask(cb);
+  }
+
+  /**
+   * Called by a lock when a task attempts to acquire it. Checks the lock order
+   * and, if the task will have to wait, the wait-for graph.
+   * 
+   * @param task The task attempting to lock
+   * @param lock The lock being acquired
+   * @param name Name describing the lock in errors
+   * @param willWait Whether the task will have to wait for the lock
+   * @returns The error to reject the attempt with, or null to carry on
+   */
+  request(task:Task, lock:object, name:(string|undefined), willWait:boolean):(Error|null) {
+    if(!this.#names.has(lock))
+      this.#names.set(lock, name ?? `lock ${this.#nextName++}`);
+
+    if(this.options.lockOrder) {
+      const err = this.#checkOrder(task, lock);
+      if(err)
+        return err;
+    }
+
+    if(!willWait)
+      return null;
+
+    const cycle = this.#findCycle(task, lock, new Set());
+    if(cycle) {
+      const first:CycleLink = {
+        task,
+        lock,
+      };
+      return new DeadlockError([ first, ...cycle ].map(link => ({
+        task: link.task,
+        lock: this.#names.get(link.lock) as string,
+      })));
+    }
+
+    const waits = this.#waiting.get(task) ?? new Set<object>();
+    waits.add(lock);
+    this.#waiting.set(task, waits);
+
+    return null;
+  }
+
+  /**
+   * Called by a lock when a task acquires it.
+   * 
+   * @param task The task that acquired the lock
+   * @param lock The acquired lock
+   */
+  granted(task:Task, lock:object):void {
+    this.withdraw(task, lock);
+
+    const holders = this.#holders.get(lock) ?? new Map<Task, number>();
+    holders.set(task, (holders.get(task) ?? 0) + 1);
+    this.#holders.set(lock, holders);
+  }
+
+  /**
+   * Called by a lock when a task stops waiting for it without acquiring it,
+   * such as on a timeout or cancellation.
+   * 
+   * @param task The task that was waiting
+   * @param lock The lock it was waiting for
+   */
+  withdraw(task:Task, lock:object):void {
+    const waits = this.#waiting.get(task);
+    if(!waits)
+      return;
+
+    waits.delete(lock);
+    if(waits.size === 0)
+      this.#waiting.delete(task);
+  }
+
+  /**
+   * Called by a lock when a task releases it.
+   * 
+   * @param task The task that held the lock
+   * @param lock The released lock
+   */
+  released(task:Task, lock:object):void {
+    const holders = this.#holders.get(lock);
+    const count = holders?.get(task);
+    if(!holders || !count)
+      return;
+
+    if(count > 1) {
+      holders.set(task, count - 1);
+      return;
+    }
+
+    holders.delete(task);
+    if(holders.size === 0)
+      this.#holders.delete(lock);
+  }
+
+  /**
+   * Searches for the chain of waiting tasks leading from the lock back to the
+   * given task. A lock only counts as stuck when every other holder of it is
+   * stuck too, since any one of them releasing would let the task through.
+   */
+  #findCycle(task:Task, lock:object, visited:Set<object>):(CycleLink[]|null) {
+    const holders = this.#holders.get(lock);
+    if(!holders || visited.has(lock))
+      return null;
+    visited.add(lock);
+
+    let cycle:(CycleLink[]|null) = [];
+    holders.forEach((count, holder) => {
+      // The task holding the lock itself needs no further link
+      if(!cycle || holder === task)
+        return;
+
+      let found:(CycleLink[]|null) = null;
+      this.#waiting.get(holder)?.forEach(next => {
+        if(found)
+          return;
+
+        const rest = this.#findCycle(task, next, visited);
+        if(rest) {
+          const link:CycleLink = {
+            task: holder,
+            lock: next,
+          };
+          found = [ link, ...rest ];
+        }
+      });
+
+      // Keep the first chain found to describe the cycle
+      if(!found)
+        cycle = null;
+      else if(cycle.length === 0)
+        cycle = found;
+    });
+
+    return cycle;
+  }
+
+  #checkOrder(task:Task, lock:object):(Error|null) {
+    let inversion:(LockInversion|null) = null;
+
+    this.#holders.forEach((holders, held) => {
+      if(held === lock || !holders.has(task))
+        return;
+
+      if(!inversion && this.#isOrderedBefore(lock, held, new Set())) {
+        inversion = {
+          task,
+          held: this.#names.get(held) as string,
+          requested: this.#names.get(lock) as string,
+        };
+        return;
+      }
+
+      const after = this.#order.get(held) ?? new Set<object>();
+      after.add(lock);
+      this.#order.set(held, after);
+    });
+
+    if(!inversion)
+      return null;
+
+    if(typeof this.options.onInversion === 'function') {
+      this.options.onInversion(inversion);
+      return null;
+    }
+    return new LockOrderError(inversion);
+  }
+
+  #isOrderedBefore(first:object, second:object, visited:Set<object>):boolean {
+    if(visited.has(first))
+      return false;
+    visited.add(first);
+
+    const after = this.#order.get(first);
+    if(!after)
+      return false;
+
+    return after.has(second) || Array.from(after).some(next => this.#isOrderedBefore(next, second, visited));
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+/*
+ * Declarations for explicit resource management, matching the ones shipped
+ * with TypeScript 5.2 and later, so that `using` declarations type check while
+ * still compiling on older TypeScript versions and targets.
+ */
+declare global {
+  interface SymbolConstructor {
+    readonly dispose:unique symbol;
+    readonly asyncDispose:unique symbol;
+  }
+
+  interface Disposable {
+    [Symbol.dispose]():void;
+  }
+
+  interface AsyncDisposable {
+    [Symbol.asyncDispose]():PromiseLike<void>;
+  }
+}
+
+// Runtimes that predate the well-known symbols get registered ones instead
+if(typeof Symbol.dispose !== 'symbol')
+  Object.defineProperty(Symbol, 'dispose', { value: Symbol.for('Symbol.dispose') });
+if(typeof Symbol.asyncDispose !== 'symbol')
+  Object.defineProperty(Symbol, 'asyncDispose', { value: Symbol.for('Symbol.asyncDispose') });
+
+/**
+ * Any function releasing a hold, such as a `Releaser` or `SemaphoreReleaser`
+ */
+export type AnyReleaser = (...args:any[]) => void;
+
+/**
+ * Releaser which can also be released by leaving the scope of a `using` or
+ * `await using` declaration. Calling it, or it's `release()` method, still
+ * releases straight away.
+ */
+export type Handle<F extends AnyReleaser> = (F & Disposable & AsyncDisposable & {
+
+  /**
+   * Releases the hold, same as calling the handle itself
+   */
+  readonly release:F;
+});
+
+/**
+ * Makes the object disposable, calling the releaser without arguments when
+ * disposed of. The properties are not enumerable, so the object otherwise
+ * looks unchanged.
+ * 
+ * @param target Object to make disposable
+ * @param release Function releasing the whole hold
+ * @returns The same object
+ */
+export function makeDisposable<T extends object>(target:T, release:() => void):(T & Disposable & AsyncDisposable) {
+  return Object.defineProperties(target, {
+    [Symbol.dispose]: { value: () => release() },
+    [Symbol.asyncDispose]: { value: () => Promise.resolve(release()) },
+  }) as (T & Disposable & AsyncDisposable);
+}
+
+/**
+ * Turns a releaser into a {@link Handle}.
+ * 
+ * @param release The releaser to wrap
+ * @returns The same releaser, with the `release` method and dispose symbols
+ */
+export function makeHandle<F extends AnyReleaser>(release:F):Handle<F> {
+  Object.defineProperty(release, 'release', { value: release });
+  return makeDisposable(release, () => release()) as Handle<F>;
+}
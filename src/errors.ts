@@ -9,6 +9,8 @@
  * GITHUB: https://github.com/chris-pikul/async-synchro
  */
 
+import type { Task } from './context';
+
 /**
  * Wraps the default Error type into a new object SynchroError allowing for
  * additional information and type-checking during error handling.
@@ -22,3 +24,113 @@ export default class SynchroError extends Error {
 };
 
 export const ErrCancelled = new SynchroError('lock cancelled');
+
+export const ErrTimeout = new SynchroError('lock timed out');
+
+export const ErrBrokenBarrier = new SynchroError('barrier broken');
+
+export const ErrClosed = new SynchroError('lock closed');
+
+/**
+ * One link of a deadlock cycle, a task waiting for a lock
+ */
+export interface DeadlockLink {
+
+  /**
+   * The waiting task
+   */
+  task:Task;
+
+  /**
+   * Name of the lock it is waiting for
+   */
+  lock:string;
+};
+
+/**
+ * Error rejecting a waiting lock that would close a deadlock cycle. The
+ * `cycle` lists each task in it and the lock it is waiting for, where every
+ * lock is held by the task of the next link (wrapping around).
+ */
+export class DeadlockError extends SynchroError {
+  readonly cycle:DeadlockLink[];
+
+  constructor(cycle:DeadlockLink[]) {
+    const links = cycle.map(({ task, lock }) => `task ${task.id} waits for "${lock}"`);
+    super(`deadlock detected: ${links.join(', ')}`);
+
+    this.name = 'DeadlockError';
+    this.cycle = cycle;
+  }
+};
+
+/**
+ * An acquisition made in the opposite order of what was observed before
+ */
+export interface LockInversion {
+
+  /**
+   * The task acquiring the locks
+   */
+  task:Task;
+
+  /**
+   * Name of the lock already held by the task
+   */
+  held:string;
+
+  /**
+   * Name of the lock being acquired, which was previously acquired before the
+   * held one
+   */
+  requested:string;
+};
+
+/**
+ * Error rejecting a lock acquired in the opposite order of what was observed
+ * before, when using the lock ordering mode without an `onInversion` callback.
+ */
+export class LockOrderError extends SynchroError {
+  readonly inversion:LockInversion;
+
+  constructor(inversion:LockInversion) {
+    super(`lock order inversion: task ${inversion.task.id} holds "${inversion.held}" while acquiring "${inversion.requested}"`);
+
+    this.name = 'LockOrderError';
+    this.inversion = inversion;
+  }
+};
+
+/**
+ * Error from a {@link LockBackend}, such as a lock server that could not be
+ * reached or did not answer in time. The underlying error, if any, is kept as
+ * the `cause`.
+ */
+export class LockBackendError extends SynchroError {
+  readonly cause?:unknown;
+
+  constructor(message:string, cause?:unknown) {
+    super(message);
+
+    this.name = 'LockBackendError';
+    this.cause = cause;
+  }
+};
+
+/**
+ * Error given when a lease can no longer be renewed because it expired, or
+ * the lock was granted to somebody else with a newer fencing token.
+ */
+export class LeaseLostError extends SynchroError {
+  readonly key:string;
+
+  readonly token:number;
+
+  constructor(key:string, token:number) {
+    super(`lease on "${key}" with token ${token} was lost`);
+
+    this.name = 'LeaseLostError';
+    this.key = key;
+    this.token = token;
+  }
+};
@@ -0,0 +1,178 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import type { Task } from './context';
+import type { LockOptions } from './types';
+
+/**
+ * Report of a hold that was released because it's TTL elapsed
+ */
+export interface ExpiredHold {
+
+  /**
+   * Name of the lock, if one was given in it's options
+   */
+  name ?: string;
+
+  /**
+   * Async task holding the lock, when tracked by a deadlock detector
+   */
+  task ?: Task;
+
+  /**
+   * Number of slots that were still held, for Semaphore holds
+   */
+  weight ?: number;
+
+  /**
+   * Milliseconds the lock was held for when it expired
+   */
+  heldFor:number;
+};
+
+/**
+ * Options for automatically expiring holds, available on Mutex and Semaphore
+ * objects.
+ */
+export interface ExpiryOptions {
+
+  /**
+   * Callback executed with a report whenever a hold is released because it's
+   * `ttl` elapsed.
+   */
+  onExpire ?: (hold:ExpiredHold) => void;
+};
+
+/**
+ * Options available for a lock attempt whose hold may expire
+ */
+export interface HoldOptions extends LockOptions {
+
+  /**
+   * Milliseconds the lock may be held for once acquired. When elapsed, the
+   * hold is released automatically and the next waiter is let in. Calling
+   * the releaser afterwards does nothing. **Default = no expiry**.
+   */
+  ttl ?: number;
+};
+
+/**
+ * Expiry of a hold, exposed on the releasers handed out with a `ttl`
+ */
+export interface HoldExpiry {
+
+  /**
+   * Milliseconds since the epoch when the hold expires, null when it has no
+   * `ttl`, or is already released
+   */
+  readonly expiresAt:(number|null);
+
+  /**
+   * Pushes the expiry back to the given milliseconds from now.
+   * 
+   * @param ms Milliseconds from now until the hold expires
+   * @returns False if the hold has no `ttl`, or already expired or was
+   * released
+   */
+  extend(ms:number):boolean;
+};
+
+/**
+ * Timer expiring a single hold
+ */
+export interface HoldTimer extends HoldExpiry {
+
+  /**
+   * Stops the timer, called once the hold is released.
+   */
+  stop():void;
+};
+
+/**
+ * Checks the `ttl` given for a lock attempt.
+ * 
+ * @throws {TypeError} If the ttl is given but not a positive number
+ * @param name Name of the lock class, used in the error message
+ * @param ttl The ttl given
+ */
+export function checkTtl(name:string, ttl?:number):void {
+  if(typeof ttl !== 'undefined' && (typeof ttl !== 'number' || !(ttl > 0)))
+    throw new TypeError(`${name} was given a ttl of "${ttl}", a positive number is required`);
+}
+
+/**
+ * Starts the expiry of a newly granted hold.
+ * 
+ * @param ttl Milliseconds until the hold expires, or undefined for none
+ * @param expire Function releasing the hold when it expires
+ * @returns The timer, which does nothing when there is no ttl
+ */
+export function expireHold(ttl:(number|undefined), expire:() => void):HoldTimer {
+  let active = (typeof ttl === 'number');
+  let expiresAt:(number|null) = null;
+  let timer:(ReturnType<typeof setTimeout>|null) = null;
+
+  const stop = ():void => {
+    active = false;
+    expiresAt = null;
+
+    if(timer !== null)
+      clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = (ms:number):void => {
+    if(timer !== null)
+      clearTimeout(timer);
+
+    expiresAt = Date.now() + ms;
+    timer = setTimeout(() => {
+      stop();
+      expire();
+    }, ms);
+
+    // A held lock should not keep the process running on it's own
+    (timer as { unref ?: () => void }).unref?.();
+  };
+
+  if(typeof ttl === 'number')
+    schedule(ttl);
+
+  return {
+    get expiresAt():(number|null) {
+      return expiresAt;
+    },
+    extend: (ms:number):boolean => {
+      if(typeof ms !== 'number' || !(ms > 0))
+        throw new TypeError(`extend was given "${ms}" milliseconds, a positive number is required`);
+      if(!active)
+        return false;
+
+      schedule(ms);
+      return true;
+    },
+    stop,
+  };
+}
+
+/**
+ * Exposes the expiry of a hold on the releaser handed out for it.
+ * 
+ * @param releaser The releaser of the hold
+ * @param timer The timer expiring the hold
+ * @returns The same releaser, with the `expiresAt` and `extend` properties
+ */
+export function attachExpiry<F extends object>(releaser:F, timer:HoldExpiry):(F & HoldExpiry) {
+  return Object.defineProperties(releaser, {
+    expiresAt: { get: () => timer.expiresAt },
+    extend: { value: timer.extend },
+  }) as (F & HoldExpiry);
+}
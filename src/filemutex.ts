@@ -0,0 +1,575 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { promises as fs } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+import SynchroError, { ErrCancelled } from './errors';
+import Mutex, { MutexLockCB } from './mutex';
+import { Handle, makeHandle } from './disposable';
+import type { LockOptions } from './types';
+import {
+  Poller,
+  cancelPoller,
+  pollLock,
+} from './poll';
+
+/**
+ * Releaser for a FileMutex lock. The promise it returns resolves once the
+ * lock directory has been removed.
+ */
+export type FileReleaser = () => Promise<void>;
+
+/**
+ * Releaser handed out by {@link FileMutex.lock}, which is also disposable.
+ */
+export type FileLockHandle = Handle<FileReleaser>;
+
+/**
+ * Metadata about the process holding a FileMutex, written into the lock
+ * directory as `owner.json`.
+ */
+export interface FileLockOwner {
+
+  /**
+   * Process id of the holder
+   */
+  pid:number;
+
+  /**
+   * Hostname of the machine the holder runs on
+   */
+  hostname:string;
+
+  /**
+   * Milliseconds since the epoch when the lock was acquired
+   */
+  timestamp:number;
+
+  /**
+   * Random token identifying this particular hold
+   */
+  token:string;
+};
+
+/**
+ * Options available for FileMutex objects
+ */
+export interface FileMutexOptions {
+
+  /**
+   * Callback executed whenever a lock is achieved.
+   */
+  onLock ?: () => void;
+
+  /**
+   * Callback executed whenever a lock is released.
+   */
+  onRelease ?: () => void;
+
+  /**
+   * Callback executed AFTER the FileMutex has it's waiting locks cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the locks are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+
+  /**
+   * Default milliseconds a lock will wait before being rejected with
+   * {@link ErrTimeout}. Can be overridden by each lock attempt.
+   */
+  timeout ?: number;
+
+  /**
+   * Milliseconds to wait before checking a taken lock again. Doubles after
+   * each check, up to `maxPollInterval`. **Default = 25**.
+   */
+  pollInterval ?: number;
+
+  /**
+   * Maximum milliseconds to wait between checks. **Default = 1000**.
+   */
+  maxPollInterval ?: number;
+
+  /**
+   * Milliseconds since the last heartbeat after which a lock is considered
+   * abandoned, and may be taken over. **Default = 10000**.
+   */
+  staleAge ?: number;
+
+  /**
+   * Milliseconds between heartbeats refreshing a held lock, which must be
+   * well below `staleAge`. **Default = staleAge / 3**.
+   */
+  heartbeat ?: number;
+
+  /**
+   * Callback executed when a held lock is found to be taken over or removed
+   * by somebody else, such as when the process stalled for longer than
+   * `staleAge`. The work guarded by it should be considered unsafe.
+   */
+  onCompromised ?: (err:SynchroError) => void;
+};
+
+/**
+ * Options for removing a lock directory along with it's owner file
+ */
+const removeOptions = {
+  recursive: true,
+  force: true,
+};
+
+/**
+ * Checks for an error code from the file system
+ */
+function isCode(err:unknown, code:string):boolean {
+  return (err as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * Reads the owner file of a lock directory, null when missing or unreadable
+ */
+async function readOwnerFile(dir:string):Promise<FileLockOwner|null> {
+  try {
+    return JSON.parse(await fs.readFile(join(dir, 'owner.json'), 'utf8')) as FileLockOwner;
+  } catch (err) {
+    if(isCode(err, 'ENOENT') || isCode(err, 'ENOTDIR') || err instanceof SyntaxError)
+      return null;
+    throw err;
+  }
+}
+
+/**
+ * Cross-process single-user lock for processes on the same host. The lock is
+ * a directory on the file system, created atomically by whoever gets it
+ * first, holding the {@link FileLockOwner} metadata.
+ * 
+ * Locks in the same process wait in line like a {@link Mutex}, while other
+ * processes are noticed by polling with a backoff. The holder refreshes the
+ * directory with a heartbeat, so a lock left behind by a crashed process is
+ * taken over once it is older than `staleAge`.
+ */
+export default class FileMutex {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * FileMutex object.
+   */
+  public static readonly DefaultOptions:FileMutexOptions = {
+    errorCancelled: ErrCancelled,
+    pollInterval: 25,
+    maxPollInterval: 1000,
+    staleAge: 10000,
+  };
+
+  /**
+   * Options dictating how this mutex will work
+   */
+  options:FileMutexOptions;
+
+  /**
+   * Path of the lock directory
+   */
+  readonly #path:string;
+
+  /**
+   * Mutex lining up the locks made in this process
+   */
+  readonly #local:Mutex;
+
+  /**
+   * Lock attempts currently polling the lock directory
+   */
+  #pollers = new Set<Poller>();
+
+  /**
+   * Owner metadata of the hold this process has, null when not held
+   */
+  #owner:(FileLockOwner|null) = null;
+
+  /**
+   * @param path Path of the lock directory, such as the protected file's path
+   * with a `.lock` extension. It's parent directory must exist.
+   * @param options Additional settings for FileMutex operation.
+   * @param options.onLock Function which is called when a lock is acquired.
+   * @param options.onRelease Function which is called whenever a lock is
+   * released.
+   * @param options.onCancel Function called when all the locks have been
+   * cancelled by `cancelAll`.
+   * @param options.errorCancelled Error object that is thrown when the promises
+   * are rejected via `cancelAll`.
+   * @param options.timeout Default milliseconds to wait for a lock before
+   * rejecting with `ErrTimeout`.
+   * @param options.pollInterval Milliseconds before checking a taken lock
+   * again, doubling up to `maxPollInterval`.
+   * @param options.maxPollInterval Maximum milliseconds between checks.
+   * @param options.staleAge Milliseconds without a heartbeat after which a
+   * lock is taken over.
+   * @param options.heartbeat Milliseconds between heartbeats of a held lock.
+   * @param options.onCompromised Function called when a held lock is taken
+   * over by somebody else.
+   */
+  constructor(path:string, options?:FileMutexOptions) {
+    // Bind methods
+    this.lock = this.lock.bind(this);
+    this.guard = this.guard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+    this.readOwner = this.readOwner.bind(this);
+
+    if(typeof path !== 'string' || path.length === 0)
+      throw new TypeError(`FileMutex was constructed with a path of "${path}", a non-empty string is required`);
+    this.#path = path;
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...FileMutex.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    this.#local = new Mutex({ errorCancelled: this.options.errorCancelled });
+  }
+
+  /**
+   * Path of the lock directory
+   */
+  get path():string {
+    return this.#path;
+  }
+
+  /**
+   * Determines if this process currently holds the lock
+   */
+  get isLocked():boolean {
+    return this.#owner !== null;
+  }
+
+  /**
+   * Acquires the lock across processes. Locks from this process are lined up
+   * first, then the lock directory is polled until it can be created.
+   * 
+   * After locking, you **must call the releaser** function (or dispose of it)
+   * or else the lock is only freed once it goes stale. The releaser returns a
+   * promise resolving once the lock directory is removed. It is suggested
+   * that you use the guarded method {@link FileMutex.guard} instead.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const cacheLock = new FileMutex(join(cacheDir, '.lock'));
+   * 
+   * const unlock = await cacheLock.lock({ timeout: 5000 });
+   * try {
+   *    await writeCacheEntry(key, value);
+   * } finally {
+   *    await unlock();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this lock attempt
+   * @param options.timeout Milliseconds to wait in total before rejecting
+   * with `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this lock attempt when
+   * aborted.
+   * @returns Promise resolving with the unlock releaser
+   */
+  async lock(options?:LockOptions):Promise<FileLockHandle> {
+    const timeout = options?.timeout ?? this.options.timeout;
+    const signal = options?.signal;
+    const deadline = (typeof timeout === 'number' && Number.isFinite(timeout) ? Date.now() + timeout : null);
+
+    const releaseLocal = await this.#local.lock({
+      timeout,
+      signal,
+    });
+
+    let owner:FileLockOwner;
+    try {
+      owner = await this.#acquire({
+        signal,
+        ...(deadline === null ? {} : { timeout: Math.max(0, deadline - Date.now()) }),
+      });
+    } catch (err) {
+      releaseLocal();
+      throw err;
+    }
+
+    this.#owner = owner;
+    const stopHeartbeat = this.#startHeartbeat(owner);
+
+    // Fire off the event if we are listening
+    if(typeof this.options.onLock === 'function')
+      this.options.onLock();
+
+    let released:(Promise<void>|null) = null;
+    return makeHandle(():Promise<void> => {
+      // Releasing again waits on the first release
+      if(!released) {
+        stopHeartbeat();
+        released = this.#release(owner, releaseLocal);
+      }
+      return released;
+    });
+  }
+
+  /**
+   * Performs the lock acquisition and releasing for you.
+   * 
+   * Any value returned by the callback will be passed through when the
+   * promise resolves. Errors thrown by the callback bubble up after the lock is
+   * released.
+   * 
+   * @param cb Callback function executed when the lock is acquired
+   * @param options Optional settings for the lock attempt, see
+   * {@link FileMutex.lock}
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guard<T = any>(cb:MutexLockCB<T>, options?:LockOptions):Promise<T> {
+    const release = await this.lock(options);
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      await release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels all waiting locks of this process by rejecting their promises.
+   * The lock held by this process, if any, is left untouched and must still
+   * be released.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
+
+    this.#local.cancelAll(reason);
+    this.#pollers.forEach(poller => cancelPoller(poller, reason));
+
+    // Fire the event is asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  /**
+   * Reads the metadata of whoever holds the lock, in any process.
+   * 
+   * @returns Promise resolving to the owner, or null when the lock is free or
+   * the owner has not been written yet
+   */
+  readOwner():Promise<FileLockOwner|null> {
+    return readOwnerFile(this.#path);
+  }
+
+  /**
+   * Polls the lock directory until it is created by this attempt.
+   */
+  #acquire(options:LockOptions):Promise<FileLockOwner> {
+    return pollLock(this.#pollers, {
+      ...options,
+      attempt: () => this.#attempt(),
+      undo: () => fs.rm(this.#path, removeOptions),
+      pollInterval: this.options.pollInterval ?? 25,
+      maxPollInterval: this.options.maxPollInterval ?? 1000,
+      errorCancelled: this.options.errorCancelled,
+    });
+  }
+
+  /**
+   * Makes one attempt at the lock, taking it over straight away when stale.
+   * 
+   * @returns The owner written, or null if the lock is held by another
+   */
+  async #attempt():Promise<FileLockOwner|null> {
+    const owner = await this.#tryCreate();
+    if(owner || !(await this.#takeOver()))
+      return owner;
+    return this.#tryCreate();
+  }
+
+  /**
+   * Attempts to create the lock directory and write the owner into it.
+   * 
+   * @returns The owner written, or null if the lock is already taken
+   */
+  async #tryCreate():Promise<FileLockOwner|null> {
+    try {
+      await fs.mkdir(this.#path);
+    } catch (err) {
+      if(isCode(err, 'EEXIST'))
+        return null;
+      throw err;
+    }
+
+    const owner:FileLockOwner = {
+      pid: process.pid,
+      hostname: hostname(),
+      timestamp: Date.now(),
+      token: randomBytes(16).toString('hex'),
+    };
+    await fs.writeFile(join(this.#path, 'owner.json'), JSON.stringify(owner));
+
+    return owner;
+  }
+
+  /**
+   * Removes the lock directory if it's heartbeat is older than the stale
+   * age. It is moved aside first, so only one process can remove it.
+   * 
+   * @returns True if the lock should be attempted again straight away
+   */
+  async #takeOver():Promise<boolean> {
+    const staleAge = this.options.staleAge ?? 10000;
+
+    // Read before the stat, so a lock created afresh after it is told apart
+    const seen = await this.readOwner();
+
+    let modified:number;
+    try {
+      modified = (await fs.stat(this.#path)).mtimeMs;
+    } catch (err) {
+      if(isCode(err, 'ENOENT'))
+        return true;
+      throw err;
+    }
+
+    if(Date.now() - modified < staleAge)
+      return false;
+
+    const aside = `${this.#path}.${randomBytes(8).toString('hex')}.stale`;
+    try {
+      await fs.rename(this.#path, aside);
+    } catch (err) {
+      // Somebody else got to it first
+      if(isCode(err, 'ENOENT'))
+        return true;
+      throw err;
+    }
+
+    /*
+     * The stat and rename are not atomic. In between, another process may
+     * have taken the stale lock over and created it afresh, or the owner may
+     * have refreshed it. Such a lock is put back instead of removed.
+     */
+    const moved = await readOwnerFile(aside);
+    const { mtimeMs } = await fs.stat(aside);
+    if(moved?.token !== seen?.token || Date.now() - mtimeMs < staleAge) {
+      await this.#restore(aside);
+      return false;
+    }
+
+    await fs.rm(aside, removeOptions);
+    return true;
+  }
+
+  /**
+   * Moves a lock directory that was wrongly moved aside back into place.
+   */
+  async #restore(aside:string):Promise<void> {
+    try {
+      await fs.rename(aside, this.#path);
+    } catch (err) {
+      if(!isCode(err, 'ENOTEMPTY') && !isCode(err, 'EEXIST'))
+        throw err;
+
+      // A newer lock took it's place, the holder of the one moved aside lost it
+      await fs.rm(aside, removeOptions);
+    }
+  }
+
+  /**
+   * Checks that the lock directory still belongs to the given hold.
+   */
+  async #owns(owner:FileLockOwner):Promise<boolean> {
+    const current = await this.readOwner();
+    return current?.token === owner.token;
+  }
+
+  /**
+   * Releases the hold, removing the lock directory unless it was taken over
+   * by somebody else in the meantime.
+   */
+  async #release(owner:FileLockOwner, done:() => void):Promise<void> {
+    try {
+      if(await this.#owns(owner))
+        await fs.rm(this.#path, removeOptions);
+    } finally {
+      this.#owner = null;
+      done();
+
+      // Fire off the event if we are listening
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+    }
+  }
+
+  /**
+   * Refreshes the lock directory periodically while held, reporting when it
+   * turns out to be taken over.
+   * 
+   * @returns Function stopping the heartbeat
+   */
+  #startHeartbeat(owner:FileLockOwner):() => void {
+    const staleAge = this.options.staleAge ?? 10000;
+    const interval = this.options.heartbeat ?? Math.max(1, Math.floor(staleAge / 3));
+
+    let stopped = false;
+    const timer = setInterval(() => {
+      this.#beat(owner).then(alive => {
+        // Releasing may have raced with this beat
+        if(alive || stopped)
+          return;
+        stopped = true;
+        clearInterval(timer);
+
+        if(typeof this.options.onCompromised === 'function')
+          this.options.onCompromised(new SynchroError(`FileMutex lock at "${this.#path}" was taken over or removed`));
+      }, () => null);
+    }, interval);
+
+    // A heartbeat alone should not keep the process running
+    timer.unref?.();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }
+
+  /**
+   * Touches the lock directory if it still belongs to the hold.
+   * 
+   * @returns Promise resolving to false when the hold was lost
+   */
+  async #beat(owner:FileLockOwner):Promise<boolean> {
+    if(!(await this.#owns(owner)))
+      return false;
+
+    const now = new Date();
+    await fs.utimes(this.#path, now, now);
+    return true;
+  }
+}
@@ -13,16 +13,135 @@ export {
   default as Semaphore,
   SemaphoreOptions,
   SemaphoreTicket,
+  SemaphoreReleaser,
+  SemaphoreHandle,
+  SemaphoreHoldTicket,
+  SemaphoreAcquireOptions,
+  SemaphoreHoldOptions,
   SemaphoreResolver,
   SemaphoreLockCB,
 } from './semaphore';
 
+export {
+  mapConcurrent,
+  ConcurrentErrorMode,
+  ConcurrentMapper,
+  ConcurrentOptions,
+  ConcurrentSource,
+} from './concurrent';
+
 export {
   default as Mutex,
+  MutexHandle,
   MutexOptions,
   MutexLockCB,
 } from './mutex';
 
+export {
+  Lockable,
+  WithLocksCB,
+  withLocks,
+} from './lockable';
+
+export {
+  default as SharedMutex,
+  SharedMutexOptions,
+} from './sharedmutex';
+
+export {
+  default as SharedSemaphore,
+  SharedSemaphoreOptions,
+} from './sharedsemaphore';
+
+export { LockStats, StatsDistribution } from './stats';
+
+export {
+  ExpiredHold,
+  ExpiryOptions,
+  HoldExpiry,
+  HoldOptions,
+} from './expiry';
+
+export {
+  LeakOptions,
+  LeakReason,
+  LockLeak,
+} from './leak';
+
+export type { Task } from './context';
+
+export {
+  default as Barrier,
+  BarrierOptions,
+} from './barrier';
+
+export {
+  default as Condition,
+  ConditionOptions,
+  ConditionPredicate,
+} from './condition';
+
+export {
+  default as ReadWriteLock,
+  ReadWriteLockOptions,
+  ReadWriteLockPolicy,
+  ReadWriteLockCB,
+} from './readwritelock';
+
+export {
+  WaitQueue,
+  WaitQueueFactory,
+  QueueDiscipline,
+  FifoQueue,
+  LifoQueue,
+  PriorityQueue,
+  PriorityQueueOptions,
+} from './queue';
+
+export {
+  default as WaitGroup,
+  default as CountDownLatch,
+  WaitGroupOptions,
+} from './waitgroup';
+
+export {
+  default as AdaptiveLimiter,
+  AdaptiveAlgorithm,
+  AdaptiveLimiterOptions,
+  AimdLimit,
+  AimdLimitOptions,
+  GradientLimit,
+  GradientLimitOptions,
+  LimitAlgorithm,
+  LimitSample,
+} from './adaptivelimiter';
+
+export {
+  default as RateLimiter,
+  RateLimiterAlgorithm,
+  RateLimiterClock,
+  RateLimiterOptions,
+} from './ratelimiter';
+
+export { default as KeyedMutex } from './keyedmutex';
+
+export { default as KeyedSemaphore } from './keyedsemaphore';
+
+export {
+  default as ManualResetEvent,
+  EventOptions,
+} from './manualresetevent';
+
+export { default as AutoResetEvent } from './autoresetevent';
+
+export { default as SynchroError } from './errors';
 export * from './errors';
 
-export type { Releaser } from './types';
+export { Skipped } from './types';
+export type { Handle } from './disposable';
+export type {
+  Releaser,
+  LockHandle,
+  LockOptions,
+  SkippedType,
+} from './types';
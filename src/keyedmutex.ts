@@ -0,0 +1,236 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import Mutex, { MutexLockCB, MutexOptions } from './mutex';
+import {
+  LockHandle,
+  LockOptions,
+  Skipped,
+  SkippedType,
+} from './types';
+
+interface KeyedMutexEntry {
+  mutex:Mutex;
+
+  /**
+   * Number of lock attempts on the Mutex that have not settled yet
+   */
+  refs:number;
+};
+
+/**
+ * Collection of Mutex locks, one per key. Useful for serializing work per
+ * resource, such as per user ID or per file path.
+ * 
+ * The Mutex for a key is created the first time it is locked, and evicted again
+ * once nothing holds or waits on it, so the collection does not grow forever.
+ */
+export default class KeyedMutex<K = string> {
+  /**
+   * Options given to each Mutex that is created
+   */
+  options:MutexOptions;
+
+  /**
+   * Active Mutex locks by their key
+   */
+  #entries = new Map<K, KeyedMutexEntry>();
+
+  /**
+   * @param options Settings forwarded to the Mutex of each key, see
+   * {@link Mutex}.
+   */
+  constructor(options?:MutexOptions) {
+    // Bind methods
+    this.lock = this.lock.bind(this);
+    this.tryLock = this.tryLock.bind(this);
+    this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
+    this.isLocked = this.isLocked.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    this.options = { ...(options ?? {}) };
+  }
+
+  /**
+   * Number of keys currently held or waited on
+   */
+  get size():number {
+    return this.#entries.size;
+  }
+
+  /**
+   * Is the Mutex for the key currently locked?
+   * 
+   * @param key The resource key
+   */
+  isLocked(key:K):boolean {
+    return this.#entries.get(key)?.mutex.isLocked ?? false;
+  }
+
+  /**
+   * Locks the Mutex for the key, or waits until the previous locks on that key
+   * are released. Locks on different keys never wait on each other.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const users = new KeyedMutex();
+   * 
+   * const unlock = await users.lock(userID);
+   * try {
+   *    await updateBalance(userID);
+   * } finally {
+   *    unlock();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param key The resource key to lock
+   * @param options Optional settings for this lock attempt, see
+   * {@link Mutex.lock}
+   * @returns Promise resolving with the unlock releaser
+   */
+  lock(key:K, options?:LockOptions):Promise<LockHandle> {
+    const entry = this.#ref(key);
+
+    return entry.mutex.lock(options).then(
+      release => {
+        this.#unref(key, entry);
+        return release;
+      },
+      err => {
+        this.#unref(key, entry);
+        throw err;
+      },
+    );
+  }
+
+  /**
+   * Locks the Mutex for the key only if it is available right now, see
+   * {@link Mutex.tryLock}.
+   * 
+   * @param key The resource key to lock
+   * @returns The unlock releaser, or null if the key is locked
+   */
+  tryLock(key:K):(LockHandle|null) {
+    const entry = this.#ref(key);
+
+    const release = entry.mutex.tryLock();
+    this.#unref(key, entry);
+
+    return release;
+  }
+
+  /**
+   * Performs the callback while holding the lock for the key, see
+   * {@link Mutex.guard}.
+   * 
+   * @param key The resource key to lock
+   * @param cb Callback function executed when the lock is acquired
+   * @param options Optional settings for the lock attempt
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guard<T = any>(key:K, cb:MutexLockCB<T>, options?:LockOptions):Promise<T> {
+    const release = await this.lock(key, options);
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs the callback only if the key can be locked right now, see
+   * {@link Mutex.tryGuard}.
+   * 
+   * @param key The resource key to lock
+   * @param cb Callback function executed if the lock is acquired
+   * @returns Promise resolving to the results returned by the callback, or
+   * `Skipped` if the key was locked
+   */
+  async tryGuard<T = any>(key:K, cb:MutexLockCB<T>):Promise<T|SkippedType> {
+    const release = this.tryLock(key);
+    if(!release)
+      return Skipped;
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels the waiting locks of a single key, see {@link Mutex.cancelAll}.
+   * 
+   * @param key The resource key to cancel
+   * @param err Optional custom error to throw
+   */
+  cancel(key:K, err?:Error):void {
+    this.#entries.get(key)?.mutex.cancelAll(err);
+  }
+
+  /**
+   * Cancels the waiting locks of every key, see {@link Mutex.cancelAll}.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    Array.from(this.#entries.values()).forEach(({ mutex }) => mutex.cancelAll(err));
+  }
+
+  #ref(key:K):KeyedMutexEntry {
+    let entry = this.#entries.get(key);
+    if(!entry) {
+      const { onRelease } = this.options;
+      const created:KeyedMutexEntry = {
+        // Notices every hold released, even by the leak detection
+        mutex: new Mutex({
+          ...this.options,
+          onRelease: () => {
+            if(typeof onRelease === 'function')
+              onRelease();
+            this.#evict(key, created, true);
+          },
+        }),
+        refs: 0,
+      };
+      this.#entries.set(key, created);
+      entry = created;
+    }
+
+    entry.refs++;
+    return entry;
+  }
+
+  #unref(key:K, entry:KeyedMutexEntry):void {
+    entry.refs--;
+    this.#evict(key, entry, false);
+  }
+
+  #evict(key:K, entry:KeyedMutexEntry, releasing:boolean):void {
+    // Waiting attempts keep the key, as does a holder not being released
+    if(entry.refs > 0 || (!releasing && entry.mutex.isLocked))
+      return;
+
+    // Nothing holds or waits on the key anymore, so forget it
+    if(this.#entries.get(key) === entry)
+      this.#entries.delete(key);
+  }
+}
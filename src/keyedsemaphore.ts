@@ -0,0 +1,265 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import Semaphore, {
+  SemaphoreAcquireOptions,
+  SemaphoreLockCB,
+  SemaphoreOptions,
+  SemaphoreTicket,
+} from './semaphore';
+import { Skipped, SkippedType } from './types';
+
+interface KeyedSemaphoreEntry {
+  semaphore:Semaphore;
+
+  /**
+   * Number of acquisitions on the Semaphore that have not settled yet
+   */
+  refs:number;
+};
+
+/**
+ * Collection of Semaphores, one per key. Useful for limiting the concurrency
+ * per resource, such as per host name.
+ * 
+ * The Semaphore for a key is created the first time it is acquired, and evicted
+ * again once nothing holds or waits on it, so the collection does not grow
+ * forever.
+ */
+export default class KeyedSemaphore<K = string> {
+  /**
+   * Options given to each Semaphore that is created
+   */
+  options:SemaphoreOptions;
+
+  /**
+   * Maximum concurrent users given to each Semaphore that is created
+   */
+  readonly #maxConcurrent:number;
+
+  /**
+   * Active Semaphores by their key
+   */
+  #entries = new Map<K, KeyedSemaphoreEntry>();
+
+  /**
+   * @param maxConcurrent The number of concurrent users allowed per key,
+   * forwarded to the Semaphore of each key.
+   * @param options Settings forwarded to the Semaphore of each key, see
+   * {@link Semaphore}.
+   */
+  constructor(maxConcurrent?:number, options?:SemaphoreOptions) {
+    // Bind methods
+    this.acquire = this.acquire.bind(this);
+    this.tryAcquire = this.tryAcquire.bind(this);
+    this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
+    this.isLocked = this.isLocked.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    // Fail early, rather than on the first acquisition
+    this.#maxConcurrent = new Semaphore(maxConcurrent).maxConcurrent;
+
+    this.options = {
+      ...Semaphore.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Maximum concurrent users allowed per key
+   */
+  get maxConcurrent():number {
+    return this.#maxConcurrent;
+  }
+
+  /**
+   * Number of keys currently held or waited on
+   */
+  get size():number {
+    return this.#entries.size;
+  }
+
+  /**
+   * Is the Semaphore for the key currently locked?
+   * 
+   * @param key The resource key
+   */
+  isLocked(key:K):boolean {
+    return this.#entries.get(key)?.semaphore.isLocked ?? false;
+  }
+
+  /**
+   * Acquires the Semaphore for the key, or waits until a slot becomes
+   * available on that key. Acquisitions on different keys never wait on each
+   * other.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const hosts = new KeyedSemaphore(2);
+   * 
+   * const [ release ] = await hosts.acquire(url.host);
+   * try {
+   *    await fetch(url);
+   * } finally {
+   *    release();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param key The resource key to acquire
+   * @param options Optional settings for the acquisition, see
+   * {@link Semaphore.acquire}
+   * @returns Promise resolving to the releaser and available slots tuple
+   */
+  acquire(key:K, options?:(number|SemaphoreAcquireOptions)):Promise<SemaphoreTicket> {
+    const entry = this.#ref(key);
+
+    return entry.semaphore.acquire(options).then(
+      ticket => {
+        this.#unref(key, entry);
+        return ticket;
+      },
+      err => {
+        this.#unref(key, entry);
+        throw err;
+      },
+    );
+  }
+
+  /**
+   * Acquires the Semaphore for the key only if the slots are available right
+   * now, see {@link Semaphore.tryAcquire}.
+   * 
+   * @param key The resource key to acquire
+   * @param options The weight to acquire, as a number or in an object
+   * @returns The releaser and available slots tuple, or null
+   */
+  tryAcquire(key:K, options?:(number|Pick<SemaphoreAcquireOptions, 'weight'>)):(SemaphoreTicket|null) {
+    const entry = this.#ref(key);
+
+    try {
+      return entry.semaphore.tryAcquire(options);
+    } finally {
+      this.#unref(key, entry);
+    }
+  }
+
+  /**
+   * Performs the callback while holding the Semaphore for the key, see
+   * {@link Semaphore.guard}.
+   * 
+   * @param key The resource key to acquire
+   * @param cb Callback function executed when the acquisition is made
+   * @param options Optional settings for the acquisition
+   * @returns Promise resolving to the results of the callback function
+   */
+  async guard<T = any>(key:K, cb:SemaphoreLockCB<T>, options?:SemaphoreAcquireOptions):Promise<T> {
+    const [ release, avail ] = await this.acquire(key, options);
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs the callback only if the Semaphore for the key can be acquired
+   * right now, see {@link Semaphore.tryGuard}.
+   * 
+   * @param key The resource key to acquire
+   * @param cb Callback function executed if the acquisition is made
+   * @param options Optional settings such as the `weight` to acquire.
+   * @returns Promise resolving to the results of the callback function, or
+   * `Skipped` if there where not enough slots available
+   */
+  async tryGuard<T = any>(key:K, cb:SemaphoreLockCB<T>, options?:Pick<SemaphoreAcquireOptions, 'weight'>):Promise<T|SkippedType> {
+    const ticket = this.tryAcquire(key, options);
+    if(!ticket)
+      return Skipped;
+
+    const [ release, avail ] = ticket;
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels the queued acquisitions of a single key, see
+   * {@link Semaphore.cancelAll}.
+   * 
+   * @param key The resource key to cancel
+   * @param err Optional custom error to throw
+   */
+  cancel(key:K, err?:Error):void {
+    this.#entries.get(key)?.semaphore.cancelAll(err);
+  }
+
+  /**
+   * Cancels the queued acquisitions of every key, see
+   * {@link Semaphore.cancelAll}.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    Array.from(this.#entries.values()).forEach(({ semaphore }) => semaphore.cancelAll(err));
+  }
+
+  #ref(key:K):KeyedSemaphoreEntry {
+    let entry = this.#entries.get(key);
+    if(!entry) {
+      const { onRelease } = this.options;
+      const created:KeyedSemaphoreEntry = {
+        // Notices every hold released, even by the leak detection
+        semaphore: new Semaphore(this.#maxConcurrent, {
+          ...this.options,
+          onRelease: () => {
+            if(typeof onRelease === 'function')
+              onRelease();
+            this.#evict(key, created);
+          },
+        }),
+        refs: 0,
+      };
+      this.#entries.set(key, created);
+      entry = created;
+    }
+
+    entry.refs++;
+    return entry;
+  }
+
+  #unref(key:K, entry:KeyedSemaphoreEntry):void {
+    entry.refs--;
+    this.#evict(key, entry);
+  }
+
+  #evict(key:K, entry:KeyedSemaphoreEntry):void {
+    // Waiting acquisitions and holds, even partially released, keep the key
+    if(entry.refs > 0 || entry.semaphore.available < entry.semaphore.maxConcurrent)
+      return;
+
+    // Nothing holds or waits on the key anymore, so forget it
+    if(this.#entries.get(key) === entry)
+      this.#entries.delete(key);
+  }
+}
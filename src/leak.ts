@@ -0,0 +1,198 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+/**
+ * Why a hold was reported as leaked.
+ * 
+ * - `held` The lock was held for longer than the `maxHoldTime`.
+ * - `collected` The releaser was garbage collected without being called.
+ */
+export type LeakReason = ('held' | 'collected');
+
+/**
+ * Report of a lock hold that was leaked
+ */
+export interface LockLeak {
+
+  /**
+   * Why the hold was reported
+   */
+  reason:LeakReason;
+
+  /**
+   * Name of the lock, if one was given in it's options
+   */
+  name ?: string;
+
+  /**
+   * Call stack of where the lock was requested
+   */
+  stack:string;
+
+  /**
+   * Milliseconds the lock was held for when reported
+   */
+  heldFor:number;
+
+  /**
+   * Whether the hold was forcibly released, see the `releaseLeaks` option
+   */
+  released:boolean;
+};
+
+/**
+ * Options for detecting leaked lock holds, available on Mutex and Semaphore
+ * objects.
+ */
+export interface LeakOptions {
+
+  /**
+   * Milliseconds a lock may be held before it is reported as leaked. Only
+   * used when leak detection is enabled by `onLeak` or `releaseLeaks`.
+   */
+  maxHoldTime ?: number;
+
+  /**
+   * Callback executed with a report whenever a hold is leaked. Setting this
+   * enables leak detection, which captures the call stack of every lock
+   * attempt.
+   */
+  onLeak ?: (leak:LockLeak) => void;
+
+  /**
+   * Forcibly releases leaked holds so the waiting locks keep moving. Enables
+   * leak detection as well. **Default = false**.
+   */
+  releaseLeaks ?: boolean;
+};
+
+/**
+ * Watches a single hold of a lock for leaks
+ */
+export interface HoldWatcher {
+
+  /**
+   * Registers the releaser given out for the hold, to notice it being garbage
+   * collected. The releaser must not be referenced by the hold's own release
+   * function.
+   */
+  track(releaser:object):void;
+
+  /**
+   * Stops watching, called once the hold is released.
+   */
+  done():void;
+};
+
+/**
+ * Registry reporting releasers that are collected before being called. Not
+ * available on runtimes without FinalizationRegistry.
+ */
+const registry = (typeof FinalizationRegistry === 'function' ? new FinalizationRegistry<() => void>(report => report()) : null);
+
+/**
+ * Checks if the options enable leak detection.
+ * 
+ * @param options The options of the lock
+ * @returns True if holds should be watched
+ */
+export function watchesLeaks(options:LeakOptions):boolean {
+  return (typeof options.onLeak === 'function' || options.releaseLeaks === true);
+}
+
+/**
+ * Captures the current call stack for leak reports, if leak detection is
+ * enabled. Capturing is skipped otherwise to keep lock attempts cheap.
+ * 
+ * @param options The options of the lock
+ * @returns The call stack, or null when not watching for leaks
+ */
+export function acquisitionStack(options:LeakOptions):(string|null) {
+  if(!watchesLeaks(options))
+    return null;
+
+  return new Error('lock acquired').stack ?? '';
+}
+
+/**
+ * Starts watching a newly granted hold for leaks.
+ * 
+ * @param options The options of the lock
+ * @param release Function fully releasing the hold, used to force release it
+ * @param stack Call stack of where the lock was requested
+ * @param name Name of the lock for the reports
+ * @returns The watcher, or null when not watching for leaks
+ */
+export function watchHold(
+  options:LeakOptions,
+  release:() => void,
+  stack:(string|null),
+  name?:string,
+):(HoldWatcher|null) {
+  if(!watchesLeaks(options))
+    return null;
+
+  const acquiredAt = Date.now();
+  const token = {};
+
+  let active = true;
+  let timer:(ReturnType<typeof setTimeout>|null) = null;
+
+  const done = ():void => {
+    if(!active)
+      return;
+    active = false;
+
+    if(timer !== null)
+      clearTimeout(timer);
+    timer = null;
+
+    registry?.unregister(token);
+  };
+
+  const leak = (reason:LeakReason):void => {
+    if(!active)
+      return;
+
+    // Each hold is only reported once
+    done();
+
+    const released = (options.releaseLeaks === true);
+    if(released)
+      release();
+
+    if(typeof options.onLeak === 'function') {
+      options.onLeak({
+        reason,
+        name,
+        stack: stack ?? '',
+        heldFor: Date.now() - acquiredAt,
+        released,
+      });
+    }
+  };
+
+  const { maxHoldTime } = options;
+  if(typeof maxHoldTime === 'number' && Number.isFinite(maxHoldTime) && maxHoldTime >= 0) {
+    timer = setTimeout(() => leak('held'), maxHoldTime);
+
+    // A held lock should not keep the process running on it's own
+    (timer as { unref ?: () => void }).unref?.();
+  }
+
+  return {
+    track: (releaser:object):void => {
+      if(active)
+        registry?.register(releaser, () => leak('collected'), token);
+    },
+    done,
+  };
+}
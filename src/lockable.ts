@@ -0,0 +1,123 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import type { LockHandle, LockOptions } from './types';
+
+/**
+ * Lock that can be acquired together with others through {@link withLocks},
+ * implemented by both `Mutex` and `Semaphore`.
+ */
+export interface Lockable {
+
+  /**
+   * Id unique to this lock, giving every lock it's place in the global order
+   * locks are acquired in by {@link withLocks}
+   */
+  readonly lockId:number;
+
+  /**
+   * Acquires this lock, waiting for it as needed.
+   * 
+   * @param options Optional settings for this lock attempt
+   * @returns Promise resolving with the releaser
+   */
+  acquireLock(options?:LockOptions):Promise<LockHandle>;
+};
+
+export type WithLocksCB<T> = () => (Promise<T> | T);
+
+/**
+ * Last id handed out by {@link nextLockId}
+ */
+let lastLockId = 0;
+
+/**
+ * Hands out the id of a newly constructed lock. Ids only ever increase, so
+ * ordering by them is stable for as long as the locks exist.
+ * 
+ * @returns The new lock id
+ */
+export function nextLockId():number {
+  lastLockId++;
+  return lastLockId;
+}
+
+/**
+ * Performs the callback while holding every one of the given locks, releasing
+ * them all once the callback settles.
+ * 
+ * The locks are acquired one after another in the global order of their
+ * `lockId`, no matter what order they are given in. Any two call sites
+ * sharing locks therefore take them in the same order, which rules out the
+ * deadlock of nesting guards in opposite orders. A lock given more than once
+ * is only acquired once.
+ * 
+ * When an acquisition fails, such as by timing out or being cancelled, the
+ * locks already acquired are released again before the promise rejects with
+ * that error. The `timeout` covers acquiring all of the locks together, while
+ * the `signal` cancels whichever acquisition is in progress.
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * ```
+ * // Both orders acquire accounts before ledger
+ * await withLocks([ accounts, ledger ], transfer);
+ * await withLocks([ ledger, accounts ], audit, { timeout: 1000 });
+ * ```
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * @param locks The locks to hold while performing the callback
+ * @param cb Callback function executed once every lock is acquired
+ * @param options Optional settings for the lock attempts
+ * @param options.timeout Milliseconds to wait for all of the locks before
+ * rejecting with `ErrTimeout`.
+ * @param options.signal AbortSignal which cancels acquiring the locks when
+ * aborted.
+ * @param options.priority Priority of each lock attempt when using the
+ * `priority` queue discipline.
+ * @returns Promise resolving to the results returned by the callback
+ */
+export async function withLocks<T = any>(locks:Lockable[], cb:WithLocksCB<T>, options?:LockOptions):Promise<T> {
+  const ordered = [ ...new Set(locks) ].sort((first, second) => first.lockId - second.lockId);
+
+  const { timeout, ...lockOptions } = options ?? {};
+  const deadline = (typeof timeout === 'number' ? Date.now() + timeout : null);
+
+  // Released in the reverse order they were acquired in
+  const held:LockHandle[] = [];
+  const releaseAll = ():void => {
+    for(let release = held.pop(); release; release = held.pop())
+      release();
+  };
+
+  try {
+    for(const lock of ordered) {
+      // Each lock only gets what is left of the timeout
+      const remaining = (deadline === null ? {} : { timeout: Math.max(0, deadline - Date.now()) });
+
+      held.push(await lock.acquireLock({
+        ...lockOptions,
+        ...remaining,
+      }));
+    }
+  } catch (err) {
+    // Back off, so the locks already held do not block anybody else
+    releaseAll();
+    throw err;
+  }
+
+  try {
+    return await cb();
+  } finally {
+    releaseAll();
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import {
+  AddressInfo,
+  Server,
+  Socket,
+  createServer,
+} from 'net';
+
+import SynchroError, { LeaseLostError } from './errors';
+import InMemoryBackend from './memorybackend';
+import type { LockBackend, LockLease } from './backend';
+
+/**
+ * Request sent to a LockServer, one JSON object per line
+ */
+export interface LockRequest {
+
+  /**
+   * Identifies the request, echoed back in the response
+   */
+  id:number;
+
+  /**
+   * Which {@link LockBackend} method to call
+   */
+  op:('acquire' | 'renew' | 'release');
+
+  /**
+   * Name of the lock, for `acquire`
+   */
+  key ?: string;
+
+  /**
+   * Identifies the holder, for `acquire`
+   */
+  owner ?: string;
+
+  /**
+   * Milliseconds until the lease expires, for `acquire` and `renew`
+   */
+  ttl ?: number;
+
+  /**
+   * The lease, for `renew` and `release`
+   */
+  lease ?: LockLease;
+};
+
+/**
+ * Response sent by a LockServer, one JSON object per line
+ */
+export interface LockResponse {
+
+  /**
+   * Identifies the request answered
+   */
+  id:(number|null);
+
+  /**
+   * Whether the request succeeded
+   */
+  ok:boolean;
+
+  /**
+   * The lease granted or renewed, null when `acquire` found the lock held
+   */
+  lease ?: (LockLease|null);
+
+  /**
+   * Description of the error when the request failed
+   */
+  error ?: {
+    name:string;
+    message:string;
+    key ?: string;
+    token ?: number;
+  };
+};
+
+/**
+ * Options for a LockServer
+ */
+export interface LockServerOptions {
+
+  /**
+   * Most characters a single request line may have. A client sending a longer
+   * line is disconnected, so it can not fill the memory of the server.
+   * **Default = 65536**.
+   */
+  maxLineLength ?: number;
+};
+
+/**
+ * Small TCP server sharing a {@link LockBackend} with clients connecting
+ * through {@link TcpBackend}. It speaks newline delimited JSON, one
+ * {@link LockRequest} in and one {@link LockResponse} out per line.
+ * 
+ * Meant as a reference backend for development and tests, it has no
+ * authentication or persistence, and listens on localhost by default.
+ * 
+ * ---------------------------------------------------------------------------
+ * 
+ * ```
+ * const server = new LockServer();
+ * const port = await server.listen(7010);
+ * 
+ * // In each service instance
+ * const backend = new TcpBackend({ port: 7010 });
+ * const jobs = new RemoteMutex(backend, 'nightly-jobs');
+ * ```
+ * 
+ * ---------------------------------------------------------------------------
+ */
+export default class LockServer {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * LockServer object.
+   */
+  public static readonly DefaultOptions:LockServerOptions = { maxLineLength: 65536 };
+
+  /**
+   * Options dictating how this server will work
+   */
+  options:LockServerOptions;
+
+  /**
+   * Backend holding the leases for all the clients
+   */
+  readonly backend:LockBackend;
+
+  /**
+   * The listening server, null until `listen` is called
+   */
+  #server:(Server|null) = null;
+
+  /**
+   * Connected clients, closed along with the server
+   */
+  #sockets = new Set<Socket>();
+
+  /**
+   * @throws {TypeError} If the maxLineLength is not a positive integer
+   * @param backend Backend holding the leases. **Default = new
+   * InMemoryBackend()**.
+   * @param options Optional settings for the server.
+   * @param options.maxLineLength Most characters of a request line.
+   */
+  constructor(backend?:LockBackend, options?:LockServerOptions) {
+    // Bind methods
+    this.listen = this.listen.bind(this);
+    this.close = this.close.bind(this);
+
+    this.backend = backend ?? new InMemoryBackend();
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...LockServer.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    const { maxLineLength } = this.options;
+    if(typeof maxLineLength !== 'number' || !Number.isInteger(maxLineLength) || maxLineLength < 1)
+      throw new TypeError(`LockServer was constructed with a maxLineLength of "${maxLineLength}", a positive integer is required`);
+  }
+
+  /**
+   * Port the server is listening on, null while not listening
+   */
+  get port():(number|null) {
+    const address = this.#server?.address();
+    return (address && typeof address === 'object' ? (address as AddressInfo).port : null);
+  }
+
+  /**
+   * Starts listening for clients.
+   * 
+   * @throws {SynchroError} If the server is already listening
+   * @param port Port to listen on, **Default = 0** which picks a free one
+   * @param host Address to listen on. **Default = '127.0.0.1'**.
+   * @returns Promise resolving to the port listened on
+   */
+  listen(port = 0, host = '127.0.0.1'):Promise<number> {
+    if(this.#server)
+      return Promise.reject(new SynchroError('LockServer is already listening'));
+
+    const server = createServer(socket => this.#connect(socket));
+    this.#server = server;
+
+    return new Promise<number>((resolve, reject) => {
+      server.once('error', err => {
+        this.#server = null;
+        reject(err);
+      });
+      server.listen(port, host, () => resolve(this.port as number));
+    });
+  }
+
+  /**
+   * Stops listening and disconnects all clients. Leases they hold stay in
+   * the backend until they expire.
+   * 
+   * @returns Promise resolving once the server is closed
+   */
+  close():Promise<void> {
+    const server = this.#server;
+    if(!server)
+      return Promise.resolve();
+    this.#server = null;
+
+    this.#sockets.forEach(socket => socket.destroy());
+    this.#sockets.clear();
+
+    return new Promise<void>((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Reads the requests of a new client line by line
+   */
+  #connect(socket:Socket):void {
+    this.#sockets.add(socket);
+    socket.setEncoding('utf8');
+
+    const maxLineLength = this.options.maxLineLength as number;
+
+    let buffered = '';
+    socket.on('data', (chunk:string) => {
+      buffered += chunk;
+
+      let end = buffered.indexOf('\n');
+      while(end >= 0) {
+        if(end > maxLineLength) {
+          socket.destroy();
+          return;
+        }
+
+        const line = buffered.slice(0, end).trim();
+        buffered = buffered.slice(end + 1);
+        end = buffered.indexOf('\n');
+
+        if(line.length > 0)
+          this.#handle(line).then(response => socket.write(`${JSON.stringify(response)}\n`), () => socket.destroy());
+      }
+
+      // Whatever is left is the start of a line still being received
+      if(buffered.length > maxLineLength)
+        socket.destroy();
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.#sockets.delete(socket));
+  }
+
+  /**
+   * Answers a single request line
+   */
+  async #handle(line:string):Promise<LockResponse> {
+    let id:(number|null) = null;
+    try {
+      const request = JSON.parse(line) as LockRequest;
+      id = (typeof request.id === 'number' ? request.id : null);
+
+      return {
+        id,
+        ok: true,
+        ...(await this.#dispatch(request)),
+      };
+    } catch (err) {
+      const error:LockResponse['error'] = {
+        name: (err instanceof Error ? err.name : 'Error'),
+        message: (err instanceof Error ? err.message : String(err)),
+      };
+      if(err instanceof LeaseLostError) {
+        error.key = err.key;
+        error.token = err.token;
+      }
+
+      return {
+        id,
+        ok: false,
+        error,
+      };
+    }
+  }
+
+  /**
+   * Calls the backend method asked for by a request
+   */
+  async #dispatch(request:LockRequest):Promise<Pick<LockResponse, 'lease'>> {
+    switch(request.op) {
+      case 'acquire':
+        if(typeof request.key !== 'string' || typeof request.owner !== 'string' || !(Number(request.ttl) > 0))
+          throw new TypeError('acquire requires a key, owner and positive ttl');
+        return { lease: await this.backend.acquire(request.key, request.owner, Number(request.ttl)) };
+      case 'renew':
+        if(!request.lease || !(Number(request.ttl) > 0))
+          throw new TypeError('renew requires a lease and positive ttl');
+        return { lease: await this.backend.renew(request.lease, Number(request.ttl)) };
+      case 'release':
+        if(!request.lease)
+          throw new TypeError('release requires a lease');
+        await this.backend.release(request.lease);
+        return {};
+      default:
+        throw new TypeError(`unknown operation "${request.op}"`);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled } from './errors';
+import type {
+  LockOptions,
+  LockRejector,
+  QueuedPromise,
+} from './types';
+import { abortReason, armQueued } from './waiter';
+
+export type EventQueuedPromise = QueuedPromise<() => void, LockRejector>;
+
+/**
+ * Options available for the ManualResetEvent and AutoResetEvent objects
+ */
+export interface EventOptions {
+
+  /**
+   * Callback executed whenever the event is set.
+   */
+  onSet ?: () => void;
+
+  /**
+   * Callback executed whenever the event is reset.
+   */
+  onReset ?: () => void;
+
+  /**
+   * Callback executed AFTER the event has it's waiters cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the waiters are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+};
+
+/**
+ * Signalling gate which stays open once set. Every waiter is released when the
+ * event is set, and any further waits pass straight through until it is reset.
+ */
+export default class ManualResetEvent {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * ManualResetEvent object.
+   */
+  public static readonly DefaultOptions:EventOptions = { errorCancelled: ErrCancelled };
+
+  /**
+   * Options dictating how this event will work
+   */
+  options:EventOptions;
+
+  /**
+   * Is the event currently set (open)
+   */
+  #set:boolean;
+
+  /**
+   * Waiters to release once the event is set
+   */
+  #queue:Array<EventQueuedPromise> = [];
+
+  /**
+   * @param initialState Should the event start out set. **Default = false**.
+   * @param options Additional settings declaring how this event operates.
+   * **Default = ManualResetEvent.DefaultOptions**.
+   * @param options.onSet Function which is called whenever the event is set.
+   * @param options.onReset Function which is called whenever the event is
+   * reset.
+   * @param options.onCancel Function which is called after the waiters are
+   * cancelled.
+   * @param options.errorCancelled The error value thrown to each waiter when
+   * the event is cancelled.
+   */
+  constructor(initialState?:boolean, options?:EventOptions) {
+    // Bind methods
+    this.set = this.set.bind(this);
+    this.reset = this.reset.bind(this);
+    this.wait = this.wait.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    this.#set = (initialState === true);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...ManualResetEvent.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Is the event currently set?
+   */
+  get isSet():boolean {
+    return this.#set;
+  }
+
+  /**
+   * Number of waiters waiting for the event to be set
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Sets the event, releasing every waiter. The event stays set until
+   * {@link ManualResetEvent.reset} is called.
+   */
+  set():void {
+    this.#set = true;
+
+    if(typeof this.options.onSet === 'function')
+      this.options.onSet();
+
+    const queue = this.#queue;
+    this.#queue = [];
+
+    queue.forEach(({ resolve, disarm }) => {
+      disarm?.();
+      resolve();
+    });
+  }
+
+  /**
+   * Resets the event, so that further waits wait until it is set again.
+   */
+  reset():void {
+    this.#set = false;
+
+    if(typeof this.options.onReset === 'function')
+      this.options.onReset();
+  }
+
+  /**
+   * Waits until the event is set. Resolves straight away if it already is.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const configLoaded = new ManualResetEvent();
+   * 
+   * // Anywhere that needs the config
+   * await configLoaded.wait({ timeout: 5000 });
+   * 
+   * // Once loading finishes
+   * configLoaded.set();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this wait
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving once the event is set
+   */
+  wait(options?:LockOptions):Promise<void> {
+    if(this.#set)
+      return Promise.resolve();
+
+    // An already aborted signal never waits
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, this.options.errorCancelled));
+
+    return new Promise<void>((resolve, reject) => {
+      const entry:EventQueuedPromise = {
+        resolve,
+        reject,
+      };
+      this.#queue.push(entry);
+
+      entry.disarm = armQueued(entry, () => this.#queue, options ?? {}, this.options.errorCancelled);
+    });
+  }
+
+  /**
+   * Cancels all waiters by rejecting their promises. The state of the event is
+   * left as it is.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const queue = this.#queue;
+    this.#queue = [];
+
+    queue.forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.options.errorCancelled ?? ErrCancelled);
+    });
+
+    // Call the onCancel asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { LeaseLostError } from './errors';
+import type { LockBackend, LockLease } from './backend';
+
+/**
+ * Options available for InMemoryBackend objects
+ */
+export interface InMemoryBackendOptions {
+
+  /**
+   * Clock giving the current milliseconds since the epoch, for checking the
+   * leases. **Default = Date.now**.
+   */
+  now ?: () => number;
+};
+
+/**
+ * Determines if a lease given by a client is the one held, matching the owner
+ * as well so a guessed token can not renew or release somebody else's lease.
+ */
+function sameLease(held:LockLease, lease:LockLease):boolean {
+  return held.token === lease.token && held.owner === lease.owner;
+}
+
+/**
+ * {@link LockBackend} keeping the leases in memory. Only instances sharing
+ * the same backend object are coordinated, which makes it useful for tests,
+ * and as the store behind a {@link LockServer}.
+ */
+export default class InMemoryBackend implements LockBackend {
+  /**
+   * Options dictating how this backend will work
+   */
+  options:InMemoryBackendOptions;
+
+  /**
+   * Current lease of each key, kept after expiring until taken again
+   */
+  #leases = new Map<string, LockLease>();
+
+  /**
+   * Last fencing token handed out for each key
+   */
+  #tokens = new Map<string, number>();
+
+  /**
+   * @param options Additional settings for the backend.
+   * @param options.now Clock used for checking the leases.
+   */
+  constructor(options?:InMemoryBackendOptions) {
+    // Bind methods
+    this.acquire = this.acquire.bind(this);
+    this.renew = this.renew.bind(this);
+    this.release = this.release.bind(this);
+    this.peek = this.peek.bind(this);
+
+    this.options = { ...(options ?? {}) };
+  }
+
+  /**
+   * Grants the lock if it is free or it's lease has expired.
+   * 
+   * @param key Name of the lock
+   * @param owner Identifies the holder
+   * @param ttl Milliseconds until the lease expires
+   * @returns Promise resolving to the new lease, or null if the lock is held
+   */
+  acquire(key:string, owner:string, ttl:number):Promise<LockLease|null> {
+    if(this.peek(key))
+      return Promise.resolve(null);
+
+    const token = (this.#tokens.get(key) ?? 0) + 1;
+    this.#tokens.set(key, token);
+
+    const lease:LockLease = {
+      key,
+      owner,
+      token,
+      expiresAt: this.#now() + ttl,
+    };
+    this.#leases.set(key, lease);
+
+    return Promise.resolve({ ...lease });
+  }
+
+  /**
+   * Extends a lease that is still held.
+   * 
+   * @throws {LeaseLostError} If the lease expired or the lock was granted to
+   * somebody else
+   * @param lease The lease to extend
+   * @param ttl Milliseconds from now until the lease expires
+   * @returns Promise resolving to the extended lease
+   */
+  renew(lease:LockLease, ttl:number):Promise<LockLease> {
+    const held = this.peek(lease.key);
+    if(!held || !sameLease(held, lease))
+      return Promise.reject(new LeaseLostError(lease.key, lease.token));
+
+    held.expiresAt = this.#now() + ttl;
+    this.#leases.set(lease.key, held);
+
+    return Promise.resolve({ ...held });
+  }
+
+  /**
+   * Releases a lease, doing nothing if it was already lost.
+   * 
+   * @param lease The lease to release
+   */
+  release(lease:LockLease):Promise<void> {
+    const held = this.#leases.get(lease.key);
+    if(held && sameLease(held, lease))
+      this.#leases.delete(lease.key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Looks up the lease currently holding a key.
+   * 
+   * @param key Name of the lock
+   * @returns Copy of the lease, or null if the lock is free or expired
+   */
+  peek(key:string):(LockLease|null) {
+    const lease = this.#leases.get(key);
+    if(!lease || lease.expiresAt <= this.#now())
+      return null;
+    return { ...lease };
+  }
+
+  #now():number {
+    return (typeof this.options.now === 'function' ? this.options.now() : Date.now());
+  }
+}
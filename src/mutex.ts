@@ -9,17 +9,58 @@
  * GITHUB: https://github.com/chris-pikul/async-synchro
  */
 
-import SynchroError, { ErrCancelled } from './errors';
+import SynchroError, { ErrCancelled, ErrClosed } from './errors';
 import {
+  LockHandle,
+  LockOptions,
   LockRejector,
-  LockResolver,
   QueuedPromise,
-  Releaser,
+  Skipped,
+  SkippedType,
 } from './types';
+import { abortReason, armWaiter } from './waiter';
+import { cancelConditions } from './condition';
+import { makeHandle } from './disposable';
+import type { Task } from './context';
+import type DeadlockDetector from './deadlock';
+import {
+  HoldWatcher,
+  LeakOptions,
+  acquisitionStack,
+  watchHold,
+} from './leak';
+import StatsRecorder, { LockStats, emptyStats } from './stats';
+import StateWaiters from './statewaiters';
+import { Lockable, nextLockId } from './lockable';
+import {
+  ExpiryOptions,
+  HoldExpiry,
+  HoldOptions,
+  HoldTimer,
+  attachExpiry,
+  checkTtl,
+  expireHold,
+} from './expiry';
+import {
+  QueueDiscipline,
+  WaitQueue,
+  createQueue,
+} from './queue';
 
 export type MutexLockCB<T> = () => (Promise<T> | T);
 
-export interface MutexOptions {
+/**
+ * Releaser handed out by {@link Mutex.lock}, which is also disposable and
+ * exposes the expiry of holds given a `ttl`.
+ */
+export type MutexHandle = (LockHandle & HoldExpiry);
+
+/**
+ * Type for the Mutex promise resolvers
+ */
+type MutexResolver = (release:MutexHandle) => void;
+
+export interface MutexOptions extends LeakOptions, ExpiryOptions {
 
   /**
    * Callback executed whenever a lock is achieved.
@@ -40,17 +81,52 @@ export interface MutexOptions {
    * Error object that is thrown when the locks are cancelled.
    */
   errorCancelled ?: (Error|SynchroError);
+
+  /**
+   * Default milliseconds a lock will wait before being rejected with
+   * {@link ErrTimeout}. Can be overridden by each lock attempt.
+   */
+  timeout ?: number;
+
+  /**
+   * Discipline deciding the order waiting locks are granted in. Either
+   * `fifo`, `lifo`, `priority`, or a factory for a custom {@link WaitQueue}.
+   * **Default = 'fifo'**.
+   */
+  queue ?: QueueDiscipline;
+
+  /**
+   * Detector tracking this Mutex to reject lock attempts that would deadlock,
+   * see {@link DeadlockDetector}.
+   */
+  deadlockDetector ?: DeadlockDetector;
+
+  /**
+   * Name describing this Mutex in deadlock and lock order errors.
+   */
+  name ?: string;
+
+  /**
+   * Records contention statistics, see {@link Mutex.stats}.
+   * **Default = false**.
+   */
+  stats ?: boolean;
 };
 
 /**
  * Single-user concurrency lock. Only allows one lock at a time.
  */
-export default class Mutex {
+export default class Mutex implements Lockable {
   /**
    * Options dictating how this mutex will work
    */
   options:MutexOptions;
 
+  /**
+   * Id placing this Mutex in the global lock order, see {@link withLocks}
+   */
+  readonly lockId:number;
+
   /**
    * Determines if there is an active lock on this Mutex
    */
@@ -59,7 +135,22 @@ export default class Mutex {
   /**
    * Queue of locks waiting on this Mutex
    */
-  #queue:Array<QueuedPromise>;
+  #queue:WaitQueue<QueuedPromise<MutexResolver>>;
+
+  /**
+   * Recorder of the contention statistics, null when not enabled
+   */
+  #stats:(StatsRecorder|null);
+
+  /**
+   * Determines if new locks are refused, see {@link Mutex.close}
+   */
+  #closed = false;
+
+  /**
+   * Promises waiting for this Mutex to be unlocked
+   */
+  #unlocked = new StateWaiters();
 
   /**
    * @param options Additional settings for Mutex operation.
@@ -70,19 +161,43 @@ export default class Mutex {
    * cancelled by `cancelAll`.
    * @param options.errorCancelled Error object that is thrown when the promises
    * are rejected via `cancelAll`.
+   * @param options.timeout Default milliseconds to wait for a lock before
+   * rejecting with `ErrTimeout`.
+   * @param options.queue Discipline for ordering the waiting locks.
+   * @param options.deadlockDetector Detector rejecting lock attempts that would
+   * deadlock.
+   * @param options.name Name describing this Mutex in deadlock errors.
+   * @param options.maxHoldTime Milliseconds a lock may be held before being
+   * reported as leaked.
+   * @param options.onLeak Function called with a report of each leaked lock.
+   * @param options.releaseLeaks Forcibly release leaked locks.
+   * @param options.stats Record contention statistics.
+   * @param options.onExpire Function called with a report of each hold
+   * released because it's `ttl` elapsed.
    */
   constructor(options?:MutexOptions) {
     // Bind methods
     this.lock = this.lock.bind(this);
+    this.tryLock = this.tryLock.bind(this);
     this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
     this.cancelAll = this.cancelAll.bind(this);
+    this.close = this.close.bind(this);
+    this.drain = this.drain.bind(this);
+    this.onIdle = this.onIdle.bind(this);
+    this.waitForUnlock = this.waitForUnlock.bind(this);
+    this.acquireLock = this.acquireLock.bind(this);
+    this.stats = this.stats.bind(this);
+    this.resetStats = this.resetStats.bind(this);
 
     // Assign the options by overloading the defaults with a spread
     this.options = { ...(options ?? {}) };
 
     // Ensure we are unlocked at the beginning
     this.#locked = false;
-    this.#queue = [];
+    this.#queue = createQueue<QueuedPromise<MutexResolver>>(this.options.queue);
+    this.#stats = (this.options.stats ? new StatsRecorder() : null);
+    this.lockId = nextLockId();
   }
 
   /**
@@ -92,6 +207,13 @@ export default class Mutex {
     return this.#locked;
   }
 
+  /**
+   * Has this Mutex been closed to new locks?
+   */
+  get isClosed():boolean {
+    return this.#closed;
+  }
+
   /**
    * Attempts to lock this Mutex, or wait until the previous locks are released.
    * The promise returned resolves giving a function to call to release/unlock
@@ -108,6 +230,24 @@ export default class Mutex {
    * arguments of the `cancelAll` method, the one set in the Mutex constructor
    * options, or {@link ErrCancelled} if none of the others are set.
    * 
+   * If a `timeout` is given (or set in the constructor options) and the lock
+   * is not acquired in time, the promise is rejected with {@link ErrTimeout}
+   * and the waiting lock is removed from the queue. Likewise, aborting the
+   * `signal` given in the options rejects just this waiting lock with the
+   * signal's reason.
+   * 
+   * When a `deadlockDetector` is set and the lock attempt would close a cycle
+   * of tasks waiting on each other, the promise is rejected with a
+   * {@link DeadlockError} instead of waiting.
+   * 
+   * When a `ttl` is given, the hold is released automatically once it has
+   * lasted that many milliseconds, letting the next waiter in and reporting it
+   * to `onExpire`. The releaser exposes `expiresAt`, and `extend()` to push
+   * the expiry back. Calling it after the hold expired does nothing.
+   * 
+   * Once the Mutex is closed via {@link Mutex.close} or {@link Mutex.drain},
+   * the promise is rejected with {@link ErrClosed}.
+   * 
    * ---------------------------------------------------------------------------
    * 
    * ```
@@ -132,17 +272,72 @@ export default class Mutex {
    *  }).catch(err => {
    *    // The lock was cancelled
    *  });
+   * 
+   * // With a timeout
+   * try {
+   *    const unlock = await mtx.lock({ timeout: 1000 });
+   *    ...
+   * } catch(err) {
+   *    // err === ErrTimeout when a second passed without locking
+   * }
+   * 
+   * // Released when leaving the scope
+   * {
+   *    await using unlock = await mtx.lock();
+   *    ...
+   * }
+   * 
+   * // Released after 5 seconds at the latest
+   * const unlock = await mtx.lock({ ttl: 5000 });
+   * for(const batch of batches) {
+   *    await processBatch(batch);
+   *    unlock.extend(5000);
+   * }
+   * unlock();
    * ```
    * 
    * ---------------------------------------------------------------------------
    * 
-   * @returns Promise resolving with the unlock releaser
+   * @param options Optional settings for this lock attempt
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this lock attempt when
+   * aborted.
+   * @param options.priority Priority of this lock attempt when using the
+   * `priority` queue discipline, higher numbers are granted first.
+   * @param options.ttl Milliseconds the lock may be held for before it is
+   * released automatically.
+   * @returns Promise resolving with the unlock releaser, which is also
+   * disposable
    */
-  lock():Promise<Releaser> {
+  lock(options?:HoldOptions):Promise<MutexHandle> {
+    try {
+      checkTtl('Mutex', options?.ttl);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    if(this.#closed)
+      return Promise.reject(ErrClosed);
+
+    // An already aborted signal never enters the queue
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, this.options.errorCancelled));
+
     const wasLocked = this.isLocked;
 
-    // eslint-disable-next-line no-promise-executor-return
-    const prom = new Promise<Releaser>((res, rej) => this.#enque(res, rej));
+    const task = this.options.deadlockDetector?.currentTask();
+    const refused = this.#request(task, wasLocked);
+    if(refused)
+      return Promise.reject(refused);
+
+    const prom = new Promise<MutexHandle>((res, rej) => {
+      const entry = this.#enque(res, rej, options, task, acquisitionStack(this.options));
+
+      // Only waiting locks need their timeout watched
+      if(wasLocked)
+        this.#arm(entry, options);
+    });
 
     if(!wasLocked) {
       // If we wanted to listen, fire off an event
@@ -164,7 +359,8 @@ export default class Mutex {
    * 
    * Any errors thrown during the callbacks execution will **not** be caught by 
    * this wrapper, and will bubble up accordingly. This includes the one thrown
-   * by calling {@link Mutex.cancelAll}.
+   * by calling {@link Mutex.cancelAll}, or {@link ErrTimeout} if the lock times
+   * out.
    * 
    * ---------------------------------------------------------------------------
    * 
@@ -201,11 +397,18 @@ export default class Mutex {
    * ---------------------------------------------------------------------------
    * 
    * @param cb Callback function executed when the lock is acquired
+   * @param options Optional settings for the lock attempt, see
+   * {@link Mutex.lock}
    * @returns Promise resolving to the results returned by the callback
    */
-  async guard<T = any>(cb:MutexLockCB<T>):Promise<T> {
+  async guard<T = any>(cb:MutexLockCB<T>, options?:HoldOptions):Promise<T> {
+    // Deadlock detection needs a task to track
+    const detector = this.options.deadlockDetector;
+    if(detector && !detector.currentTask())
+      return detector.runTask(() => this.guard(cb, options));
+
     // Perform the standard locking
-    const release = await this.lock();
+    const release = await this.lock(options);
 
     // Setup a variable for the return results
     let value:T;
@@ -221,6 +424,94 @@ export default class Mutex {
     return value;
   }
 
+  /**
+   * Locks this Mutex only if it is available right now, without waiting.
+   * 
+   * Returns the releaser when the lock was achieved, or `null` if the Mutex
+   * is already locked (or has locks waiting in line). This never enters the
+   * queue, so the same rules about calling the releaser as
+   * {@link Mutex.lock} apply when it succeeds.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const unlock = mtx.tryLock();
+   * if(unlock) {
+   *    // Lock is acquired and work can be performed
+   *    ...
+   *    unlock();
+   * } else {
+   *    // Somebody else has the lock, skip the work
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @throws {TypeError} If the ttl is not a positive number
+   * @throws {SynchroError} {@link ErrClosed} if the Mutex is closed
+   * @param options Optional `ttl` of the hold, see {@link Mutex.lock}
+   * @returns The unlock releaser, or null if the Mutex is locked
+   */
+  tryLock(options?:Pick<HoldOptions, 'ttl'>):(MutexHandle|null) {
+    checkTtl('Mutex', options?.ttl);
+    if(this.#closed)
+      throw ErrClosed;
+    if(this.isLocked)
+      return null;
+
+    this.#locked = true;
+
+    // If we wanted to listen, fire off an event
+    if(typeof this.options.onLock === 'function')
+      this.options.onLock();
+
+    this.#stats?.granted();
+
+    // Trying never waits, so it can not deadlock but still holds the lock
+    const task = this.options.deadlockDetector?.currentTask();
+    if(task)
+      this.options.deadlockDetector?.granted(task, this);
+
+    return this.#makeReleaser(task, acquisitionStack(this.options), options?.ttl);
+  }
+
+  /**
+   * Performs the callback guarded by this Mutex only if it can be locked
+   * right now, see {@link Mutex.tryLock}.
+   * 
+   * When the Mutex is already locked the callback is not executed, and the
+   * promise resolves to the {@link Skipped} sentinel instead of the callbacks
+   * results.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const results = await mtx.tryGuard(() => refreshCache());
+   * if(results === Skipped)
+   *    console.log('refresh already running');
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param cb Callback function executed if the lock is acquired
+   * @param options Optional `ttl` of the hold, see {@link Mutex.lock}
+   * @returns Promise resolving to the results returned by the callback, or
+   * `Skipped` if the Mutex was locked
+   */
+  async tryGuard<T = any>(cb:MutexLockCB<T>, options?:Pick<HoldOptions, 'ttl'>):Promise<T|SkippedType> {
+    const release = this.tryLock(options);
+    if(!release)
+      return Skipped;
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
   /**
    * Cancels all waiting locks on this Mutex by rejecting their promises.
    * 
@@ -231,65 +522,275 @@ export default class Mutex {
    * - The `errorCancelled` option set in the Mutex constructor options.
    * - The {@link ErrCancelled} default error.
    * 
+   * Waiters parked on any {@link Condition} bound to this Mutex are cancelled
+   * as well. A lock that is currently held stays held until it is released.
+   * 
    * @param err Optional custom error to throw
    */
   cancelAll(err?:Error):void {
     // Reject all of the waiting promises and empty the queue
-    this.#queue.forEach(({ reject }) => reject(err ?? this.options.errorCancelled ?? ErrCancelled));
-    this.#queue = [];
+    this.#queue.clear().forEach(entry => {
+      const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
 
-    // Unlock the mutex
-    this.#locked = false;
+      entry.disarm?.();
+      this.#withdraw(entry.task);
+      this.#stats?.cancelled(reason);
+      entry.reject(reason);
+    });
+
+    // Parked condition waiters would otherwise wait for a lock that is gone
+    cancelConditions(this, err);
 
     // Fire the event is asked for
     if(typeof this.options.onCancel === 'function')
       this.options.onCancel();
   }
 
-  #enque(resolve:LockResolver, reject:LockRejector):void {
+  /**
+   * Closes this Mutex, refusing any further locks by rejecting them with
+   * {@link ErrClosed}, and cancels the waiting locks as {@link Mutex.cancelAll}
+   * does. A lock that is currently held stays held until it is released, use
+   * {@link Mutex.onIdle} to wait for it.
+   * 
+   * Closing an already closed Mutex only cancels the waiting locks again.
+   * 
+   * @param err Optional custom error to reject the waiting locks with,
+   * defaults to {@link ErrClosed}
+   */
+  close(err?:Error):void {
+    this.#closed = true;
+    this.cancelAll(err ?? ErrClosed);
+  }
+
+  /**
+   * Gracefully closes this Mutex. Further locks are refused with
+   * {@link ErrClosed}, while the locks already waiting are still granted in
+   * turn.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * process.on('SIGTERM', async () => {
+   *    await mtx.drain();
+   *    process.exit(0);
+   * });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @returns Promise resolving once every lock has been released
+   */
+  drain():Promise<void> {
+    this.#closed = true;
+    return this.onIdle();
+  }
+
+  /**
+   * Waits until this Mutex is idle, neither held nor with locks waiting. This
+   * does not close the Mutex, so it may be locked again right after.
+   * 
+   * @returns Promise resolving once the Mutex is idle
+   */
+  onIdle():Promise<void> {
+    return this.#unlocked.wait(() => !this.#locked);
+  }
+
+  /**
+   * Waits until this Mutex is unlocked without locking it. Since the waiting
+   * locks are handed the lock in turn, this resolves once they have all
+   * released it as well.
+   * 
+   * The lock is not reserved for the caller, so it may be taken by somebody
+   * else before the caller gets to run. Use {@link Mutex.tryLock} to take it
+   * only if it is still free.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * await mtx.waitForUnlock({ timeout: 1000 });
+   * const cached = cache.get(key);
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional `timeout` and `signal` for giving up on waiting,
+   * see {@link Mutex.lock}
+   * @returns Promise resolving once the Mutex is unlocked
+   */
+  waitForUnlock(options?:Pick<LockOptions, 'timeout' | 'signal'>):Promise<void> {
+    return this.#unlocked.wait(() => !this.#locked, {
+      timeout: options?.timeout ?? this.options.timeout,
+      signal: options?.signal,
+    }, this.options.errorCancelled);
+  }
+
+  /**
+   * Locks this Mutex, same as {@link Mutex.lock}. Used by {@link withLocks}
+   * to acquire any kind of lock.
+   * 
+   * @param options Optional settings for this lock attempt
+   * @returns Promise resolving with the unlock releaser
+   */
+  acquireLock(options?:LockOptions):Promise<LockHandle> {
+    return this.lock(options);
+  }
+
+  /**
+   * Gets a snapshot of how contended this Mutex is. The totals and
+   * distributions are only recorded when the `stats` option is enabled,
+   * otherwise they are all 0.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const mtx = new Mutex({ stats: true });
+   * ...
+   * const { waiting, waitTime } = mtx.stats();
+   * console.log(`${waiting} waiting, p99 wait of ${waitTime.p99}ms`);
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @returns The statistics snapshot
+   */
+  stats():LockStats {
+    const holders = (this.#locked ? 1 : 0);
+    return this.#stats?.snapshot(holders, this.#queue.length) ?? emptyStats(holders, this.#queue.length);
+  }
+
+  /**
+   * Resets the recorded totals and distributions back to 0.
+   */
+  resetStats():void {
+    if(this.#stats)
+      this.#stats = new StatsRecorder();
+  }
+
+  #request(task:(Task|undefined), willWait:boolean):(Error|null) {
+    if(!task || !this.options.deadlockDetector)
+      return null;
+
+    return this.options.deadlockDetector.request(task, this, this.options.name, willWait);
+  }
+
+  #withdraw(task?:Task):void {
+    if(task)
+      this.options.deadlockDetector?.withdraw(task, this);
+  }
+
+  #enque(
+    resolve:MutexResolver,
+    reject:LockRejector,
+    options?:HoldOptions,
+    task?:Task,
+    stack?:(string|null),
+  ):QueuedPromise<MutexResolver> {
     // By adding to the queue we are locking by nature
     this.#locked = true;
 
-    // Add to the end of the queue the promise functions
-    this.#queue.push({
+    // Add the promise functions to the queue
+    const entry:QueuedPromise<MutexResolver> = {
       resolve,
       reject,
-    } as QueuedPromise);
+      task,
+      stack,
+      ttl: options?.ttl,
+    };
+    this.#queue.push(entry, options?.priority);
+    this.#stats?.queued(entry);
+
+    return entry;
+  }
+
+  #arm(entry:QueuedPromise<MutexResolver>, options?:HoldOptions):void {
+    entry.disarm = armWaiter({
+      timeout: options?.timeout ?? this.options.timeout,
+      signal: options?.signal,
+    }, err => {
+      // Remove the waiter so it is never handed a releaser later
+      if(!this.#queue.remove(entry))
+        return;
+
+      this.#withdraw(entry.task);
+      this.#stats?.cancelled(err);
+      entry.reject(err);
+    }, this.options.errorCancelled);
   }
 
   #deque():void {
     // Grab the next queued promise if one is available
-    const next:(QueuedPromise|undefined) = this.#queue.shift();
+    const next:(QueuedPromise<MutexResolver>|undefined) = this.#queue.shift();
     if(!next)
       return;
 
+    // Stop watching the timeout, since the lock is now achieved
+    next.disarm?.();
+
     // If we wanted to listen, fire off an event
     if(typeof this.options.onLock === 'function')
       this.options.onLock();
 
+    if(next.task)
+      this.options.deadlockDetector?.granted(next.task, this);
+
+    this.#stats?.granted(next);
+
     // Resolve the promise to pass through the releaser
-    next.resolve(this.#makeReleaser());
+    next.resolve(this.#makeReleaser(next.task, next.stack, next.ttl));
   }
 
-  #makeReleaser():Releaser {
+  #makeReleaser(task?:Task, stack?:(string|null), ttl?:number):MutexHandle {
     // Cache the released state
     let released = false;
+    let watcher:(HoldWatcher|null) = null;
+    let timer:(HoldTimer|null) = null;
+    const grantedAt = Date.now();
 
-    return ():void => {
+    const release = ():void => {
       // Short-circuit out if already released
       if(released)
         return;
       released = true;
 
+      watcher?.done();
+      timer?.stop();
+      this.#stats?.released(grantedAt);
+
+      if(task)
+        this.options.deadlockDetector?.released(task, this);
+
       // Fire off the event if we are listening
       if(typeof this.options.onRelease === 'function')
         this.options.onRelease();
 
       // If there is queued promises, let them process. Otherwise unlock
-      if(this.#queue.length > 0)
+      if(this.#queue.length > 0) {
         this.#deque();
-      else
+      } else {
         this.#locked = false;
+        this.#unlocked.check();
+      }
     };
+
+    timer = expireHold(ttl, () => {
+      release();
+
+      if(typeof this.options.onExpire === 'function') {
+        this.options.onExpire({
+          name: this.options.name,
+          task,
+          heldFor: Date.now() - grantedAt,
+        });
+      }
+    });
+
+    watcher = watchHold(this.options, release, stack ?? null, this.options.name);
+    if(!watcher)
+      return attachExpiry(makeHandle(release), timer);
+
+    // Hand out a separate function, so the watcher notices it being collected
+    const releaser = attachExpiry(makeHandle(():void => release()), timer);
+    watcher.track(releaser);
+    return releaser;
   }
 }
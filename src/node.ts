@@ -0,0 +1,64 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+/*
+ * Entry point for the parts depending on Node.js built-in modules, exported
+ * as "async-synchro/node" so the main entry stays platform-neutral.
+ */
+
+export { default as ReentrantMutex } from './reentrantmutex';
+
+export {
+  default as DeadlockDetector,
+  DeadlockDetectorOptions,
+} from './deadlock';
+
+export {
+  default as FileMutex,
+  FileLockHandle,
+  FileLockOwner,
+  FileMutexOptions,
+  FileReleaser,
+} from './filemutex';
+
+export {
+  default as RemoteMutex,
+  RemoteLockCB,
+  RemoteLockHandle,
+  RemoteMutexOptions,
+  RemoteReleaser,
+} from './remotemutex';
+
+export type { LockBackend, LockLease } from './backend';
+
+export {
+  default as InMemoryBackend,
+  InMemoryBackendOptions,
+} from './memorybackend';
+
+export {
+  default as LockServer,
+  LockRequest,
+  LockResponse,
+  LockServerOptions,
+} from './lockserver';
+
+export {
+  default as TcpBackend,
+  TcpBackendOptions,
+} from './tcpbackend';
+
+export {
+  Task,
+  createTask,
+  currentTask,
+  runTask,
+} from './context';
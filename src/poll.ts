@@ -0,0 +1,134 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import type { LockOptions } from './types';
+import { abortReason, armWaiter } from './waiter';
+
+/**
+ * Lock attempt currently polling, which can be cancelled
+ */
+export interface Poller {
+
+  /**
+   * Error the attempt was cancelled with, null while still polling
+   */
+  error:(Error|null);
+
+  /**
+   * Wakes the attempt up early from waiting between checks
+   */
+  wake:((() => void)|null);
+};
+
+/**
+ * How a polling lock attempt is made
+ */
+export interface PollOptions<T> extends LockOptions {
+
+  /**
+   * Attempts to take the lock, resolving to null when it is taken
+   */
+  attempt:() => Promise<T|null>;
+
+  /**
+   * Gives back a lock that was taken after the attempt got cancelled
+   */
+  undo ?: (taken:T) => Promise<void>;
+
+  /**
+   * Milliseconds to wait before the second attempt, doubling after each one
+   */
+  pollInterval:number;
+
+  /**
+   * Maximum milliseconds to wait between attempts
+   */
+  maxPollInterval:number;
+
+  /**
+   * Error used when an aborted signal has no reason
+   */
+  errorCancelled ?: Error;
+};
+
+/**
+ * Cancels a polling attempt, waking it up if it is waiting.
+ * 
+ * @param poller The attempt to cancel
+ * @param err Error the attempt is rejected with
+ */
+export function cancelPoller(poller:Poller, err:Error):void {
+  if(poller.error)
+    return;
+
+  poller.error = err;
+  poller.wake?.();
+}
+
+function sleep(poller:Poller, ms:number):Promise<void> {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(() => {
+      poller.wake = null;
+      resolve();
+    }, ms);
+
+    poller.wake = () => {
+      clearTimeout(timer);
+      poller.wake = null;
+      resolve();
+    };
+  });
+}
+
+/**
+ * Repeats the attempt with an exponential backoff until it takes the lock,
+ * or it is cancelled by timeout, signal, or through the `pollers` set.
+ * 
+ * @param pollers Set the attempt is kept in while polling
+ * @param options How to attempt, and the timeout and signal to watch
+ * @returns Promise resolving with whatever the attempt took
+ */
+export async function pollLock<T>(pollers:Set<Poller>, options:PollOptions<T>):Promise<T> {
+  const { signal } = options;
+  if(signal?.aborted)
+    throw abortReason(signal, options.errorCancelled);
+
+  const poller:Poller = {
+    error: null,
+    wake: null,
+  };
+  pollers.add(poller);
+
+  const disarm = armWaiter(options, err => cancelPoller(poller, err), options.errorCancelled);
+
+  try {
+    let delay = options.pollInterval;
+    for(;;) {
+      if(poller.error)
+        throw poller.error;
+
+      const taken = await options.attempt();
+      if(taken !== null && poller.error) {
+        // Cancelled while attempting, so give the lock straight back
+        await options.undo?.(taken);
+        throw poller.error;
+      }
+      if(taken !== null)
+        return taken;
+
+      await sleep(poller, delay);
+      delay = Math.min(delay * 2, options.maxPollInterval);
+    }
+  } finally {
+    disarm();
+    pollers.delete(poller);
+  }
+}
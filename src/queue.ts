@@ -0,0 +1,336 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+/**
+ * Queue discipline deciding the order in which waiting locks are granted.
+ * 
+ * Custom strategies can be supplied by implementing this interface, and giving
+ * a factory for it in the `queue` option of the lock constructors.
+ */
+export interface WaitQueue<T> {
+
+  /**
+   * Number of entries waiting in the queue
+   */
+  readonly length:number;
+
+  /**
+   * Adds an entry to the queue.
+   * 
+   * @param entry The waiting entry
+   * @param priority Priority given for the lock attempt, higher numbers are
+   * more important. Disciplines are free to ignore it. **Default = 0**.
+   */
+  push(entry:T, priority?:number):void;
+
+  /**
+   * Gets the entry that would be granted next, without removing it.
+   */
+  peek():(T|undefined);
+
+  /**
+   * Removes and returns the entry that should be granted next.
+   */
+  shift():(T|undefined);
+
+  /**
+   * Is the entry still waiting in this queue?
+   */
+  has(entry:T):boolean;
+
+  /**
+   * Removes a specific entry from the queue, such as when it times out.
+   * 
+   * @returns True if the entry was found and removed
+   */
+  remove(entry:T):boolean;
+
+  /**
+   * Empties the queue.
+   * 
+   * @returns The entries that where waiting, in the order they would have been
+   * granted
+   */
+  clear():T[];
+};
+
+/**
+ * Factory creating a new, empty {@link WaitQueue}.
+ */
+export type WaitQueueFactory = <T>() => WaitQueue<T>;
+
+/**
+ * Queue disciplines available for the locks. One of the built-in names, or a
+ * factory for a custom {@link WaitQueue}.
+ * 
+ * - `fifo` First in, first out. The default.
+ * - `lifo` Last in, first out.
+ * - `priority` Highest priority first, see {@link PriorityQueue}.
+ */
+export type QueueDiscipline = ('fifo' | 'lifo' | 'priority' | WaitQueueFactory);
+
+/**
+ * First in, first out queue. Waiting locks are granted in the order they are
+ * requested.
+ */
+export class FifoQueue<T> implements WaitQueue<T> {
+  #entries:T[] = [];
+
+  get length():number {
+    return this.#entries.length;
+  }
+
+  push(entry:T):void {
+    this.#entries.push(entry);
+  }
+
+  peek():(T|undefined) {
+    return this.#entries[0];
+  }
+
+  shift():(T|undefined) {
+    return this.#entries.shift();
+  }
+
+  has(entry:T):boolean {
+    return this.#entries.includes(entry);
+  }
+
+  remove(entry:T):boolean {
+    const index = this.#entries.indexOf(entry);
+    if(index === -1)
+      return false;
+
+    this.#entries.splice(index, 1);
+    return true;
+  }
+
+  clear():T[] {
+    const entries = this.#entries;
+    this.#entries = [];
+    return entries;
+  }
+}
+
+/**
+ * Last in, first out queue. The most recently requested lock is granted first.
+ */
+export class LifoQueue<T> implements WaitQueue<T> {
+  #entries:T[] = [];
+
+  get length():number {
+    return this.#entries.length;
+  }
+
+  push(entry:T):void {
+    this.#entries.push(entry);
+  }
+
+  peek():(T|undefined) {
+    return this.#entries[this.#entries.length - 1];
+  }
+
+  shift():(T|undefined) {
+    return this.#entries.pop();
+  }
+
+  has(entry:T):boolean {
+    return this.#entries.includes(entry);
+  }
+
+  remove(entry:T):boolean {
+    const index = this.#entries.indexOf(entry);
+    if(index === -1)
+      return false;
+
+    this.#entries.splice(index, 1);
+    return true;
+  }
+
+  clear():T[] {
+    const entries = this.#entries.reverse();
+    this.#entries = [];
+    return entries;
+  }
+}
+
+/**
+ * Options available for PriorityQueue objects
+ */
+export interface PriorityQueueOptions {
+
+  /**
+   * Milliseconds an entry must wait to gain 1 additional priority. Allows long
+   * waiting low priority entries to eventually overtake newer high priority
+   * ones. Disabled when not set.
+   */
+  agingInterval ?: number;
+
+  /**
+   * Function returning the current time in milliseconds, used for aging.
+   * **Default = Date.now**.
+   */
+  now ?: () => number;
+};
+
+interface PriorityNode<T> {
+  entry:T;
+  priority:number;
+  sequence:number;
+  time:number;
+};
+
+/**
+ * Queue granting the highest priority entry first. Entries of equal priority
+ * are granted in the order they where pushed (stable).
+ * 
+ * When an `agingInterval` is set, entries gain priority the longer they wait
+ * so that low priority entries are not starved forever.
+ */
+export class PriorityQueue<T> implements WaitQueue<T> {
+  readonly options:PriorityQueueOptions;
+
+  /**
+   * Nodes sorted by their base priority, and then by insertion
+   */
+  #nodes:Array<PriorityNode<T>> = [];
+
+  /**
+   * Counter used to keep equal priorities stable
+   */
+  #sequence = 0;
+
+  /**
+   * @param options Additional settings for the queue.
+   * @param options.agingInterval Milliseconds of waiting needed to gain 1
+   * priority.
+   * @param options.now Function returning the current time in milliseconds.
+   */
+  constructor(options?:PriorityQueueOptions) {
+    this.options = { ...(options ?? {}) };
+
+    const { agingInterval } = this.options;
+    if(typeof agingInterval !== 'undefined' && (typeof agingInterval !== 'number' || !(agingInterval > 0)))
+      throw new TypeError(`PriorityQueue was constructed with an agingInterval of "${agingInterval}", a positive number is required`);
+  }
+
+  get length():number {
+    return this.#nodes.length;
+  }
+
+  push(entry:T, priority = 0):void {
+    const node:PriorityNode<T> = {
+      entry,
+      priority,
+      sequence: this.#sequence++,
+      time: this.#now(),
+    };
+
+    // Binary search for the first node with a lower priority
+    let low = 0;
+    let high = this.#nodes.length;
+    while(low < high) {
+      const mid = (low + high) >>> 1;
+      if(this.#nodes[mid].priority >= priority)
+        low = mid + 1;
+      else
+        high = mid;
+    }
+
+    this.#nodes.splice(low, 0, node);
+  }
+
+  peek():(T|undefined) {
+    return this.#nodes[this.#nextIndex()]?.entry;
+  }
+
+  shift():(T|undefined) {
+    const index = this.#nextIndex();
+    const node = this.#nodes[index];
+    if(node)
+      this.#nodes.splice(index, 1);
+
+    return node?.entry;
+  }
+
+  has(entry:T):boolean {
+    return this.#nodes.some(node => node.entry === entry);
+  }
+
+  remove(entry:T):boolean {
+    const index = this.#nodes.findIndex(node => node.entry === entry);
+    if(index === -1)
+      return false;
+
+    this.#nodes.splice(index, 1);
+    return true;
+  }
+
+  clear():T[] {
+    const entries:T[] = [];
+    while(this.#nodes.length > 0)
+      entries.push(this.shift() as T);
+    return entries;
+  }
+
+  #now():number {
+    return (this.options.now ?? Date.now)();
+  }
+
+  /**
+   * Finds the index of the node to grant next, accounting for aging.
+   */
+  #nextIndex():number {
+    if(this.#nodes.length === 0)
+      return -1;
+
+    const { agingInterval } = this.options;
+    if(!agingInterval)
+      return 0;
+
+    const now = this.#now();
+
+    let best = 0;
+    let bestPriority = -Infinity;
+    this.#nodes.forEach((node, index) => {
+      const priority = node.priority + Math.floor((now - node.time) / agingInterval);
+      if(priority > bestPriority || (priority === bestPriority && node.sequence < this.#nodes[best].sequence)) {
+        best = index;
+        bestPriority = priority;
+      }
+    });
+
+    return best;
+  }
+}
+
+/**
+ * Creates a new, empty queue for the given discipline.
+ * 
+ * @param discipline Name of a built-in discipline, or a factory for a custom
+ * one. **Default = 'fifo'**.
+ * @returns The new queue
+ */
+export function createQueue<T>(discipline:QueueDiscipline = 'fifo'):WaitQueue<T> {
+  if(typeof discipline === 'function')
+    return discipline<T>();
+
+  switch(discipline) {
+    case 'fifo':
+      return new FifoQueue<T>();
+    case 'lifo':
+      return new LifoQueue<T>();
+    case 'priority':
+      return new PriorityQueue<T>();
+    default:
+      throw new TypeError(`unknown queue discipline "${discipline}"`);
+  }
+}
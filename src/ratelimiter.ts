@@ -0,0 +1,520 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled } from './errors';
+import {
+  SemaphoreAcquireOptions,
+  SemaphoreLockCB,
+  SemaphoreQueuedPromise,
+  SemaphoreReleaser,
+  SemaphoreTicket,
+  makeTicket,
+} from './semaphore';
+import type { LockOptions } from './types';
+import { abortReason, armWaiter } from './waiter';
+import {
+  QueueDiscipline,
+  WaitQueue,
+  createQueue,
+} from './queue';
+
+/**
+ * Algorithms available for limiting the rate.
+ * 
+ * - `token-bucket` Tokens refill continuously at `limit` per `interval`, up to
+ * the `burst` size. Allows short bursts while keeping the average rate.
+ * - `sliding-window` At most `limit` tokens are handed out within any
+ * `interval`.
+ */
+export type RateLimiterAlgorithm = ('token-bucket' | 'sliding-window');
+
+/**
+ * Source of time and timers for a RateLimiter, so that tests can control it.
+ * The `Timer` is whatever handle it's `setTimeout` returns.
+ */
+export interface RateLimiterClock<Timer = unknown> {
+  now():number;
+  setTimeout(cb:() => void, ms:number):Timer;
+  clearTimeout(timer:Timer):void;
+};
+
+/**
+ * Options available for RateLimiter objects
+ */
+export interface RateLimiterOptions {
+
+  /**
+   * Algorithm used to limit the rate. **Default = 'token-bucket'**.
+   */
+  algorithm ?: RateLimiterAlgorithm;
+
+  /**
+   * Milliseconds the `limit` applies to. **Default = 1000**.
+   */
+  interval ?: number;
+
+  /**
+   * Most tokens the bucket holds, allowing bursts up to this size. Only used
+   * by the `token-bucket` algorithm. **Default = the limit, or 1 if the limit
+   * is lower**.
+   */
+  burst ?: number;
+
+  /**
+   * Caps the number of acquisitions held at once, in addition to the rate.
+   * Each acquisition takes one slot regardless of it's weight, and gives it
+   * back when released. Unlimited when not set.
+   */
+  maxConcurrent ?: number;
+
+  /**
+   * Callback executed whenever an acquisition is granted.
+   */
+  onAquire ?: () => void;
+
+  /**
+   * Callback executed whenever an acquisition is released.
+   */
+  onRelease ?: () => void;
+
+  /**
+   * Callback executed AFTER the RateLimiter has it's waiters cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the waiters are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+
+  /**
+   * Default milliseconds an acquisition will wait before being rejected with
+   * {@link ErrTimeout}. Can be overridden by each acquisition.
+   */
+  timeout ?: number;
+
+  /**
+   * Discipline deciding the order waiting acquisitions are granted in.
+   * **Default = 'fifo'**.
+   */
+  queue ?: QueueDiscipline;
+
+  /**
+   * Clock used for the rate, and for waking up waiters when tokens become
+   * available. **Default = Date.now and the global timers**.
+   */
+  clock ?: RateLimiterClock;
+};
+
+/**
+ * Clock using the real time and the global timers
+ */
+const systemClock:RateLimiterClock<ReturnType<typeof setTimeout>> = {
+  now: () => Date.now(),
+  setTimeout: (cb, ms) => setTimeout(cb, ms),
+  clearTimeout: timer => clearTimeout(timer),
+};
+
+/**
+ * Limits the rate of acquisitions over time, and optionally their concurrency.
+ * Waiting acquisitions are granted in order as tokens become available.
+ */
+export default class RateLimiter {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * RateLimiter object.
+   */
+  public static readonly DefaultOptions:RateLimiterOptions = {
+    algorithm: 'token-bucket',
+    interval: 1000,
+    errorCancelled: ErrCancelled,
+  };
+
+  /**
+   * Options dictating how this limiter will work
+   */
+  options:RateLimiterOptions;
+
+  /**
+   * Tokens handed out per interval
+   */
+  readonly #limit:number;
+
+  /**
+   * Most tokens available at once
+   */
+  readonly #capacity:number;
+
+  /**
+   * Tokens currently in the bucket, for the token-bucket algorithm
+   */
+  #tokens:number;
+
+  /**
+   * Time the bucket was last refilled at
+   */
+  #refilledAt:number;
+
+  /**
+   * Times and weights of the recent grants, for the sliding-window algorithm
+   */
+  #grants:Array<[ number, number ]> = [];
+
+  /**
+   * Number of acquisitions currently held, for the concurrency cap
+   */
+  #active = 0;
+
+  /**
+   * Waiting acquisitions
+   */
+  #queue:WaitQueue<SemaphoreQueuedPromise>;
+
+  /**
+   * Timer waking the queue once tokens are available, if any
+   */
+  #timer:unknown = null;
+
+  /**
+   * @param limit Positive number of tokens handed out per interval.
+   * @param options Additional settings declaring how this limiter operates.
+   * **Default = RateLimiter.DefaultOptions**.
+   * @param options.algorithm Algorithm used to limit the rate.
+   * @param options.interval Milliseconds the limit applies to.
+   * @param options.burst Bucket size for the `token-bucket` algorithm.
+   * @param options.maxConcurrent Cap on the acquisitions held at once.
+   * @param options.onAquire Function which is called when an acquisition is
+   * granted.
+   * @param options.onRelease Function which is called when an acquisition is
+   * released.
+   * @param options.onCancel Function which is called after the waiters are
+   * cancelled.
+   * @param options.errorCancelled The error value thrown to each waiter when
+   * cancelled.
+   * @param options.timeout Default milliseconds to wait for an acquisition
+   * before rejecting with `ErrTimeout`.
+   * @param options.queue Discipline for ordering the waiting acquisitions.
+   * @param options.clock Clock used for the rate and it's timers.
+   */
+  constructor(limit:number, options?:RateLimiterOptions) {
+    // Bind methods
+    this.acquire = this.acquire.bind(this);
+    this.guard = this.guard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    if(typeof limit !== 'number' || !(limit > 0) || !Number.isFinite(limit))
+      throw new TypeError(`RateLimiter was constructed with a limit of "${limit}", a positive number is required`);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...RateLimiter.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    const {
+      algorithm,
+      interval,
+      burst,
+      maxConcurrent,
+    } = this.options;
+    if(algorithm !== 'token-bucket' && algorithm !== 'sliding-window')
+      throw new TypeError(`RateLimiter was constructed with an unknown algorithm "${algorithm}"`);
+    if(typeof interval !== 'number' || !(interval > 0))
+      throw new TypeError(`RateLimiter was constructed with an interval of "${interval}", a positive number is required`);
+    if(typeof burst !== 'undefined' && (typeof burst !== 'number' || !(burst >= 1)))
+      throw new TypeError(`RateLimiter was constructed with a burst of "${burst}", a number of at least 1 is required`);
+    if(typeof maxConcurrent !== 'undefined' && (typeof maxConcurrent !== 'number' || !(maxConcurrent >= 1)))
+      throw new TypeError(`RateLimiter was constructed with a maxConcurrent of "${maxConcurrent}", a number of at least 1 is required`);
+
+    if(algorithm === 'sliding-window' && limit < 1)
+      throw new TypeError(`RateLimiter was constructed with a limit of "${limit}", the sliding-window algorithm requires at least 1`);
+
+    this.#limit = limit;
+
+    // A bucket below 1 token could never hand out a single acquisition
+    this.#capacity = (algorithm === 'token-bucket' ? (burst ?? Math.max(1, limit)) : limit);
+    this.#tokens = this.#capacity;
+    this.#refilledAt = this.#clock().now();
+    this.#queue = createQueue<SemaphoreQueuedPromise>(this.options.queue);
+  }
+
+  /**
+   * Number of tokens that could be acquired right now, ignoring the waiters
+   */
+  get available():number {
+    this.#refill();
+
+    if(this.options.algorithm === 'sliding-window')
+      return this.#limit - this.#grants.reduce((sum, [ , weight ]) => sum + weight, 0);
+    return Math.floor(this.#tokens);
+  }
+
+  /**
+   * Number of acquisitions waiting in line
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Is the limiter currently limiting? True when acquisitions are waiting, or
+   * no further tokens or concurrency slots are available.
+   */
+  get isLocked():boolean {
+    return (this.#queue.length > 0 || this.available < 1 || this.#atConcurrency());
+  }
+
+  /**
+   * Acquires tokens from this limiter, waiting until they are available. The
+   * promise resolves to a tuple of a releaser and the number of tokens still
+   * available, just like {@link Semaphore.acquire}.
+   * 
+   * Tokens are spent once granted, and not given back by the releaser. The
+   * releaser only gives back the concurrency slot when `maxConcurrent` is set,
+   * but should always be called so that switching the option on is safe.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * // 10 calls per second, at most 2 at once
+   * const limiter = new RateLimiter(10, { maxConcurrent: 2 });
+   * 
+   * const [ release ] = await limiter.acquire({ timeout: 5000 });
+   * try {
+   *    await callApi();
+   * } finally {
+   *    release();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this acquisition, or a number as a
+   * shorthand for the weight
+   * @param options.weight Number of tokens to take. **Default = 1**.
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this acquisition when
+   * aborted.
+   * @param options.priority Priority of this acquisition when using the
+   * `priority` queue discipline.
+   * @returns Promise resolving to a tuple composed of the releaser function,
+   * and the number of tokens still available
+   */
+  acquire(options?:(number|SemaphoreAcquireOptions)):Promise<SemaphoreTicket> {
+    const opts:SemaphoreAcquireOptions = (typeof options === 'number' ? { weight: options } : (options ?? {}));
+
+    const weight = opts.weight ?? 1;
+    if(typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1)
+      return Promise.reject(new TypeError(`RateLimiter was given a weight of "${weight}", a positive integer is required`));
+    else if(weight > this.#capacity)
+      return Promise.reject(new SynchroError(`RateLimiter was given a weight of ${weight} which exceeds it's capacity of ${this.#capacity}`));
+
+    // An already aborted signal never enters the queue
+    if(opts.signal?.aborted)
+      return Promise.reject(abortReason(opts.signal, this.options.errorCancelled));
+
+    return new Promise<SemaphoreTicket>((resolve, reject) => {
+      const entry:SemaphoreQueuedPromise = {
+        resolve,
+        reject,
+        weight,
+      };
+      this.#queue.push(entry, opts.priority);
+
+      this.#dispatch();
+
+      // Only waiting acquisitions need their timeout watched
+      if(this.#queue.has(entry))
+        this.#arm(entry, opts);
+    });
+  }
+
+  /**
+   * Performs the callback once tokens are acquired, releasing afterwards. See
+   * {@link Semaphore.guard}.
+   * 
+   * @param cb Callback function executed when the acquisition is made, it
+   * receives the number of tokens still available.
+   * @param options Optional settings for the acquisition, such as it's
+   * `weight`, see {@link RateLimiter.acquire}
+   * @returns Promise resolving to the results of the callback function
+   */
+  async guard<T = any>(cb:SemaphoreLockCB<T>, options?:SemaphoreAcquireOptions):Promise<T> {
+    const [ release, avail ] = await this.acquire(options);
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels all waiting acquisitions by rejecting their promises. Tokens and
+   * held acquisitions are left as they are.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    this.#queue.clear().forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.options.errorCancelled ?? ErrCancelled);
+    });
+    this.#schedule(null);
+
+    // Call the onCancel asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  #clock():RateLimiterClock {
+    return this.options.clock ?? systemClock;
+  }
+
+  #atConcurrency():boolean {
+    const { maxConcurrent } = this.options;
+    return (typeof maxConcurrent === 'number' && this.#active >= maxConcurrent);
+  }
+
+  /**
+   * Brings the tokens up to date with the current time
+   */
+  #refill():void {
+    const now = this.#clock().now();
+    const interval = this.options.interval as number;
+
+    if(this.options.algorithm === 'sliding-window') {
+      // Forget the grants that slid out of the window
+      while(this.#grants.length > 0 && this.#grants[0][0] + interval <= now)
+        this.#grants.shift();
+      return;
+    }
+
+    const elapsed = Math.max(0, now - this.#refilledAt);
+    this.#tokens = Math.min(this.#capacity, this.#tokens + (elapsed * this.#limit / interval));
+    this.#refilledAt = now;
+  }
+
+  /**
+   * Milliseconds until the weight of tokens is available
+   */
+  #delayFor(weight:number):number {
+    const interval = this.options.interval as number;
+
+    if(this.options.algorithm === 'sliding-window') {
+      // Find how many of the oldest grants need to slide out
+      let missing = weight - this.available;
+      const grant = this.#grants.find(([ , grantWeight ]) => {
+        missing -= grantWeight;
+        return missing <= 0;
+      });
+      return (grant ? grant[0] + interval - this.#clock().now() : interval);
+    }
+
+    return Math.ceil((weight - this.#tokens) * interval / this.#limit);
+  }
+
+  #take(weight:number):void {
+    if(this.options.algorithm === 'sliding-window')
+      this.#grants.push([ this.#clock().now(), weight ]);
+    else
+      this.#tokens -= weight;
+  }
+
+  #arm(entry:SemaphoreQueuedPromise, options?:LockOptions):void {
+    entry.disarm = armWaiter({
+      timeout: options?.timeout ?? this.options.timeout,
+      signal: options?.signal,
+    }, err => {
+      // Remove the waiter so it is never handed a ticket later
+      const wasNext = (this.#queue.peek() === entry);
+      if(!this.#queue.remove(entry))
+        return;
+
+      entry.reject(err);
+
+      // The waiter may have been holding up the ones behind it
+      if(wasNext)
+        this.#dispatch();
+    }, this.options.errorCancelled);
+  }
+
+  #dispatch():void {
+    this.#schedule(null);
+
+    while(this.#queue.length > 0 && !this.#atConcurrency()) {
+      const next = this.#queue.peek() as SemaphoreQueuedPromise;
+
+      // Out of tokens, so wake up once there are enough for the next in line
+      if(this.available < next.weight) {
+        this.#schedule(this.#delayFor(next.weight));
+        return;
+      }
+
+      // Removed by identity, an aging queue may have reordered since the peek
+      this.#queue.remove(next);
+      next.disarm?.();
+
+      this.#take(next.weight);
+      this.#active++;
+
+      // If we wanted to listen, fire of an event
+      if(typeof this.options.onAquire === 'function')
+        this.options.onAquire();
+
+      next.resolve(makeTicket(this.#makeReleaser(), this.available));
+    }
+  }
+
+  #schedule(delay:(number|null)):void {
+    const clock = this.#clock();
+
+    if(this.#timer !== null)
+      clock.clearTimeout(this.#timer);
+    this.#timer = null;
+
+    if(delay !== null) {
+      this.#timer = clock.setTimeout(() => {
+        this.#timer = null;
+        this.#dispatch();
+      }, Math.max(0, delay));
+    }
+  }
+
+  #makeReleaser():SemaphoreReleaser {
+    let released = false;
+
+    return ():void => {
+      if(released)
+        return;
+      released = true;
+
+      this.#active--;
+
+      // If we wanted to listen, fire of the event
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+
+      // A concurrency slot may have opened up
+      this.#dispatch();
+    };
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled } from './errors';
+import {
+  LockHandle,
+  LockRejector,
+  LockResolver,
+  QueuedPromise,
+  Releaser,
+} from './types';
+import { makeHandle } from './disposable';
+
+export type ReadWriteLockCB<T> = () => (Promise<T> | T);
+
+/**
+ * Policy deciding which waiting locks are given priority when the lock
+ * becomes available.
+ * 
+ * - `prefer-readers` Readers are always let in while no writer holds the lock,
+ * even if writers are waiting. Writers may starve under heavy read load.
+ * - `prefer-writers` Once a writer is waiting, no further readers are let in
+ * until the waiting writers have had their turn. Readers may starve under
+ * heavy write load.
+ * - `fair` Locks are granted in the order they where requested, consecutive
+ * readers at the front of the line are let in together.
+ */
+export type ReadWriteLockPolicy = ('prefer-readers' | 'prefer-writers' | 'fair');
+
+export interface ReadWriteLockOptions {
+
+  /**
+   * Policy for deciding the order in which waiting locks are granted.
+   * **Default = 'fair'**.
+   */
+  policy ?: ReadWriteLockPolicy;
+
+  /**
+   * Callback executed whenever a read lock is achieved.
+   */
+  onLockRead ?: () => void;
+
+  /**
+   * Callback executed whenever a write lock is achieved.
+   */
+  onLockWrite ?: () => void;
+
+  /**
+   * Callback executed whenever a read or write lock is released.
+   */
+  onRelease ?: () => void;
+
+  /**
+   * Callback executed AFTER the lock has it's waiting locks cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the locks are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+};
+
+interface ReadWriteQueuedPromise extends QueuedPromise<LockResolver, LockRejector> {
+  write:boolean;
+};
+
+/**
+ * Internal record of the active write lock, used to invalidate the releaser
+ * when downgrading.
+ */
+interface WriteHold {
+  release:LockHandle;
+  released:boolean;
+};
+
+/**
+ * Multi-reader, single-writer concurrency lock. Any number of readers may hold
+ * the lock at the same time, while a writer holds it exclusively.
+ */
+export default class ReadWriteLock {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * ReadWriteLock object.
+   */
+  public static readonly DefaultOptions:ReadWriteLockOptions = {
+    policy: 'fair',
+    errorCancelled: ErrCancelled,
+  };
+
+  /**
+   * Options dictating how this lock will work
+   */
+  options:ReadWriteLockOptions;
+
+  /**
+   * Number of readers currently holding the lock
+   */
+  #readers = 0;
+
+  /**
+   * The active write lock, if one is held
+   */
+  #writer:(WriteHold|null) = null;
+
+  /**
+   * Queue of read and write locks waiting on this lock
+   */
+  #queue:Array<ReadWriteQueuedPromise> = [];
+
+  /**
+   * @param options Additional settings for ReadWriteLock operation.
+   * @param options.policy Policy deciding which waiting locks are granted
+   * first, one of `prefer-readers`, `prefer-writers`, or `fair`.
+   * @param options.onLockRead Function which is called when a read lock is
+   * acquired.
+   * @param options.onLockWrite Function which is called when a write lock is
+   * acquired.
+   * @param options.onRelease Function which is called whenever a lock is
+   * released/unlocked
+   * @param options.onCancel Function called when all the waiting locks have
+   * been cancelled by `cancelAll`.
+   * @param options.errorCancelled Error object that is thrown when the promises
+   * are rejected via `cancelAll`.
+   */
+  constructor(options?:ReadWriteLockOptions) {
+    // Bind methods
+    this.lockRead = this.lockRead.bind(this);
+    this.lockWrite = this.lockWrite.bind(this);
+    this.guardRead = this.guardRead.bind(this);
+    this.guardWrite = this.guardWrite.bind(this);
+    this.downgrade = this.downgrade.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...ReadWriteLock.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    const { policy } = this.options;
+    if(policy !== 'prefer-readers' && policy !== 'prefer-writers' && policy !== 'fair')
+      throw new TypeError(`ReadWriteLock was constructed with an unknown policy "${policy}"`);
+  }
+
+  /**
+   * The policy used for granting waiting locks
+   */
+  get policy():ReadWriteLockPolicy {
+    return this.options.policy ?? 'fair';
+  }
+
+  /**
+   * Is this lock currently held by either readers or a writer?
+   */
+  get isLocked():boolean {
+    return (this.#readers > 0 || this.#writer !== null);
+  }
+
+  /**
+   * Is this lock currently held by one or more readers?
+   */
+  get isReadLocked():boolean {
+    return (this.#readers > 0);
+  }
+
+  /**
+   * Is this lock currently held by a writer?
+   */
+  get isWriteLocked():boolean {
+    return (this.#writer !== null);
+  }
+
+  /**
+   * The number of readers currently holding the lock
+   */
+  get readers():number {
+    return this.#readers;
+  }
+
+  /**
+   * Attempts to acquire a shared read lock, or waits until one is available
+   * according to the lock's policy. The promise returned resolves giving a
+   * function to call to release the read lock.
+   * 
+   * After locking, you **must call the releaser** function or else any
+   * waiting writers will never be resolved. It is suggested that you use the
+   * guarded method {@link ReadWriteLock.guardRead} instead.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const unlock = await rwl.lockRead();
+   * 
+   * // Read lock is acquired, other readers may be working too
+   * ...
+   * 
+   * unlock();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @returns Promise resolving with the unlock releaser
+   */
+  lockRead():Promise<LockHandle> {
+    return new Promise<LockHandle>((resolve, reject) => {
+      this.#queue.push({
+        resolve,
+        reject,
+        write: false,
+      });
+
+      this.#dispatch();
+    });
+  }
+
+  /**
+   * Attempts to acquire the exclusive write lock, or waits until all current
+   * holders have released it. The promise returned resolves giving a function
+   * to call to release the write lock.
+   * 
+   * After locking, you **must call the releaser** function (or downgrade it
+   * with {@link ReadWriteLock.downgrade}) or else all other locks will wait
+   * forever. It is suggested that you use the guarded method
+   * {@link ReadWriteLock.guardWrite} instead.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const unlock = await rwl.lockWrite();
+   * 
+   * // Write lock is acquired, nobody else holds the lock
+   * ...
+   * 
+   * unlock();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @returns Promise resolving with the unlock releaser
+   */
+  lockWrite():Promise<LockHandle> {
+    return new Promise<LockHandle>((resolve, reject) => {
+      this.#queue.push({
+        resolve,
+        reject,
+        write: true,
+      });
+
+      this.#dispatch();
+    });
+  }
+
+  /**
+   * Performs read lock acquisition and releasing for you.
+   * 
+   * Any value returned by the callback will be passed through when the
+   * promise resolves. Errors thrown by the callback bubble up after the lock is
+   * released.
+   * 
+   * @param cb Callback function executed when the read lock is acquired
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guardRead<T = any>(cb:ReadWriteLockCB<T>):Promise<T> {
+    const release = await this.lockRead();
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs write lock acquisition and releasing for you.
+   * 
+   * Any value returned by the callback will be passed through when the
+   * promise resolves. Errors thrown by the callback bubble up after the lock is
+   * released.
+   * 
+   * @param cb Callback function executed when the write lock is acquired
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guardWrite<T = any>(cb:ReadWriteLockCB<T>):Promise<T> {
+    const release = await this.lockWrite();
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Atomically converts the currently held write lock into a read lock. No
+   * other writer can sneak in between, and any waiting readers that the policy
+   * allows are let in alongside.
+   * 
+   * The given write releaser becomes a no-op, and the returned releaser must be
+   * called to release the new read lock.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const unlockWrite = await rwl.lockWrite();
+   * // Modify the resource
+   * ...
+   * 
+   * const unlockRead = rwl.downgrade(unlockWrite);
+   * // Keep reading the resource, while other readers are let in
+   * ...
+   * 
+   * unlockRead();
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @throws {SynchroError} If the releaser is not for the active write lock
+   * @param release The releaser given when the write lock was acquired
+   * @returns The releaser for the downgraded read lock
+   */
+  downgrade(release:Releaser):LockHandle {
+    const writer = this.#writer;
+    if(!writer || writer.release !== release || writer.released)
+      throw new SynchroError('cannot downgrade, the releaser does not hold the write lock');
+
+    // Invalidate the write releaser and swap the hold over to a reader
+    writer.released = true;
+    this.#writer = null;
+    this.#readers++;
+
+    if(typeof this.options.onLockRead === 'function')
+      this.options.onLockRead();
+
+    const readRelease = this.#makeReadReleaser();
+
+    // Readers waiting may now be allowed in with us
+    this.#dispatch();
+
+    return readRelease;
+  }
+
+  /**
+   * Cancels all waiting locks by rejecting their promises. Locks that are
+   * currently held are left untouched and must still be released.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    // Reject all of the waiting promises and empty the queue
+    const queue = this.#queue;
+    this.#queue = [];
+    queue.forEach(({ reject }) => reject(err ?? this.options.errorCancelled ?? ErrCancelled));
+
+    // Fire the event is asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  /**
+   * Grants as many waiting locks as the policy allows.
+   */
+  #dispatch():void {
+    // Nobody gets in while a writer holds the lock
+    if(this.#writer)
+      return;
+
+    switch(this.policy) {
+      case 'prefer-readers': {
+        this.#grantReaders(this.#queue.filter(entry => !entry.write));
+
+        const writer = this.#queue.find(entry => entry.write);
+        if(writer && this.#readers === 0)
+          this.#grantWriter(writer);
+        break;
+      }
+      case 'prefer-writers': {
+        const writer = this.#queue.find(entry => entry.write);
+        if(!writer)
+          this.#grantReaders(this.#queue.slice());
+        else if(this.#readers === 0)
+          this.#grantWriter(writer);
+        break;
+      }
+      default: {
+        // Fair, let in the consecutive readers at the head of the line
+        const readers:ReadWriteQueuedPromise[] = [];
+        for(const entry of this.#queue) {
+          if(entry.write)
+            break;
+          readers.push(entry);
+        }
+        this.#grantReaders(readers);
+
+        const [ head ] = this.#queue;
+        if(head && head.write && this.#readers === 0)
+          this.#grantWriter(head);
+        break;
+      }
+    }
+  }
+
+  #grantReaders(entries:ReadWriteQueuedPromise[]):void {
+    if(entries.length === 0)
+      return;
+
+    this.#queue = this.#queue.filter(entry => !entries.includes(entry));
+
+    entries.forEach(entry => {
+      this.#readers++;
+
+      if(typeof this.options.onLockRead === 'function')
+        this.options.onLockRead();
+
+      entry.resolve(this.#makeReadReleaser());
+    });
+  }
+
+  #grantWriter(entry:ReadWriteQueuedPromise):void {
+    this.#queue = this.#queue.filter(other => other !== entry);
+
+    const hold:WriteHold = {
+      release: makeHandle(() => {
+        // Short-circuit out if already released or downgraded
+        if(hold.released)
+          return;
+        hold.released = true;
+        this.#writer = null;
+
+        if(typeof this.options.onRelease === 'function')
+          this.options.onRelease();
+
+        this.#dispatch();
+      }),
+      released: false,
+    };
+    this.#writer = hold;
+
+    if(typeof this.options.onLockWrite === 'function')
+      this.options.onLockWrite();
+
+    entry.resolve(hold.release);
+  }
+
+  #makeReadReleaser():LockHandle {
+    // Cache the released state
+    let released = false;
+
+    return makeHandle(():void => {
+      // Short-circuit out if already released
+      if(released)
+        return;
+      released = true;
+      this.#readers--;
+
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+
+      if(this.#readers === 0)
+        this.#dispatch();
+    });
+  }
+}
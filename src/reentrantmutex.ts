@@ -0,0 +1,215 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError from './errors';
+import Mutex, { MutexHandle, MutexLockCB } from './mutex';
+import {
+  Task,
+  createTask,
+  currentTask,
+  runTask,
+} from './context';
+import { makeHandle } from './disposable';
+import type { Releaser, SkippedType } from './types';
+import {
+  HoldOptions,
+  HoldTimer,
+  attachExpiry,
+  checkTtl,
+  expireHold,
+} from './expiry';
+
+/**
+ * Mutex which can be locked again by the async task already holding it.
+ * 
+ * Ownership is tracked through the async context, see {@link runTask}. Nested
+ * locks from the owning task increment a hold count instead of waiting, and
+ * the Mutex is only unlocked once every hold has been released. The callbacks
+ * of {@link ReentrantMutex.guard} always run as a task, so guards may be
+ * nested freely.
+ * 
+ * Locks taken outside of any task can not be re-entered, as there is no
+ * context to recognize the owner by.
+ * 
+ * A `ttl` given to the outer lock expires all of the holds at once, the
+ * `ttl` of re-entering locks is ignored. Every hold exposes the same expiry.
+ */
+export default class ReentrantMutex extends Mutex {
+  /**
+   * Task currently owning the lock, null when not owned
+   */
+  #owner:(Task|null) = null;
+
+  /**
+   * Number of holds the owning task has on the lock
+   */
+  #holds = 0;
+
+  /**
+   * Releaser of the underlying lock, called once all holds are released
+   */
+  #release:(Releaser|null) = null;
+
+  /**
+   * Timer expiring all of the holds, when the outer lock was given a `ttl`
+   */
+  #timer:(HoldTimer|null) = null;
+
+  /**
+   * Number of holds the owning task has on this Mutex, 0 when unlocked
+   */
+  get holds():number {
+    return this.#holds;
+  }
+
+  /**
+   * Locks this Mutex, or re-enters it if the current task already owns it.
+   * Otherwise works just like {@link Mutex.lock}.
+   * 
+   * Each releaser given out releases one hold, and must be called from the
+   * same task that locked. Releasing from a different context throws a
+   * {@link SynchroError}.
+   * 
+   * @param options Optional settings for this lock attempt, see
+   * {@link Mutex.lock}
+   * @returns Promise resolving with the unlock releaser
+   */
+  lock(options?:HoldOptions):Promise<MutexHandle> {
+    try {
+      checkTtl('ReentrantMutex', options?.ttl);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    const task = currentTask();
+    if(this.#isOwner(task))
+      return Promise.resolve(this.#reenter());
+
+    // The holds are expired here, so the owner is forgotten along with them
+    const { ttl, ...lockOptions } = options ?? {};
+    return super.lock(lockOptions).then(release => this.#own(task, release, ttl));
+  }
+
+  /**
+   * Locks this Mutex if it is available right now, or re-enters it if the
+   * current task already owns it. See {@link Mutex.tryLock}.
+   * 
+   * @param options Optional `ttl` of the hold, see {@link Mutex.lock}
+   * @returns The unlock releaser, or null if another task holds the lock
+   */
+  tryLock(options?:Pick<HoldOptions, 'ttl'>):(MutexHandle|null) {
+    checkTtl('ReentrantMutex', options?.ttl);
+
+    const task = currentTask();
+    if(this.#isOwner(task))
+      return this.#reenter();
+
+    const release = super.tryLock();
+    if(!release)
+      return null;
+
+    return this.#own(task, release, options?.ttl);
+  }
+
+  /**
+   * Performs the callback while holding this Mutex, see {@link Mutex.guard}.
+   * The callback runs as the owning task, so it may lock this Mutex again.
+   * 
+   * @param cb Callback function executed when the lock is acquired
+   * @param options Optional settings for the lock attempt
+   * @returns Promise resolving to the results returned by the callback
+   */
+  guard<T = any>(cb:MutexLockCB<T>, options?:HoldOptions):Promise<T> {
+    return runTask(() => super.guard(cb, options), currentTask() ?? createTask());
+  }
+
+  /**
+   * Performs the callback only if this Mutex can be locked or re-entered
+   * right now, see {@link Mutex.tryGuard}.
+   * 
+   * @param cb Callback function executed if the lock is acquired
+   * @param options Optional `ttl` of the hold
+   * @returns Promise resolving to the results returned by the callback, or
+   * `Skipped` if another task holds the lock
+   */
+  tryGuard<T = any>(cb:MutexLockCB<T>, options?:Pick<HoldOptions, 'ttl'>):Promise<T|SkippedType> {
+    return runTask(() => super.tryGuard(cb, options), currentTask() ?? createTask());
+  }
+
+  #isOwner(task?:Task):boolean {
+    return (typeof task !== 'undefined' && task === this.#owner);
+  }
+
+  #own(task:(Task|undefined), release:Releaser, ttl?:number):MutexHandle {
+    this.#owner = task ?? null;
+    this.#holds = 1;
+    this.#release = release;
+
+    const grantedAt = Date.now();
+    this.#timer = expireHold(ttl, () => {
+      this.#disown();
+
+      if(typeof this.options.onExpire === 'function') {
+        this.options.onExpire({
+          name: this.options.name,
+          task,
+          heldFor: Date.now() - grantedAt,
+        });
+      }
+    });
+
+    return this.#makeHold(this.#owner);
+  }
+
+  #disown():void {
+    const release = this.#release;
+    this.#owner = null;
+    this.#holds = 0;
+    this.#release = null;
+    this.#timer?.stop();
+    this.#timer = null;
+    release?.();
+  }
+
+  #reenter():MutexHandle {
+    this.#holds++;
+
+    // Re-entering counts as a lock for anyone listening
+    if(typeof this.options.onLock === 'function')
+      this.options.onLock();
+
+    return this.#makeHold(this.#owner);
+  }
+
+  #makeHold(task:(Task|null)):MutexHandle {
+    let released = false;
+
+    // Holds that outlived an expired lock must not touch the next owner's
+    const underlying = this.#release;
+    const timer = this.#timer as HoldTimer;
+
+    return attachExpiry(makeHandle(():void => {
+      if(released || this.#release !== underlying)
+        return;
+
+      if((currentTask() ?? null) !== task)
+        throw new SynchroError('ReentrantMutex released from a context that does not own the lock');
+      released = true;
+
+      this.#holds--;
+      if(this.#holds > 0)
+        return;
+
+      // Last hold released, so give up the underlying lock
+      this.#disown();
+    }), timer);
+  }
+}
@@ -0,0 +1,518 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+
+import SynchroError, { ErrCancelled, LeaseLostError } from './errors';
+import Mutex from './mutex';
+import { Handle, makeHandle } from './disposable';
+import type { LockBackend, LockLease } from './backend';
+import type { LockOptions } from './types';
+import {
+  Poller,
+  cancelPoller,
+  pollLock,
+} from './poll';
+
+/**
+ * Releaser for a RemoteMutex lock. The promise it returns resolves once the
+ * backend has released the lease.
+ */
+export type RemoteReleaser = () => Promise<void>;
+
+/**
+ * Releaser handed out by {@link RemoteMutex.lock}, which is also disposable
+ * and carries the fencing token of the grant.
+ */
+export type RemoteLockHandle = (Handle<RemoteReleaser> & {
+
+  /**
+   * Name of the lock held
+   */
+  readonly key:string;
+
+  /**
+   * Fencing token of the grant, to be passed along with writes so stores can
+   * reject the ones from holders whose lease was lost
+   */
+  readonly token:number;
+});
+
+/**
+ * Callback function used for RemoteMutex guards, receiving the fencing token.
+ */
+export type RemoteLockCB<T> = (token:number) => (Promise<T> | T);
+
+/**
+ * Options available for RemoteMutex objects
+ */
+export interface RemoteMutexOptions {
+
+  /**
+   * Callback executed whenever a lock is achieved.
+   */
+  onLock ?: () => void;
+
+  /**
+   * Callback executed whenever a lock is released.
+   */
+  onRelease ?: () => void;
+
+  /**
+   * Callback executed AFTER the RemoteMutex has it's waiting locks cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the locks are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+
+  /**
+   * Default milliseconds a lock will wait before being rejected with
+   * {@link ErrTimeout}. Can be overridden by each lock attempt.
+   */
+  timeout ?: number;
+
+  /**
+   * Milliseconds each lease lasts without being renewed. **Default = 10000**.
+   */
+  ttl ?: number;
+
+  /**
+   * Milliseconds between renewals of a held lease, which must be well below
+   * `ttl`. **Default = ttl / 3**.
+   */
+  renewInterval ?: number;
+
+  /**
+   * Milliseconds to wait before asking for a held lock again. Doubles after
+   * each attempt, up to `maxPollInterval`. **Default = 50**.
+   */
+  pollInterval ?: number;
+
+  /**
+   * Maximum milliseconds to wait between attempts. **Default = 1000**.
+   */
+  maxPollInterval ?: number;
+
+  /**
+   * Identifies this holder to the backend. **Default = hostname, process id
+   * and a random suffix**.
+   */
+  owner ?: string;
+
+  /**
+   * Callback executed when a held lease could not be renewed in time, or was
+   * granted to somebody else. The work guarded by it should be considered
+   * unsafe, and writes carrying it's token will be rejected by fencing stores.
+   */
+  onLeaseLost ?: (err:LeaseLostError) => void;
+};
+
+/**
+ * The lease currently held, and until when it is surely still valid
+ */
+interface RemoteHold {
+  lease:LockLease;
+
+  /**
+   * Local clock time by which the lease expires, measured from before the
+   * request granting or renewing it was sent
+   */
+  validUntil:number;
+};
+
+/**
+ * Single-user lock shared by several processes or service instances through
+ * a {@link LockBackend}, such as a {@link LockServer}.
+ * 
+ * Holds are leases which expire after `ttl` milliseconds unless renewed, so a
+ * crashed holder does not keep the lock forever. While held, the lease is
+ * renewed every `renewInterval` milliseconds. Each grant carries a fencing
+ * token higher than any before it, which stores can check to reject writes
+ * from a holder that stalled past it's lease.
+ * 
+ * Locks from the same instance wait in line like a {@link Mutex}, while locks
+ * held elsewhere are asked for again with a backoff.
+ */
+export default class RemoteMutex {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * RemoteMutex object.
+   */
+  public static readonly DefaultOptions:RemoteMutexOptions = {
+    errorCancelled: ErrCancelled,
+    ttl: 10000,
+    pollInterval: 50,
+    maxPollInterval: 1000,
+  };
+
+  /**
+   * Options dictating how this mutex will work
+   */
+  options:RemoteMutexOptions;
+
+  /**
+   * Backend holding the leases
+   */
+  readonly #backend:LockBackend;
+
+  /**
+   * Name of the lock in the backend
+   */
+  readonly #key:string;
+
+  /**
+   * Identifies this holder to the backend
+   */
+  readonly #owner:string;
+
+  /**
+   * Mutex lining up the locks made on this instance
+   */
+  readonly #local:Mutex;
+
+  /**
+   * Lock attempts currently asking the backend
+   */
+  #pollers = new Set<Poller>();
+
+  /**
+   * The lease held by this instance, null when not held
+   */
+  #hold:(RemoteHold|null) = null;
+
+  /**
+   * @throws {TypeError} If the key is empty, or the ttl or renewInterval are
+   * not positive numbers
+   * @param backend Backend holding the leases, shared with the other holders.
+   * @param key Name of the lock in the backend.
+   * @param options Additional settings for RemoteMutex operation.
+   * @param options.onLock Function which is called when a lock is acquired.
+   * @param options.onRelease Function which is called whenever a lock is
+   * released.
+   * @param options.onCancel Function called when all the locks have been
+   * cancelled by `cancelAll`.
+   * @param options.errorCancelled Error object that is thrown when the promises
+   * are rejected via `cancelAll`.
+   * @param options.timeout Default milliseconds to wait for a lock before
+   * rejecting with `ErrTimeout`.
+   * @param options.ttl Milliseconds each lease lasts without being renewed.
+   * @param options.renewInterval Milliseconds between renewals of a held
+   * lease.
+   * @param options.pollInterval Milliseconds before asking for a held lock
+   * again, doubling up to `maxPollInterval`.
+   * @param options.maxPollInterval Maximum milliseconds between attempts.
+   * @param options.owner Identifies this holder to the backend.
+   * @param options.onLeaseLost Function called when a held lease is lost.
+   */
+  constructor(backend:LockBackend, key:string, options?:RemoteMutexOptions) {
+    // Bind methods
+    this.lock = this.lock.bind(this);
+    this.guard = this.guard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    if(!backend || typeof backend.acquire !== 'function')
+      throw new TypeError('RemoteMutex was constructed without a LockBackend');
+    if(typeof key !== 'string' || key.length === 0)
+      throw new TypeError(`RemoteMutex was constructed with a key of "${key}", a non-empty string is required`);
+    this.#backend = backend;
+    this.#key = key;
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...RemoteMutex.DefaultOptions,
+      ...(options ?? {}),
+    };
+
+    const { ttl, renewInterval } = this.options;
+    if(typeof ttl !== 'number' || !(ttl > 0))
+      throw new TypeError(`RemoteMutex was constructed with a ttl of "${ttl}", a positive number is required`);
+    if(typeof renewInterval !== 'undefined' && !(renewInterval > 0 && renewInterval < ttl))
+      throw new TypeError(`RemoteMutex was constructed with a renewInterval of "${renewInterval}", a positive number below the ttl is required`);
+
+    this.#owner = this.options.owner ?? `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+    this.#local = new Mutex({ errorCancelled: this.options.errorCancelled });
+  }
+
+  /**
+   * Name of the lock in the backend
+   */
+  get key():string {
+    return this.#key;
+  }
+
+  /**
+   * Identifies this holder to the backend
+   */
+  get owner():string {
+    return this.#owner;
+  }
+
+  /**
+   * Determines if this instance currently holds the lock
+   */
+  get isLocked():boolean {
+    return this.#hold !== null;
+  }
+
+  /**
+   * Fencing token of the lease held by this instance, null when not held
+   */
+  get token():(number|null) {
+    return this.#hold?.lease.token ?? null;
+  }
+
+  /**
+   * Acquires the lock from the backend. Locks from this instance are lined up
+   * first, then the backend is asked until it grants a lease.
+   * 
+   * After locking, you **must call the releaser** function (or dispose of it)
+   * or else the lock is only freed once the lease expires. The releaser
+   * returns a promise resolving once the backend released the lease. It is
+   * suggested that you use the guarded method {@link RemoteMutex.guard}
+   * instead.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const jobs = new RemoteMutex(backend, 'nightly-jobs', { ttl: 30000 });
+   * 
+   * const unlock = await jobs.lock({ timeout: 5000 });
+   * try {
+   *    await store.write(report, { fencingToken: unlock.token });
+   * } finally {
+   *    await unlock();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this lock attempt
+   * @param options.timeout Milliseconds to wait in total before rejecting
+   * with `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this lock attempt when
+   * aborted.
+   * @returns Promise resolving with the unlock releaser
+   */
+  async lock(options?:LockOptions):Promise<RemoteLockHandle> {
+    const timeout = options?.timeout ?? this.options.timeout;
+    const signal = options?.signal;
+    const deadline = (typeof timeout === 'number' && Number.isFinite(timeout) ? Date.now() + timeout : null);
+
+    const releaseLocal = await this.#local.lock({
+      timeout,
+      signal,
+    });
+
+    let hold:RemoteHold;
+    try {
+      hold = await pollLock(this.#pollers, {
+        signal,
+        ...(deadline === null ? {} : { timeout: Math.max(0, deadline - Date.now()) }),
+        attempt: () => this.#attempt(),
+        undo: taken => this.#backend.release(taken.lease),
+        pollInterval: this.options.pollInterval ?? 50,
+        maxPollInterval: this.options.maxPollInterval ?? 1000,
+        errorCancelled: this.options.errorCancelled,
+      });
+    } catch (err) {
+      releaseLocal();
+      throw err;
+    }
+
+    this.#hold = hold;
+    const stopRenewal = this.#startRenewal(hold);
+
+    // Fire off the event if we are listening
+    if(typeof this.options.onLock === 'function')
+      this.options.onLock();
+
+    let released:(Promise<void>|null) = null;
+    const handle = makeHandle(():Promise<void> => {
+      // Releasing again waits on the first release
+      if(!released) {
+        stopRenewal();
+        released = this.#release(hold, releaseLocal);
+      }
+      return released;
+    });
+
+    return Object.defineProperties(handle, {
+      key: {
+        value: this.#key,
+        enumerable: true,
+      },
+      token: {
+        value: hold.lease.token,
+        enumerable: true,
+      },
+    }) as RemoteLockHandle;
+  }
+
+  /**
+   * Performs the lock acquisition and releasing for you.
+   * 
+   * Any value returned by the callback will be passed through when the
+   * promise resolves. Errors thrown by the callback bubble up after the lock is
+   * released.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * await jobs.guard(async token => {
+   *    const report = await buildReport();
+   *    await store.write(report, { fencingToken: token });
+   * });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param cb Callback function executed when the lock is acquired, it
+   * receives the fencing token of the grant
+   * @param options Optional settings for the lock attempt, see
+   * {@link RemoteMutex.lock}
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guard<T = any>(cb:RemoteLockCB<T>, options?:LockOptions):Promise<T> {
+    const release = await this.lock(options);
+
+    let value:T;
+    try {
+      value = await cb(release.token);
+    } finally {
+      await release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels all waiting locks of this instance by rejecting their promises.
+   * The lease held by this instance, if any, is left untouched and must still
+   * be released.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
+
+    this.#local.cancelAll(reason);
+    this.#pollers.forEach(poller => cancelPoller(poller, reason));
+
+    // Fire the event is asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  /**
+   * Asks the backend for a lease once.
+   * 
+   * @returns The hold, or null if the lock is held by somebody else
+   */
+  async #attempt():Promise<RemoteHold|null> {
+    const ttl = this.options.ttl ?? 10000;
+    const sent = Date.now();
+
+    const lease = await this.#backend.acquire(this.#key, this.#owner, ttl);
+    if(!lease)
+      return null;
+
+    return {
+      lease,
+      validUntil: sent + ttl,
+    };
+  }
+
+  /**
+   * Releases the lease in the backend, and then the local line.
+   */
+  async #release(hold:RemoteHold, done:() => void):Promise<void> {
+    try {
+      await this.#backend.release(hold.lease);
+    } finally {
+      this.#hold = null;
+      done();
+
+      // Fire off the event if we are listening
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+    }
+  }
+
+  /**
+   * Renews the lease periodically while held, reporting when it is lost.
+   * 
+   * @returns Function stopping the renewal
+   */
+  #startRenewal(hold:RemoteHold):() => void {
+    const ttl = this.options.ttl ?? 10000;
+    const interval = this.options.renewInterval ?? Math.max(1, Math.floor(ttl / 3));
+
+    let stopped = false;
+    let renewing = false;
+
+    const timer = setInterval(() => {
+      const lost = (err:LeaseLostError):void => {
+        stopped = true;
+        clearInterval(timer);
+
+        if(typeof this.options.onLeaseLost === 'function')
+          this.options.onLeaseLost(err);
+      };
+
+      if(Date.now() >= hold.validUntil) {
+        lost(new LeaseLostError(this.#key, hold.lease.token));
+        return;
+      }
+
+      // A slow renewal is not sent again until it answers
+      if(renewing)
+        return;
+      renewing = true;
+
+      const sent = Date.now();
+      this.#backend.renew(hold.lease, ttl).then(lease => {
+        renewing = false;
+        hold.lease = lease;
+        hold.validUntil = sent + ttl;
+      }, err => {
+        renewing = false;
+
+        // Releasing may have raced with this renewal
+        if(stopped)
+          return;
+
+        // Other failures are retried until the lease runs out
+        if(err instanceof LeaseLostError)
+          lost(err);
+        else if(Date.now() >= hold.validUntil)
+          lost(new LeaseLostError(this.#key, hold.lease.token));
+      });
+    }, interval);
+
+    // Renewing alone should not keep the process running
+    timer.unref?.();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }
+}
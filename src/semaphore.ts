@@ -9,26 +9,155 @@
  * GITHUB: https://github.com/chris-pikul/async-synchro
  */
 
-import SynchroError, { ErrCancelled } from './errors';
+import SynchroError, { ErrCancelled, ErrClosed } from './errors';
 
-import type {
-  Releaser,
+import {
+  LockHandle,
+  LockOptions,
   LockRejector,
   QueuedPromise,
+  Skipped,
+  SkippedType,
 } from './types';
+import { abortReason, armWaiter } from './waiter';
+import {
+  QueueDiscipline,
+  WaitQueue,
+  createQueue,
+} from './queue';
+import type { Task } from './context';
+import type DeadlockDetector from './deadlock';
+import {
+  HoldWatcher,
+  LeakOptions,
+  acquisitionStack,
+  watchHold,
+} from './leak';
+import StatsRecorder, { LockStats, emptyStats } from './stats';
+import StateWaiters from './statewaiters';
+import { Lockable, nextLockId } from './lockable';
+import {
+  ConcurrentMapper,
+  ConcurrentOptions,
+  ConcurrentSource,
+  semaphoreMap,
+  settled,
+} from './concurrent';
+import {
+  Handle,
+  makeDisposable,
+  makeHandle,
+} from './disposable';
+import {
+  ExpiryOptions,
+  HoldExpiry,
+  HoldOptions,
+  HoldTimer,
+  attachExpiry,
+  checkTtl,
+  expireHold,
+} from './expiry';
 
-export type SemaphoreTicket = [ Releaser, number ];
+/**
+ * Releaser for a Semaphore acquisition. Calling it without arguments releases
+ * the whole weight that was acquired, or a `weight` can be given to release
+ * only part of it. The weight must be a positive integer.
+ */
+export type SemaphoreReleaser = (weight?:number) => void;
+
+/**
+ * Releaser handed out with a Semaphore acquisition. Besides being called, it
+ * can be released with it's `release()` method, or by a `using` declaration
+ * leaving scope.
+ */
+export type SemaphoreHandle = Handle<SemaphoreReleaser>;
+
+/**
+ * Tuple of the releaser and the number of slots still available. The ticket
+ * itself is disposable too, releasing the whole weight.
+ * 
+ * ```
+ * {
+ *    await using ticket = await sem.acquire();
+ *    ...
+ * } // Released here
+ * ```
+ */
+export type SemaphoreTicket<R extends SemaphoreReleaser = SemaphoreReleaser> = (
+  [ Handle<R>, number ] & Disposable & AsyncDisposable
+);
 
-export type SemaphoreResolver = (ticket:SemaphoreTicket) => void;
+/**
+ * Ticket handed out by {@link Semaphore.acquire}, whose releaser exposes the
+ * expiry of holds given a `ttl`.
+ */
+export type SemaphoreHoldTicket = SemaphoreTicket<SemaphoreReleaser & HoldExpiry>;
+
+export type SemaphoreResolver<Ticket = SemaphoreTicket> = (ticket:Ticket) => void;
 
 export type SemaphoreLockCB<T> = (locks?:number) => (Promise<T> | T);
 
-export type SemaphoreQueuedPromise = QueuedPromise<SemaphoreResolver>;
+/**
+ * Constructs the ticket for an acquisition, making both the releaser and the
+ * ticket disposable.
+ * 
+ * @param release Releaser for the acquisition
+ * @param available Number of slots available after acquiring
+ * @returns The disposable ticket tuple
+ */
+export function makeTicket<R extends SemaphoreReleaser>(release:R, available:number):SemaphoreTicket<R> {
+  const handle = makeHandle(release);
+  return makeDisposable<[ Handle<R>, number ]>([ handle, available ], () => handle());
+}
+
+/**
+ * Works out how much weight a releaser call gives back, never more than is
+ * still held.
+ * 
+ * @throws {TypeError} If the weight is given but not a positive integer
+ * @param name Name of the lock class, used in the error message
+ * @param held Weight still held
+ * @param weight Weight given to the releaser, the whole held weight if omitted
+ * @returns The weight to give back
+ */
+export function releasingWeight(name:string, held:number, weight?:number):number {
+  if(typeof weight === 'undefined')
+    return held;
+  if(typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1)
+    throw new TypeError(`${name} was released with a weight of "${weight}", a positive integer is required`);
+  return Math.min(held, weight);
+}
+
+export interface SemaphoreQueuedPromise<Resolver = SemaphoreResolver> extends QueuedPromise<Resolver> {
+  weight:number;
+};
+
+/**
+ * Waiting acquisition of a Semaphore, resolved with a ticket that may expire
+ */
+type HoldQueuedPromise = SemaphoreQueuedPromise<SemaphoreResolver<SemaphoreHoldTicket>>;
+
+/**
+ * Options available for an individual Semaphore acquisition
+ */
+export interface SemaphoreAcquireOptions extends LockOptions {
+
+  /**
+   * Number of slots this acquisition takes. **Default = 1**.
+   */
+  weight ?: number;
+};
+
+/**
+ * Options available for an individual Semaphore acquisition, which may be
+ * given a `ttl`
+ */
+export interface SemaphoreHoldOptions extends SemaphoreAcquireOptions, HoldOptions {};
 
 /**
  * Options available for Semaphore objects
  */
-export interface SemaphoreOptions {
+export interface SemaphoreOptions extends LeakOptions, ExpiryOptions {
 
   /**
    * Callback executed whenever an aquisition is made.
@@ -49,12 +178,42 @@ export interface SemaphoreOptions {
    * Error object that is thrown when the locks are cancelled.
    */
   errorCancelled ?: (Error|SynchroError);
+
+  /**
+   * Default milliseconds an acquisition will wait before being rejected with
+   * {@link ErrTimeout}. Can be overridden by each acquisition.
+   */
+  timeout ?: number;
+
+  /**
+   * Discipline deciding the order waiting acquisitions are granted in. Either
+   * `fifo`, `lifo`, `priority`, or a factory for a custom {@link WaitQueue}.
+   * **Default = 'fifo'**.
+   */
+  queue ?: QueueDiscipline;
+
+  /**
+   * Detector tracking this Semaphore to reject acquisitions that would
+   * deadlock, see {@link DeadlockDetector}.
+   */
+  deadlockDetector ?: DeadlockDetector;
+
+  /**
+   * Name describing this Semaphore in deadlock and lock order errors.
+   */
+  name ?: string;
+
+  /**
+   * Records contention statistics, see {@link Semaphore.stats}.
+   * **Default = false**.
+   */
+  stats ?: boolean;
 };
 
 /**
  * Semaphore for allowing a number of concurrent locks.
  */
-export default class Semaphore {
+export default class Semaphore implements Lockable {
   /**
    * Readonly set of default options that will be used when constructing a new
    * Semaphore object.
@@ -64,27 +223,52 @@ export default class Semaphore {
   /**
    * Maximum number of concurrent 
    */
-  readonly #maxConcurrent:number = 1;
+  #maxConcurrent = 1;
 
   /**
    * Options dictating how this semaphore will work
    */
   options:SemaphoreOptions;
 
+  /**
+   * Id placing this Semaphore in the global lock order, see {@link withLocks}
+   */
+  readonly lockId:number;
+
   /**
    * Numerical value determining how many further locks are allowed.
    * 
-   * Instantiated at the value of maxConcurrents and decremented for each lock
-   * aquired. As long as this value is positive, further lock aquisitions will
-   * be passed through unabated. When this value reaches 0, further locks must
-   * wait until an existing lock is released. 
+   * Instantiated at the value of maxConcurrents and decremented by the weight
+   * of each lock aquired. As long as this value covers the weight of the next
+   * waiting lock it will be passed through unabated. Otherwise, further locks
+   * must wait until enough existing locks are released.
    */
   #allowed:number;
 
   /**
    * List of locks aquired on this Semaphore.
    */
-  #queue:Array<SemaphoreQueuedPromise> = [];
+  #queue:WaitQueue<HoldQueuedPromise>;
+
+  /**
+   * Number of acquisitions currently holding slots
+   */
+  #holders = 0;
+
+  /**
+   * Recorder of the contention statistics, null when not enabled
+   */
+  #stats:(StatsRecorder|null);
+
+  /**
+   * Determines if new acquisitions are refused, see {@link Semaphore.close}
+   */
+  #closed = false;
+
+  /**
+   * Promises waiting for slots to be free, or for this Semaphore to be idle
+   */
+  #unlocked = new StateWaiters();
 
   /**
    * @param maxConcurrent Positive integer of the maximum number of concurrent
@@ -99,12 +283,38 @@ export default class Semaphore {
    * all it's locks cancelled and the Semaphore is reset.
    * @param options.errorCancelled The error value thrown to each lock when the
    * Semaphore has been cancelled.
+   * @param options.timeout Default milliseconds to wait for an acquisition
+   * before rejecting with `ErrTimeout`.
+   * @param options.queue Discipline for ordering the waiting acquisitions.
+   * @param options.deadlockDetector Detector rejecting acquisitions that would
+   * deadlock.
+   * @param options.name Name describing this Semaphore in deadlock errors.
+   * @param options.maxHoldTime Milliseconds slots may be held before being
+   * reported as leaked.
+   * @param options.onLeak Function called with a report of each leaked hold.
+   * @param options.releaseLeaks Forcibly release leaked holds.
+   * @param options.stats Record contention statistics.
+   * @param options.onExpire Function called with a report of each hold
+   * released because it's `ttl` elapsed.
    */
   constructor(maxConcurrent?:number, options?:SemaphoreOptions) {
     // Bind methods
     this.acquire = this.acquire.bind(this);
+    this.tryAcquire = this.tryAcquire.bind(this);
     this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
+    this.map = this.map.bind(this);
+    this.forEach = this.forEach.bind(this);
+    this.allSettled = this.allSettled.bind(this);
     this.cancelAll = this.cancelAll.bind(this);
+    this.close = this.close.bind(this);
+    this.drain = this.drain.bind(this);
+    this.onIdle = this.onIdle.bind(this);
+    this.waitForUnlock = this.waitForUnlock.bind(this);
+    this.acquireLock = this.acquireLock.bind(this);
+    this.setMaxConcurrent = this.setMaxConcurrent.bind(this);
+    this.stats = this.stats.bind(this);
+    this.resetStats = this.resetStats.bind(this);
 
     // Ensure the maxConcurrent is a number at least 1 if provided
     if(typeof maxConcurrent === 'undefined' || maxConcurrent == null) {
@@ -125,6 +335,9 @@ export default class Semaphore {
 
     // Initiate the allowed value for tracking lock numbers
     this.#allowed = this.#maxConcurrent;
+    this.#queue = createQueue<HoldQueuedPromise>(this.options.queue);
+    this.#stats = (this.options.stats ? new StatsRecorder() : null);
+    this.lockId = nextLockId();
   }
 
   /**
@@ -134,14 +347,30 @@ export default class Semaphore {
     return this.#maxConcurrent;
   }
 
+  /**
+   * Number of slots currently available. Below 0 while the holders still
+   * exceed a lowered `maxConcurrent`.
+   */
+  get available():number {
+    return this.#allowed;
+  }
+
   /**
    * Is this semaphore currently locked?
    * 
-   * This is true when the `maxConcurrent` users has been achieved and any
-   * further aquires must wait until an existing lock is released.
+   * This is true when the `maxConcurrent` users has been achieved, or others
+   * are already waiting in line, and any further aquires must wait until an
+   * existing lock is released.
    */
   get isLocked():boolean {
-    return (this.#allowed <= 0);
+    return (this.#allowed <= 0 || this.#queue.length > 0);
+  }
+
+  /**
+   * Has this Semaphore been closed to new acquisitions?
+   */
+  get isClosed():boolean {
+    return this.#closed;
   }
 
   /**
@@ -160,6 +389,26 @@ export default class Semaphore {
    * error set in the options when the `Semaphore` was constructed (defaults to
    * `ErrCancelled`).
    * 
+   * If a `timeout` is given (or set in the constructor options) and no slot
+   * becomes available in time, the promise is rejected with
+   * {@link ErrTimeout} and the waiting acquisition is removed from the queue.
+   * Likewise, aborting the `signal` given in the options rejects just this
+   * waiting acquisition with the signal's reason.
+   * 
+   * Acquisitions may take more than one slot by giving a `weight`, either
+   * directly or within the options. Waiting acquisitions are granted strictly
+   * in order, so a heavy acquisition at the front of the line is never
+   * overtaken by lighter ones behind it. The releaser returns the whole weight
+   * by default, or part of it when given a number.
+   * 
+   * When a `ttl` is given, whatever is still held is released automatically
+   * once the acquisition has lasted that many milliseconds, and reported to
+   * `onExpire`. The releaser exposes `expiresAt`, and `extend()` to push the
+   * expiry back. Calling it after the hold expired does nothing.
+   * 
+   * Once the Semaphore is closed via {@link Semaphore.close} or
+   * {@link Semaphore.drain}, the promise is rejected with {@link ErrClosed}.
+   * 
    * ---------------------------------------------------------------------------
    * 
    * ```
@@ -184,31 +433,134 @@ export default class Semaphore {
    *    release();
    *  })
    *  .catch(err => console.error(err.message));
+   * 
+   * // With a timeout
+   * const [ release ] = await sem.acquire({ timeout: 1000 });
+   * 
+   * // Taking 4 slots, and giving them back in parts
+   * const [ release ] = await sem.acquire(4);
+   * release(3);
+   * release();
+   * 
+   * // Released after 30 seconds at the latest
+   * const [ release ] = await sem.acquire({ ttl: 30000 });
    * ```
    * 
    * ---------------------------------------------------------------------------
    * 
    * @see {@link Semaphore.guard} for a safer alternative
+   * @param options Optional settings for this acquisition, or a number as a
+   * shorthand for the weight
+   * @param options.weight Number of slots to take. **Default = 1**.
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this acquisition when
+   * aborted.
+   * @param options.priority Priority of this acquisition when using the
+   * `priority` queue discipline, higher numbers are granted first.
+   * @param options.ttl Milliseconds the slots may be held for before they
+   * are released automatically.
    * @returns Promise resolving to a tuple composed of the releaser function,
    * and the number of available slots on this Semaphore
    */
-  acquire():Promise<SemaphoreTicket> {
-    // Cache the lock status since the promise resolution might change it
-    const wasLocked = this.isLocked;
+  acquire(options?:(number|SemaphoreHoldOptions)):Promise<SemaphoreHoldTicket> {
+    const opts:SemaphoreHoldOptions = (typeof options === 'number' ? { weight: options } : (options ?? {}));
+
+    // Validate the weight and ttl before anything is queued
+    let weight:number;
+    try {
+      weight = this.#checkWeight(opts.weight);
+      checkTtl('Semaphore', opts.ttl);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    if(this.#closed)
+      return Promise.reject(ErrClosed);
+
+    // An already aborted signal never enters the queue
+    if(opts.signal?.aborted)
+      return Promise.reject(abortReason(opts.signal, this.options.errorCancelled));
+
+    const task = this.options.deadlockDetector?.currentTask();
+    const refused = this.#request(task, this.#queue.length > 0 || weight > this.#allowed);
+    if(refused)
+      return Promise.reject(refused);
 
     // Construct the returning promise
-    // eslint-disable-next-line no-promise-executor-return
-    const prom = new Promise<SemaphoreTicket>((res, rej) => this.#enque(res, rej));
+    const prom = new Promise<SemaphoreHoldTicket>((res, rej) => {
+      const entry = this.#enque(res, rej, weight, opts, task, acquisitionStack(this.options));
+
+      // If we wanted to listen, fire of an event
+      if(typeof this.options.onAquire === 'function')
+        this.options.onAquire();
+
+      // Let the queue through as far as it can go
+      this.#dispatch();
+
+      // Only waiting acquisitions need their timeout watched
+      if(this.#queue.has(entry))
+        this.#arm(entry, opts);
+    });
+
+    return prom;
+  }
+
+  /**
+   * Acquires usage of this Semaphore only if enough slots are available right
+   * now, without waiting.
+   * 
+   * Returns the ticket tuple when acquired, or `null` if there are not enough
+   * slots free or other acquisitions are already waiting in line. This never
+   * enters the queue, so the same rules about calling the releaser as
+   * {@link Semaphore.acquire} apply when it succeeds.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const ticket = sem.tryAcquire();
+   * if(ticket) {
+   *    const [ release, available ] = ticket;
+   *    // Lock is acquired and work can be performed
+   *    ...
+   *    release();
+   * }
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @throws {TypeError} If the weight is not a positive integer, or the ttl
+   * is not a positive number
+   * @throws {SynchroError} If the weight exceeds the maxConcurrent, or
+   * {@link ErrClosed} if the Semaphore is closed
+   * @param options Optional weight, either as a number or within an options
+   * object along with the `ttl`. **Default = 1**.
+   * @returns The ticket tuple, or null if the slots are not available
+   */
+  tryAcquire(options?:(number|Pick<SemaphoreHoldOptions, 'weight' | 'ttl'>)):(SemaphoreHoldTicket|null) {
+    const opts = (typeof options === 'number' ? { weight: options } : (options ?? {}));
+    const weight = this.#checkWeight(opts.weight);
+    checkTtl('Semaphore', opts.ttl);
+    if(this.#closed)
+      throw ErrClosed;
+
+    // Respect anyone already waiting in line
+    if(this.#queue.length > 0 || weight > this.#allowed)
+      return null;
 
     // If we wanted to listen, fire of an event
     if(typeof this.options.onAquire === 'function')
       this.options.onAquire();
 
-    // If there was no lock, start dispatching the queue
-    if(!wasLocked)
-      this.#dispatch();
+    this.#stats?.granted();
 
-    return prom;
+    // Trying never waits, so it can not deadlock but still holds the slots
+    const task = this.options.deadlockDetector?.currentTask();
+    if(task)
+      this.options.deadlockDetector?.granted(task, this);
+
+    this.#allowed -= weight;
+    return makeTicket(this.#makeReleaser(weight, task, acquisitionStack(this.options), opts.ttl), this.#allowed);
   }
 
   /**
@@ -256,10 +608,58 @@ export default class Semaphore {
    * @param cb Callback function executed when acquisition is available, the
    * callback receives a number as its parameter equal to the number of
    * available slots.
+   * @param options Optional settings for the acquisition, such as it's
+   * `weight`, see {@link Semaphore.acquire}
    * @returns Promise resolving to the results of the callback function
    */
-  async guard<T = any>(cb:SemaphoreLockCB<T>):Promise<T> {
-    const [ release, avail ] = await this.acquire();
+  async guard<T = any>(cb:SemaphoreLockCB<T>, options?:SemaphoreHoldOptions):Promise<T> {
+    // Deadlock detection needs a task to track
+    const detector = this.options.deadlockDetector;
+    if(detector && !detector.currentTask())
+      return detector.runTask(() => this.guard(cb, options));
+
+    const [ release, avail ] = await this.acquire(options);
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs the callback guarded by this Semaphore only if the slots can be
+   * acquired right now, see {@link Semaphore.tryAcquire}.
+   * 
+   * When there are not enough slots available the callback is not executed,
+   * and the promise resolves to the {@link Skipped} sentinel instead of the
+   * callbacks results.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const results = await sem.tryGuard(available => doWork());
+   * if(results === Skipped)
+   *    console.log('too busy, skipped');
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param cb Callback function executed if the acquisition is made, it
+   * receives the number of available slots.
+   * @param options Optional settings such as the `weight` to acquire, and the
+   * `ttl` of the hold.
+   * @returns Promise resolving to the results of the callback function, or
+   * `Skipped` if there where not enough slots available
+   */
+  async tryGuard<T = any>(cb:SemaphoreLockCB<T>, options?:Pick<SemaphoreHoldOptions, 'weight' | 'ttl'>):Promise<T|SkippedType> {
+    const ticket = this.tryAcquire(options);
+    if(!ticket)
+      return Skipped;
+
+    const [ release, avail ] = ticket;
 
     let value:T;
     try {
@@ -270,67 +670,448 @@ export default class Semaphore {
     return value;
   }
 
+  /**
+   * Processes every item of the source with the mapper, each one holding an
+   * acquisition of this Semaphore while it runs. The results are resolved in
+   * the same order as the source, regardless of which items finish first.
+   * 
+   * Items are only pulled from the source once a slot is acquired for them, so
+   * async iterables (such as paginated API results or streams) are consumed
+   * lazily and only as many items as can run are held in memory.
+   * 
+   * By default the first error thrown stops any more items from starting, and
+   * the promise rejects with it. Using `errors: 'collect'` instead processes
+   * every item and rejects with an `AggregateError` of all the errors.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const sem = new Semaphore(4);
+   * 
+   * const pages = await sem.map(urls, async url => {
+   *    const res = await fetch(url);
+   *    return res.text();
+   * });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param source The items to process, an iterable or async iterable
+   * @param fn The mapper processing each item, receiving the item and it's
+   * index in the source.
+   * @param options Optional settings for processing, and for each acquisition
+   * such as the `weight` or `timeout`.
+   * @param options.errors Either `fail-fast` or `collect`.
+   * @returns Promise resolving to the results in input order
+   */
+  map<T, R>(source:ConcurrentSource<T>, fn:ConcurrentMapper<T, R>, options?:ConcurrentOptions):Promise<R[]> {
+    return semaphoreMap(this, source, fn, options);
+  }
+
+  /**
+   * Performs the callback for every item of the source, each one holding an
+   * acquisition of this Semaphore while it runs. Works like
+   * {@link Semaphore.map} without collecting the results.
+   * 
+   * @param source The items to process, an iterable or async iterable
+   * @param fn The callback performed for each item
+   * @param options Optional settings for processing, and for each acquisition
+   * @returns Promise resolving once every item is processed
+   */
+  async forEach<T>(
+    source:ConcurrentSource<T>,
+    fn:ConcurrentMapper<T, unknown>,
+    options?:ConcurrentOptions,
+  ):Promise<void> {
+    await semaphoreMap(this, source, fn, options, false);
+  }
+
+  /**
+   * Processes every item of the source with the mapper like
+   * {@link Semaphore.map}, but never rejects because of the mapper. Instead
+   * the outcome of each item is resolved in input order, in the same shape as
+   * `Promise.allSettled`.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const outcomes = await sem.allSettled(files, file => upload(file));
+   * const failed = outcomes.filter(({ status }) => status === 'rejected');
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param source The items to process, an iterable or async iterable
+   * @param fn The mapper processing each item
+   * @param options Optional settings for each acquisition
+   * @returns Promise resolving to the outcome of each item in input order
+   */
+  allSettled<T, R>(
+    source:ConcurrentSource<T>,
+    fn:ConcurrentMapper<T, R>,
+    options?:Omit<ConcurrentOptions, 'errors'>,
+  ):Promise<Array<PromiseSettledResult<R>>> {
+    return semaphoreMap(this, source, settled(fn), options);
+  }
+
   /**
    * Cancels all queued locks by rejecting their promises.
    * 
-   * The error returned is the one set in the options when the Semaphore was
-   * constructed. This defaults to {@link ErrCancelled}.
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
    * 
-   * After cancelling, the queue, and available slots are reset.
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the Semaphore constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * After cancelling, the queue is emptied. Locks that are currently held keep
+   * their slots until they are released.
+   * 
+   * @param err Optional custom error to throw
    */
-  cancelAll():void {
+  cancelAll(err?:Error):void {
     // Reject each of the waiting promises in the queue and empty it
-    this.#queue.forEach(({ reject }) => reject(this.options.errorCancelled ?? ErrCancelled));
-    this.#queue = [];
+    this.#queue.clear().forEach(entry => {
+      const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
 
-    // Reset the allowed value for better concurrent
-    this.#allowed = this.#maxConcurrent;
+      entry.disarm?.();
+      this.#withdraw(entry.task);
+      this.#stats?.cancelled(reason);
+      entry.reject(reason);
+    });
+
+    // Waiting for free slots may have only been held up by the queue
+    this.#unlocked.check();
 
     // Call the onCancel asked for
     if(typeof this.options.onCancel === 'function')
       this.options.onCancel();
   }
 
-  #enque(resolve:SemaphoreResolver, reject:LockRejector):void {
-    this.#queue.push({
+  /**
+   * Closes this Semaphore, refusing any further acquisitions by rejecting them
+   * with {@link ErrClosed}, and cancels the waiting acquisitions as
+   * {@link Semaphore.cancelAll} does. Slots that are currently held stay held
+   * until they are released, use {@link Semaphore.onIdle} to wait for them.
+   * 
+   * Closing an already closed Semaphore only cancels the waiting acquisitions
+   * again.
+   * 
+   * @param err Optional custom error to reject the waiting acquisitions with,
+   * defaults to {@link ErrClosed}
+   */
+  close(err?:Error):void {
+    this.#closed = true;
+    this.cancelAll(err ?? ErrClosed);
+  }
+
+  /**
+   * Gracefully closes this Semaphore. Further acquisitions are refused with
+   * {@link ErrClosed}, while the acquisitions already waiting are still
+   * granted in turn.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * process.on('SIGTERM', async () => {
+   *    await sem.drain();
+   *    process.exit(0);
+   * });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @returns Promise resolving once every slot has been released
+   */
+  drain():Promise<void> {
+    this.#closed = true;
+    return this.onIdle();
+  }
+
+  /**
+   * Waits until this Semaphore is idle, with no slots held and no
+   * acquisitions waiting. This does not close the Semaphore, so it may be
+   * acquired again right after.
+   * 
+   * @returns Promise resolving once the Semaphore is idle
+   */
+  onIdle():Promise<void> {
+    return this.#unlocked.wait(() => (this.#holders === 0 && this.#queue.length === 0));
+  }
+
+  /**
+   * Waits until `weight` slots are free and nobody is waiting in line,
+   * without acquiring them.
+   * 
+   * The slots are not reserved for the caller, so they may be taken by
+   * somebody else before the caller gets to run. Use
+   * {@link Semaphore.tryAcquire} to take them only if they are still free.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * await sem.waitForUnlock({ weight: 2, timeout: 1000 });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional weight, either as a number or within an options
+   * object along with the `timeout` and `signal`, see
+   * {@link Semaphore.acquire}. **Default = 1**.
+   * @returns Promise resolving once the slots are free
+   */
+  waitForUnlock(options?:(number|Pick<SemaphoreAcquireOptions, 'weight' | 'timeout' | 'signal'>)):Promise<void> {
+    const opts = (typeof options === 'number' ? { weight: options } : (options ?? {}));
+
+    let weight:number;
+    try {
+      weight = this.#checkWeight(opts.weight);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return this.#unlocked.wait(() => (this.#queue.length === 0 && weight <= this.#allowed), {
+      timeout: opts.timeout ?? this.options.timeout,
+      signal: opts.signal,
+    }, this.options.errorCancelled);
+  }
+
+  /**
+   * Acquires usage of this Semaphore, same as {@link Semaphore.acquire}, but
+   * resolving with just the releaser. Used by {@link withLocks} to acquire
+   * any kind of lock.
+   * 
+   * @param options Optional settings for this acquisition, including the
+   * `weight` to take
+   * @returns Promise resolving with the releaser
+   */
+  acquireLock(options?:SemaphoreAcquireOptions):Promise<LockHandle> {
+    return this.acquire(options).then(([ release ]) => release);
+  }
+
+  /**
+   * Changes the number of allowed concurrent users while in use.
+   * 
+   * Growing the limit dispatches the waiting acquisitions that now fit right
+   * away. Shrinking it never takes slots from the current holders, instead no
+   * further acquisitions are granted until enough holders have released to be
+   * within the new limit. Waiting acquisitions heavier than the new limit are
+   * rejected with a {@link SynchroError} once they reach the front of the
+   * line, as they could never be granted.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * config.on('change', ({ workers }) => sem.setMaxConcurrent(workers));
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @throws {TypeError} If the limit is not a positive integer
+   * @param maxConcurrent The new number of allowed concurrent users
+   */
+  setMaxConcurrent(maxConcurrent:number):void {
+    if(typeof maxConcurrent !== 'number' || !Number.isInteger(maxConcurrent) || maxConcurrent < 1)
+      throw new TypeError(`Semaphore was given a maxConcurrent of "${maxConcurrent}", a positive integer is required`);
+
+    // Slots in use stay in use, so the available slots may go negative
+    this.#allowed += maxConcurrent - this.#maxConcurrent;
+    this.#maxConcurrent = maxConcurrent;
+
+    this.#dispatch();
+  }
+
+  /**
+   * Gets a snapshot of how contended this Semaphore is. The totals and
+   * distributions are only recorded when the `stats` option is enabled,
+   * otherwise they are all 0.
+   * 
+   * The `holders` are the number of acquisitions currently holding slots,
+   * regardless of their weight.
+   * 
+   * @returns The statistics snapshot
+   */
+  stats():LockStats {
+    return this.#stats?.snapshot(this.#holders, this.#queue.length) ?? emptyStats(this.#holders, this.#queue.length);
+  }
+
+  /**
+   * Resets the recorded totals and distributions back to 0.
+   */
+  resetStats():void {
+    if(this.#stats)
+      this.#stats = new StatsRecorder();
+  }
+
+  #checkWeight(weight?:number):number {
+    const value = weight ?? 1;
+    if(typeof value !== 'number' || !Number.isInteger(value) || value < 1)
+      throw new TypeError(`Semaphore was given a weight of "${value}", a positive integer is required`);
+    else if(value > this.#maxConcurrent)
+      throw new SynchroError(`Semaphore was given a weight of ${value} which exceeds the maxConcurrent of ${this.#maxConcurrent}`);
+    return value;
+  }
+
+  #request(task:(Task|undefined), willWait:boolean):(Error|null) {
+    if(!task || !this.options.deadlockDetector)
+      return null;
+
+    return this.options.deadlockDetector.request(task, this, this.options.name, willWait);
+  }
+
+  #withdraw(task?:Task):void {
+    if(task)
+      this.options.deadlockDetector?.withdraw(task, this);
+  }
+
+  #enque(
+    resolve:SemaphoreResolver<SemaphoreHoldTicket>,
+    reject:LockRejector,
+    weight:number,
+    options:SemaphoreHoldOptions,
+    task?:Task,
+    stack?:(string|null),
+  ):HoldQueuedPromise {
+    const entry:HoldQueuedPromise = {
       resolve,
       reject,
-    } as SemaphoreQueuedPromise);
+      weight,
+      task,
+      stack,
+      ttl: options.ttl,
+    };
+    this.#queue.push(entry, options.priority);
+    this.#stats?.queued(entry);
+
+    return entry;
+  }
+
+  #arm(entry:HoldQueuedPromise, options?:LockOptions):void {
+    entry.disarm = armWaiter({
+      timeout: options?.timeout ?? this.options.timeout,
+      signal: options?.signal,
+    }, err => {
+      // Remove the waiter so it is never handed a ticket later
+      const wasNext = (this.#queue.peek() === entry);
+      if(!this.#queue.remove(entry))
+        return;
+
+      this.#withdraw(entry.task);
+      this.#stats?.cancelled(err);
+      entry.reject(err);
 
-    this.#allowed--;
+      // The waiter may have been holding up lighter ones behind it
+      if(wasNext)
+        this.#dispatch();
+    }, this.options.errorCancelled);
   }
 
   #dispatch():void {
-    // Grab the first enqueued entry in the line, or short-circuit if none
-    const next:(SemaphoreQueuedPromise|undefined) = this.#queue.shift();
-    if(!next)
-      return;
+    /*
+     * Grant from the front of the line for as long as the weights fit. Stopping
+     * at the first that doesn't fit keeps heavy waiters from starving. The
+     * peeked entry is removed by identity, since an aging queue may order
+     * it's entries differently by the time it would be shifted.
+     */
+    while(this.#queue.length > 0) {
+      const head = this.#queue.peek() as HoldQueuedPromise;
+
+      // Shrinking the limit may have left waiters that can never be granted
+      if(head.weight > this.#maxConcurrent) {
+        const err = new SynchroError(`Semaphore was given a weight of ${head.weight} which exceeds the maxConcurrent of ${this.#maxConcurrent}`);
+
+        this.#queue.remove(head);
+        head.disarm?.();
+        this.#withdraw(head.task);
+        this.#stats?.cancelled(err);
+        head.reject(err);
+        continue;
+      }
 
-    // Save the released state for the releaser
-    let released = false;
+      if(head.weight > this.#allowed)
+        break;
 
-    // Make the releaser function for resolving
-    const releaser = () => {
+      this.#queue.remove(head);
+
+      // Stop watching the timeout, since the slots are now acquired
+      head.disarm?.();
+
+      this.#allowed -= head.weight;
+
+      if(head.task)
+        this.options.deadlockDetector?.granted(head.task, this);
+
+      this.#stats?.granted(head);
+
+      // Construct the ticket tuple and resolve the waiting promise
+      const ticket = makeTicket(this.#makeReleaser(head.weight, head.task, head.stack, head.ttl), this.#allowed);
+      head.resolve(ticket);
+    }
+
+    this.#unlocked.check();
+  }
+
+  #makeReleaser(weight:number, task?:Task, stack?:(string|null), ttl?:number):(SemaphoreReleaser & HoldExpiry) {
+    // Track how much of the weight is still held for partial releases
+    let held = weight;
+    let watcher:(HoldWatcher|null) = null;
+    let timer:(HoldTimer|null) = null;
+    const grantedAt = Date.now();
+
+    this.#holders++;
+
+    const release = (amount?:number):void => {
       // Shortcut out if already released
-      if(released)
+      if(held <= 0)
         return;
-      released = true;
+
+      // Never give back more than is still held
+      const releasing = releasingWeight('Semaphore', held, amount);
+      held -= releasing;
+
+      if(held <= 0) {
+        watcher?.done();
+        timer?.stop();
+        this.#holders--;
+        this.#stats?.released(grantedAt);
+      }
+
+      if(held <= 0 && task)
+        this.options.deadlockDetector?.released(task, this);
 
       // Increment available slots
-      this.#allowed++;
+      this.#allowed += releasing;
 
       // If we wanted to listen, fire of the event
       if(typeof this.options.onRelease === 'function')
         this.options.onRelease();
 
-      // Recursivly dispatch the next lock
+      // Dispatch the next locks that now fit
       this.#dispatch();
     };
 
-    // Construct the ticket tuple
-    const ticket:SemaphoreTicket = [ releaser, this.#allowed ];
+    // Expiring gives back only what is still held, like releasing in full
+    timer = expireHold(ttl, () => {
+      const expired = held;
+      release();
+
+      if(typeof this.options.onExpire === 'function') {
+        this.options.onExpire({
+          name: this.options.name,
+          task,
+          weight: expired,
+          heldFor: Date.now() - grantedAt,
+        });
+      }
+    });
+
+    watcher = watchHold(this.options, () => release(), stack ?? null, this.options.name);
+    if(!watcher)
+      return attachExpiry(release, timer);
 
-    // Resolve the waiting promise
-    next.resolve(ticket);
+    // Hand out a separate function, so the watcher notices it being collected
+    const releaser = attachExpiry((amount?:number):void => release(amount), timer);
+    watcher.track(releaser);
+    return releaser;
   }
 }
@@ -0,0 +1,282 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { ErrCancelled } from './errors';
+import type { MutexLockCB, MutexOptions } from './mutex';
+import {
+  LockHandle,
+  LockOptions,
+  Skipped,
+  SkippedType,
+} from './types';
+import { makeHandle } from './disposable';
+import {
+  SharedWaiter,
+  checkWaitAsync,
+  parkShared,
+  sharedState,
+  waitShared,
+} from './atomics';
+
+/**
+ * Value of the shared state while unlocked
+ */
+const UNLOCKED = 0;
+
+/**
+ * Value of the shared state while locked
+ */
+const LOCKED = 1;
+
+/**
+ * Options available for SharedMutex objects, which are the same as the
+ * in-process {@link Mutex} where they apply.
+ */
+export type SharedMutexOptions = Pick<MutexOptions, 'onLock' | 'onRelease' | 'onCancel' | 'errorCancelled' | 'timeout'>;
+
+/**
+ * Single-user concurrency lock shared between `worker_threads`. The state
+ * lives in a `SharedArrayBuffer`, which can be posted to workers and rebuilt
+ * with {@link SharedMutex.from}. Waiting uses `Atomics.waitAsync`, so it never
+ * blocks the thread.
+ * 
+ * The API matches {@link Mutex}, except that waiters in different threads
+ * are not granted in any particular order.
+ */
+export default class SharedMutex {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * SharedMutex object.
+   */
+  public static readonly DefaultOptions:SharedMutexOptions = { errorCancelled: ErrCancelled };
+
+  /**
+   * Number of bytes of shared memory a SharedMutex needs
+   */
+  public static readonly BYTE_LENGTH = Int32Array.BYTES_PER_ELEMENT;
+
+  /**
+   * Options dictating how this mutex will work
+   */
+  options:SharedMutexOptions;
+
+  /**
+   * View of the lock state in the shared memory
+   */
+  readonly #state:Int32Array;
+
+  /**
+   * Lock attempts of this thread currently waiting
+   */
+  #waiters = new Set<SharedWaiter>();
+
+  /**
+   * Rebuilds a SharedMutex from the buffer of another one, such as inside a
+   * worker the buffer was posted to.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * // Main thread
+   * const mtx = new SharedMutex();
+   * const worker = new Worker('./worker.js', { workerData: mtx.buffer });
+   * 
+   * // worker.js
+   * const mtx = SharedMutex.from(workerData);
+   * await mtx.guard(() => updateSharedState());
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param buffer The `buffer` of the original SharedMutex
+   * @param options Additional settings for this thread's SharedMutex
+   * @returns SharedMutex using the same lock state
+   */
+  static from(buffer:SharedArrayBuffer, options?:SharedMutexOptions):SharedMutex {
+    return new SharedMutex(options, buffer);
+  }
+
+  /**
+   * @throws {TypeError} If `Atomics.waitAsync` is not supported, or the buffer
+   * is not a big enough SharedArrayBuffer
+   * @param options Additional settings for SharedMutex operation.
+   * @param options.onLock Function which is called when a lock is acquired.
+   * @param options.onRelease Function which is called whenever a lock is
+   * released/unlocked
+   * @param options.onCancel Function called when the waiting locks of this
+   * thread have been cancelled by `cancelAll`.
+   * @param options.errorCancelled Error object that is thrown when the promises
+   * are rejected via `cancelAll`.
+   * @param options.timeout Default milliseconds to wait for a lock before
+   * rejecting with `ErrTimeout`.
+   * @param buffer Shared memory holding the state, a new buffer is allocated
+   * when not given. Use {@link SharedMutex.from} to share one instead.
+   */
+  constructor(options?:SharedMutexOptions, buffer?:SharedArrayBuffer) {
+    // Bind methods
+    this.lock = this.lock.bind(this);
+    this.tryLock = this.tryLock.bind(this);
+    this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    checkWaitAsync('SharedMutex');
+    this.#state = sharedState('SharedMutex', buffer ?? new SharedArrayBuffer(SharedMutex.BYTE_LENGTH), 1);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...SharedMutex.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Shared memory holding the state, to be posted to other threads
+   */
+  get buffer():SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Determines if the lock is held, by any thread
+   */
+  get isLocked():boolean {
+    return Atomics.load(this.#state, 0) === LOCKED;
+  }
+
+  /**
+   * Number of lock attempts of this thread currently waiting
+   */
+  get waiting():number {
+    return this.#waiters.size;
+  }
+
+  /**
+   * Locks this Mutex, waiting until it is released by whichever thread holds
+   * it. See {@link Mutex.lock}.
+   * 
+   * @param options Optional settings for this lock attempt
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this lock attempt when
+   * aborted.
+   * @returns Promise resolving with the unlock releaser
+   */
+  lock(options?:LockOptions):Promise<LockHandle> {
+    return waitShared({
+      take: this.tryLock,
+      park: () => parkShared(this.#state, 0, LOCKED),
+      pass: () => Atomics.notify(this.#state, 0, 1),
+    }, this.#waiters, {
+      timeout: options?.timeout ?? this.options.timeout,
+      signal: options?.signal,
+    }, this.options.errorCancelled);
+  }
+
+  /**
+   * Locks this Mutex only if it is available right now, see
+   * {@link Mutex.tryLock}.
+   * 
+   * @returns The unlock releaser, or null if the Mutex is locked
+   */
+  tryLock():(LockHandle|null) {
+    if(Atomics.compareExchange(this.#state, 0, UNLOCKED, LOCKED) !== UNLOCKED)
+      return null;
+
+    // Fire off the event if we are listening
+    if(typeof this.options.onLock === 'function')
+      this.options.onLock();
+
+    return this.#makeReleaser();
+  }
+
+  /**
+   * Performs the lock and releasing for you, see {@link Mutex.guard}.
+   * 
+   * @param cb Callback function executed when the lock is acquired
+   * @param options Optional settings for the lock attempt
+   * @returns Promise resolving to the results returned by the callback
+   */
+  async guard<T = any>(cb:MutexLockCB<T>, options?:LockOptions):Promise<T> {
+    const release = await this.lock(options);
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs the callback only if the lock is available right now, see
+   * {@link Mutex.tryGuard}.
+   * 
+   * @param cb Callback function executed if the lock is acquired
+   * @returns Promise resolving to the results returned by the callback, or
+   * `Skipped` if the Mutex was locked
+   */
+  async tryGuard<T = any>(cb:MutexLockCB<T>):Promise<T|SkippedType> {
+    const release = this.tryLock();
+    if(!release)
+      return Skipped;
+
+    let value:T;
+    try {
+      value = await cb();
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels the waiting locks of this thread by rejecting their promises.
+   * Waiters in other threads, and the current holder, are not affected.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
+    this.#waiters.forEach(waiter => waiter.cancel(reason));
+
+    // Fire the event is asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  #makeReleaser():LockHandle {
+    // Cache the released state
+    let released = false;
+
+    return makeHandle(():void => {
+      // Short-circuit out if already released
+      if(released)
+        return;
+      released = true;
+
+      Atomics.store(this.#state, 0, UNLOCKED);
+      Atomics.notify(this.#state, 0, 1);
+
+      // Fire off the event if we are listening
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+    });
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled } from './errors';
+import {
+  SemaphoreAcquireOptions,
+  SemaphoreLockCB,
+  SemaphoreOptions,
+  SemaphoreReleaser,
+  SemaphoreTicket,
+  makeTicket,
+  releasingWeight,
+} from './semaphore';
+import { Skipped, SkippedType } from './types';
+import {
+  SharedWaiter,
+  checkWaitAsync,
+  parkShared,
+  sharedState,
+  waitShared,
+} from './atomics';
+
+/**
+ * Index of the available slots in the shared state
+ */
+const AVAILABLE = 0;
+
+/**
+ * Index of the maximum concurrency in the shared state
+ */
+const MAX_CONCURRENT = 1;
+
+/**
+ * Options available for SharedSemaphore objects, which are the same as the
+ * in-process {@link Semaphore} where they apply.
+ */
+export type SharedSemaphoreOptions = Pick<SemaphoreOptions, 'onAquire' | 'onRelease' | 'onCancel' | 'errorCancelled' | 'timeout'>;
+
+/**
+ * Multi-user concurrency lock shared between `worker_threads`. The state
+ * lives in a `SharedArrayBuffer`, which can be posted to workers and rebuilt
+ * with {@link SharedSemaphore.from}. Waiting uses `Atomics.waitAsync`, so it
+ * never blocks the thread.
+ * 
+ * The API matches {@link Semaphore}, including weighted acquisitions, except
+ * that waiters are not granted in any particular order. A heavy acquisition
+ * may be overtaken by lighter ones while it waits.
+ */
+export default class SharedSemaphore {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * SharedSemaphore object.
+   */
+  public static readonly DefaultOptions:SharedSemaphoreOptions = { errorCancelled: ErrCancelled };
+
+  /**
+   * Number of bytes of shared memory a SharedSemaphore needs
+   */
+  public static readonly BYTE_LENGTH = 2 * Int32Array.BYTES_PER_ELEMENT;
+
+  /**
+   * Options dictating how this semaphore will work
+   */
+  options:SharedSemaphoreOptions;
+
+  /**
+   * View of the available slots and maximum concurrency in the shared memory
+   */
+  readonly #state:Int32Array;
+
+  /**
+   * Acquisitions of this thread currently waiting
+   */
+  #waiters = new Set<SharedWaiter>();
+
+  /**
+   * Rebuilds a SharedSemaphore from the buffer of another one, such as inside
+   * a worker the buffer was posted to. The maximum concurrency is taken from
+   * the buffer.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * // Main thread
+   * const sem = new SharedSemaphore(4);
+   * const worker = new Worker('./worker.js', { workerData: sem.buffer });
+   * 
+   * // worker.js
+   * const sem = SharedSemaphore.from(workerData);
+   * await sem.guard(() => callRateLimitedApi());
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param buffer The `buffer` of the original SharedSemaphore
+   * @param options Additional settings for this thread's SharedSemaphore
+   * @returns SharedSemaphore using the same state
+   */
+  static from(buffer:SharedArrayBuffer, options?:SharedSemaphoreOptions):SharedSemaphore {
+    return new SharedSemaphore(sharedState('SharedSemaphore', buffer, 2)[MAX_CONCURRENT], options, buffer);
+  }
+
+  /**
+   * @throws {TypeError} If `Atomics.waitAsync` is not supported, or the buffer
+   * is not a big enough SharedArrayBuffer
+   * @param maxConcurrent Positive integer of the maximum number of concurrent
+   * users of this Semaphore. **Default = 1**.
+   * @param options Additional settings declaring how this semaphore operates.
+   * @param options.onAquire Function which is called when ever an aquisition
+   * is made.
+   * @param options.onRelease Function which is called when ever a lock
+   * releases.
+   * @param options.onCancel Function which is called after the waiting
+   * acquisitions of this thread are cancelled.
+   * @param options.errorCancelled The error value thrown to each acquisition
+   * when they are cancelled.
+   * @param options.timeout Default milliseconds to wait for an acquisition
+   * before rejecting with `ErrTimeout`.
+   * @param buffer Shared memory holding the state, a new buffer is allocated
+   * when not given. Use {@link SharedSemaphore.from} to share one instead.
+   */
+  constructor(maxConcurrent?:number, options?:SharedSemaphoreOptions, buffer?:SharedArrayBuffer) {
+    // Bind methods
+    this.acquire = this.acquire.bind(this);
+    this.tryAcquire = this.tryAcquire.bind(this);
+    this.guard = this.guard.bind(this);
+    this.tryGuard = this.tryGuard.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    const max = maxConcurrent ?? 1;
+    if(typeof max !== 'number' || !Number.isInteger(max) || max < 1)
+      throw new TypeError(`SharedSemaphore was constructed with maxConcurrent of "${max}", a positive integer is required`);
+
+    checkWaitAsync('SharedSemaphore');
+    if(buffer) {
+      this.#state = sharedState('SharedSemaphore', buffer, 2);
+    } else {
+      this.#state = sharedState('SharedSemaphore', new SharedArrayBuffer(SharedSemaphore.BYTE_LENGTH), 2);
+      this.#state[AVAILABLE] = max;
+      this.#state[MAX_CONCURRENT] = max;
+    }
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...SharedSemaphore.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Shared memory holding the state, to be posted to other threads
+   */
+  get buffer():SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Maximum number of concurrent users
+   */
+  get maxConcurrent():number {
+    return Atomics.load(this.#state, MAX_CONCURRENT);
+  }
+
+  /**
+   * Number of slots currently available, across all threads
+   */
+  get available():number {
+    return Atomics.load(this.#state, AVAILABLE);
+  }
+
+  /**
+   * Determines if all of the slots are taken
+   */
+  get isLocked():boolean {
+    return this.available <= 0;
+  }
+
+  /**
+   * Number of acquisitions of this thread currently waiting
+   */
+  get waiting():number {
+    return this.#waiters.size;
+  }
+
+  /**
+   * Acquires slots of this Semaphore, waiting until enough are released by
+   * whichever threads hold them. See {@link Semaphore.acquire}.
+   * 
+   * @param options Optional settings for this acquisition, or a number as a
+   * shorthand for the weight
+   * @param options.weight Number of slots to take. **Default = 1**.
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this acquisition when
+   * aborted.
+   * @returns Promise resolving to a tuple composed of the releaser function,
+   * and the number of available slots
+   */
+  acquire(options?:(number|SemaphoreAcquireOptions)):Promise<SemaphoreTicket> {
+    const opts:SemaphoreAcquireOptions = (typeof options === 'number' ? { weight: options } : (options ?? {}));
+
+    // Validate the weight before anything waits
+    let weight:number;
+    try {
+      weight = this.#checkWeight(opts.weight);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return waitShared({
+      take: () => this.tryAcquire(weight),
+      park: () => {
+        const available = Atomics.load(this.#state, AVAILABLE);
+        return (available >= weight ? Promise.resolve() : parkShared(this.#state, AVAILABLE, available));
+      },
+    }, this.#waiters, {
+      timeout: opts.timeout ?? this.options.timeout,
+      signal: opts.signal,
+    }, this.options.errorCancelled);
+  }
+
+  /**
+   * Acquires slots of this Semaphore only if enough are available right now,
+   * see {@link Semaphore.tryAcquire}.
+   * 
+   * @throws {TypeError} If the weight is not a positive integer
+   * @throws {SynchroError} If the weight exceeds the maxConcurrent
+   * @param options Optional weight, either as a number or within an options
+   * object. **Default = 1**.
+   * @returns The ticket tuple, or null if the slots are not available
+   */
+  tryAcquire(options?:(number|Pick<SemaphoreAcquireOptions, 'weight'>)):(SemaphoreTicket|null) {
+    const weight = this.#checkWeight(typeof options === 'number' ? options : options?.weight);
+
+    // Another thread may take slots in between, so retry until settled
+    let available = Atomics.load(this.#state, AVAILABLE);
+    while(available >= weight) {
+      const previous = Atomics.compareExchange(this.#state, AVAILABLE, available, available - weight);
+      if(previous === available) {
+        // If we wanted to listen, fire of an event
+        if(typeof this.options.onAquire === 'function')
+          this.options.onAquire();
+
+        return makeTicket(this.#makeReleaser(weight), available - weight);
+      }
+      available = previous;
+    }
+
+    return null;
+  }
+
+  /**
+   * Performs the acquisition and releasing for you, see
+   * {@link Semaphore.guard}.
+   * 
+   * @param cb Callback function executed when acquisition is available, it
+   * receives the number of available slots.
+   * @param options Optional settings for the acquisition, such as it's
+   * `weight`
+   * @returns Promise resolving to the results of the callback function
+   */
+  async guard<T = any>(cb:SemaphoreLockCB<T>, options?:SemaphoreAcquireOptions):Promise<T> {
+    const [ release, avail ] = await this.acquire(options);
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Performs the callback only if the slots can be acquired right now, see
+   * {@link Semaphore.tryGuard}.
+   * 
+   * @param cb Callback function executed if the acquisition is made
+   * @param options Optional settings such as the `weight` to acquire.
+   * @returns Promise resolving to the results of the callback function, or
+   * `Skipped` if there where not enough slots available
+   */
+  async tryGuard<T = any>(cb:SemaphoreLockCB<T>, options?:Pick<SemaphoreAcquireOptions, 'weight'>):Promise<T|SkippedType> {
+    const ticket = this.tryAcquire(options);
+    if(!ticket)
+      return Skipped;
+
+    const [ release, avail ] = ticket;
+
+    let value:T;
+    try {
+      value = await cb(avail);
+    } finally {
+      release();
+    }
+    return value;
+  }
+
+  /**
+   * Cancels the waiting acquisitions of this thread by rejecting their
+   * promises. Waiters in other threads, and the current holders, are not
+   * affected.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const reason = err ?? this.options.errorCancelled ?? ErrCancelled;
+    this.#waiters.forEach(waiter => waiter.cancel(reason));
+
+    // Fire the event is asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  #checkWeight(weight?:number):number {
+    const value = weight ?? 1;
+    if(typeof value !== 'number' || !Number.isInteger(value) || value < 1)
+      throw new TypeError(`SharedSemaphore was given a weight of "${value}", a positive integer is required`);
+    else if(value > this.maxConcurrent)
+      throw new SynchroError(`SharedSemaphore was given a weight of ${value} which exceeds the maxConcurrent of ${this.maxConcurrent}`);
+    return value;
+  }
+
+  #makeReleaser(weight:number):SemaphoreReleaser {
+    // Track how much of the weight is still held for partial releases
+    let held = weight;
+
+    return (amount?:number):void => {
+      // Shortcut out if already released
+      if(held <= 0)
+        return;
+
+      // Never give back more than is still held
+      const releasing = releasingWeight('SharedSemaphore', held, amount);
+      held -= releasing;
+
+      // Every waiter checks again, since any of them may fit now
+      Atomics.add(this.#state, AVAILABLE, releasing);
+      Atomics.notify(this.#state, AVAILABLE);
+
+      // If we wanted to listen, fire of the event
+      if(typeof this.options.onRelease === 'function')
+        this.options.onRelease();
+    };
+  }
+}
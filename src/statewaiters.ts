@@ -0,0 +1,80 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import type { LockOptions, QueuedPromise } from './types';
+import { abortReason, armWaiter } from './waiter';
+
+/**
+ * Promise waiting for the state of a lock, such as becoming idle
+ */
+interface StateWaiter extends QueuedPromise<() => void> {
+
+  /**
+   * Determines if the state waited for is reached
+   */
+  ready:() => boolean;
+};
+
+/**
+ * Promises waiting for a lock to reach some state without acquiring it, such
+ * as being unlocked or idle. The lock calls `check()` whenever it's state
+ * changes, resolving the waiters whose state is reached.
+ */
+export default class StateWaiters {
+  /**
+   * Promises currently waiting
+   */
+  #waiters = new Set<StateWaiter>();
+
+  /**
+   * Waits until the state is reached, resolving straight away if it already
+   * is.
+   * 
+   * @param ready Determines if the state waited for is reached
+   * @param options Optional timeout and signal for giving up on waiting
+   * @param errorCancelled Error used when an aborted signal has no reason
+   * @returns Promise resolving once the state is reached
+   */
+  wait(ready:() => boolean, options?:LockOptions, errorCancelled?:Error):Promise<void> {
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, errorCancelled));
+    if(ready())
+      return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter:StateWaiter = {
+        resolve,
+        reject,
+        ready,
+      };
+      this.#waiters.add(waiter);
+
+      waiter.disarm = armWaiter(options ?? {}, err => {
+        if(this.#waiters.delete(waiter))
+          reject(err);
+      }, errorCancelled);
+    });
+  }
+
+  /**
+   * Resolves every waiter whose state is reached.
+   */
+  check():void {
+    this.#waiters.forEach(waiter => {
+      if(!waiter.ready())
+        return;
+
+      this.#waiters.delete(waiter);
+      waiter.disarm?.();
+      waiter.resolve();
+    });
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { ErrTimeout } from './errors';
+
+/**
+ * Summary of a series of durations, in milliseconds. All values are 0 when
+ * nothing has been recorded.
+ */
+export interface StatsDistribution {
+  count:number;
+  min:number;
+  max:number;
+  mean:number;
+  p50:number;
+  p90:number;
+  p99:number;
+};
+
+/**
+ * Snapshot of the contention statistics of a lock
+ */
+export interface LockStats {
+
+  /**
+   * Number of holds currently granted
+   */
+  holders:number;
+
+  /**
+   * Number of lock attempts currently waiting in the queue
+   */
+  waiting:number;
+
+  /**
+   * Total number of holds granted
+   */
+  acquisitions:number;
+
+  /**
+   * Total number of waiting lock attempts that where cancelled or aborted
+   */
+  cancellations:number;
+
+  /**
+   * Total number of waiting lock attempts that timed out
+   */
+  timeouts:number;
+
+  /**
+   * Milliseconds spent waiting before each hold was granted
+   */
+  waitTime:StatsDistribution;
+
+  /**
+   * Milliseconds each hold was held for before being released
+   */
+  holdTime:StatsDistribution;
+};
+
+/**
+ * Number of the most recent durations kept for calculating the percentiles
+ */
+const SAMPLE_SIZE = 1024;
+
+/**
+ * Records a series of durations. Count, min, max and mean cover everything
+ * recorded, while the percentiles are taken from the most recent samples.
+ */
+class DurationRecorder {
+  count = 0;
+
+  min = Infinity;
+
+  max = 0;
+
+  total = 0;
+
+  /**
+   * Ring buffer of the most recent samples
+   */
+  samples:number[] = [];
+
+  record(duration:number):void {
+    this.samples[this.count % SAMPLE_SIZE] = duration;
+    this.count++;
+    this.total += duration;
+    this.min = Math.min(this.min, duration);
+    this.max = Math.max(this.max, duration);
+  }
+
+  summarize():StatsDistribution {
+    if(this.count === 0) {
+      return {
+        count: 0,
+        min: 0,
+        max: 0,
+        mean: 0,
+        p50: 0,
+        p90: 0,
+        p99: 0,
+      };
+    }
+
+    const sorted = this.samples.slice().sort((left, right) => left - right);
+    const percentile = (fraction:number) => {
+      const rank = Math.ceil(fraction * sorted.length) - 1;
+      return sorted[Math.min(sorted.length - 1, rank)];
+    };
+
+    return {
+      count: this.count,
+      min: this.min,
+      max: this.max,
+      mean: this.total / this.count,
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+    };
+  }
+}
+
+/**
+ * Collects the contention statistics for a lock, created only when the `stats`
+ * option is enabled so that disabled locks pay nothing but a null check.
+ */
+export default class StatsRecorder {
+  acquisitions = 0;
+
+  cancellations = 0;
+
+  timeouts = 0;
+
+  waitTime = new DurationRecorder();
+
+  holdTime = new DurationRecorder();
+
+  /**
+   * Times the waiting entries where queued at
+   */
+  #queuedAt = new WeakMap<object, number>();
+
+  /**
+   * Records a lock attempt entering the queue.
+   * 
+   * @param entry The queued entry
+   */
+  queued(entry:object):void {
+    this.#queuedAt.set(entry, Date.now());
+  }
+
+  /**
+   * Records a hold being granted.
+   * 
+   * @param entry The queued entry that was granted, if it waited
+   */
+  granted(entry?:object):void {
+    const now = Date.now();
+
+    this.acquisitions++;
+    this.waitTime.record(now - ((entry && this.#queuedAt.get(entry)) ?? now));
+  }
+
+  /**
+   * Records a hold being released.
+   * 
+   * @param grantedAt The time the hold was granted at
+   */
+  released(grantedAt:number):void {
+    this.holdTime.record(Date.now() - grantedAt);
+  }
+
+  /**
+   * Records a waiting lock attempt being rejected.
+   * 
+   * @param err The error it was rejected with
+   */
+  cancelled(err:Error):void {
+    if(err === ErrTimeout)
+      this.timeouts++;
+    else
+      this.cancellations++;
+  }
+
+  /**
+   * Creates a snapshot of the statistics.
+   * 
+   * @param holders Number of holds currently granted
+   * @param waiting Number of lock attempts currently waiting
+   * @returns The snapshot
+   */
+  snapshot(holders:number, waiting:number):LockStats {
+    return {
+      holders,
+      waiting,
+      acquisitions: this.acquisitions,
+      cancellations: this.cancellations,
+      timeouts: this.timeouts,
+      waitTime: this.waitTime.summarize(),
+      holdTime: this.holdTime.summarize(),
+    };
+  }
+}
+
+/**
+ * Creates a snapshot for a lock that is not recording statistics, holding
+ * only the current state.
+ * 
+ * @param holders Number of holds currently granted
+ * @param waiting Number of lock attempts currently waiting
+ * @returns The snapshot
+ */
+export function emptyStats(holders:number, waiting:number):LockStats {
+  return new StatsRecorder().snapshot(holders, waiting);
+}
@@ -0,0 +1,296 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { Socket, connect } from 'net';
+
+import { LeaseLostError, LockBackendError } from './errors';
+import type { LockBackend, LockLease } from './backend';
+import type { LockRequest, LockResponse } from './lockserver';
+
+/**
+ * Options available for TcpBackend objects
+ */
+export interface TcpBackendOptions {
+
+  /**
+   * Port the {@link LockServer} listens on
+   */
+  port:number;
+
+  /**
+   * Host the {@link LockServer} runs on. **Default = '127.0.0.1'**.
+   */
+  host ?: string;
+
+  /**
+   * Milliseconds to wait for the server to answer a request before rejecting
+   * with a {@link LockBackendError}. **Default = 5000**.
+   */
+  timeout ?: number;
+};
+
+/**
+ * Request waiting for it's response from the server
+ */
+interface PendingRequest {
+  resolve:(response:LockResponse) => void;
+  reject:(err:Error) => void;
+  timer:ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Request as it is given to be sent, before the id is added
+ */
+type RequestBody = Omit<LockRequest, 'id'>;
+
+/**
+ * {@link LockBackend} client of a {@link LockServer}. The connection is made
+ * on the first request, and made again after it drops. Requests that were
+ * in flight when it dropped are rejected with a {@link LockBackendError}.
+ */
+export default class TcpBackend implements LockBackend {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * TcpBackend object.
+   */
+  public static readonly DefaultOptions:Omit<TcpBackendOptions, 'port'> = {
+    host: '127.0.0.1',
+    timeout: 5000,
+  };
+
+  /**
+   * Options dictating how this backend will work
+   */
+  options:TcpBackendOptions;
+
+  /**
+   * Connection to the server, null until the first request or after it drops
+   */
+  #socket:(Socket|null) = null;
+
+  /**
+   * Requests waiting for their response, by id
+   */
+  #pending = new Map<number, PendingRequest>();
+
+  /**
+   * Id of the last request sent
+   */
+  #lastId = 0;
+
+  /**
+   * @throws {TypeError} If the port is not a valid port number
+   * @param options Where the server is and how long to wait for it.
+   * @param options.port Port the server listens on.
+   * @param options.host Host the server runs on.
+   * @param options.timeout Milliseconds to wait for each response.
+   */
+  constructor(options:TcpBackendOptions) {
+    // Bind methods
+    this.acquire = this.acquire.bind(this);
+    this.renew = this.renew.bind(this);
+    this.release = this.release.bind(this);
+    this.close = this.close.bind(this);
+
+    if(!Number.isInteger(options?.port) || options.port < 1 || options.port > 65535)
+      throw new TypeError(`TcpBackend was constructed with a port of "${options?.port}", a valid port number is required`);
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...TcpBackend.DefaultOptions,
+      ...options,
+    };
+  }
+
+  /**
+   * Grants the lock if it is free or it's lease has expired.
+   * 
+   * @param key Name of the lock
+   * @param owner Identifies the holder
+   * @param ttl Milliseconds until the lease expires
+   * @returns Promise resolving to the new lease, or null if the lock is held
+   */
+  async acquire(key:string, owner:string, ttl:number):Promise<LockLease|null> {
+    const { lease } = await this.#request({
+      op: 'acquire',
+      key,
+      owner,
+      ttl,
+    });
+    return lease ?? null;
+  }
+
+  /**
+   * Extends a lease that is still held.
+   * 
+   * @throws {LeaseLostError} If the lease expired or the lock was granted to
+   * somebody else
+   * @param lease The lease to extend
+   * @param ttl Milliseconds from now until the lease expires
+   * @returns Promise resolving to the extended lease
+   */
+  async renew(lease:LockLease, ttl:number):Promise<LockLease> {
+    const response = await this.#request({
+      op: 'renew',
+      lease,
+      ttl,
+    });
+    if(!response.lease)
+      throw new LockBackendError('lock server answered a renewal without a lease');
+    return response.lease;
+  }
+
+  /**
+   * Releases a lease, doing nothing if it was already lost.
+   * 
+   * @param lease The lease to release
+   */
+  async release(lease:LockLease):Promise<void> {
+    await this.#request({
+      op: 'release',
+      lease,
+    });
+  }
+
+  /**
+   * Disconnects from the server, rejecting any requests still in flight. A
+   * later request connects again.
+   */
+  close():Promise<void> {
+    this.#drop(new LockBackendError('lock server connection was closed'));
+    return Promise.resolve();
+  }
+
+  /**
+   * Sends a request, resolving with the response once it succeeded
+   */
+  #request(body:RequestBody):Promise<LockResponse> {
+    const id = ++this.#lastId;
+    const socket = this.#connect();
+
+    return new Promise<LockResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(id);
+        this.#updateRef();
+        reject(new LockBackendError(`lock server did not answer within ${this.options.timeout}ms`));
+      }, this.options.timeout ?? 5000);
+
+      this.#pending.set(id, {
+        resolve,
+        reject,
+        timer,
+      });
+      this.#updateRef();
+
+      socket.write(`${JSON.stringify({
+        id,
+        ...body,
+      })}\n`);
+    }).then(response => {
+      if(response.ok)
+        return response;
+
+      const { error } = response;
+      if(error?.name === 'LeaseLostError')
+        throw new LeaseLostError(error.key ?? '', error.token ?? 0);
+      throw new LockBackendError(`lock server rejected the request: ${error?.message ?? 'unknown error'}`);
+    });
+  }
+
+  /**
+   * Returns the connection, opening it if needed
+   */
+  #connect():Socket {
+    if(this.#socket)
+      return this.#socket;
+
+    const socket = connect(this.options.port, this.options.host ?? '127.0.0.1');
+    this.#socket = socket;
+    socket.setEncoding('utf8');
+
+    let buffered = '';
+    socket.on('data', (chunk:string) => {
+      buffered += chunk;
+
+      let end = buffered.indexOf('\n');
+      while(end >= 0) {
+        this.#receive(buffered.slice(0, end));
+        buffered = buffered.slice(end + 1);
+        end = buffered.indexOf('\n');
+      }
+    });
+
+    socket.on('error', err => {
+      if(this.#socket === socket)
+        this.#drop(new LockBackendError(`lock server connection failed: ${err.message}`, err));
+    });
+    socket.on('close', () => {
+      if(this.#socket === socket)
+        this.#drop(new LockBackendError('lock server connection was closed'));
+    });
+
+    return socket;
+  }
+
+  /**
+   * Settles the request a response line belongs to
+   */
+  #receive(line:string):void {
+    let response:LockResponse;
+    try {
+      response = JSON.parse(line) as LockResponse;
+    } catch (err) {
+      this.#drop(new LockBackendError('lock server sent an invalid response', err));
+      return;
+    }
+
+    // Only ever answered with objects for the requests sent
+    if(!response || typeof response !== 'object' || typeof response.id !== 'number') {
+      this.#drop(new LockBackendError('lock server sent an invalid response'));
+      return;
+    }
+
+    const pending = this.#pending.get(response.id);
+    if(!pending)
+      return;
+
+    clearTimeout(pending.timer);
+    this.#pending.delete(response.id);
+    this.#updateRef();
+    pending.resolve(response);
+  }
+
+  /**
+   * Closes the connection and rejects every request in flight
+   */
+  #drop(err:Error):void {
+    const socket = this.#socket;
+    this.#socket = null;
+    socket?.destroy();
+
+    const pending = [ ...this.#pending.values() ];
+    this.#pending.clear();
+    pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(err);
+    });
+  }
+
+  /**
+   * Lets an idle connection not keep the process running
+   */
+  #updateRef():void {
+    if(this.#pending.size > 0)
+      this.#socket?.ref();
+    else
+      this.#socket?.unref();
+  }
+}
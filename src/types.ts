@@ -9,15 +9,31 @@
  * GITHUB: https://github.com/chris-pikul/async-synchro
  */
 
+import type { Task } from './context';
+import type { Handle } from './disposable';
+
 /**
  * Function which when called releases the lock it originated from
  */
 export type Releaser = () => void;
 
+/**
+ * Releaser handed out by the locks. Besides being called, it can be released
+ * with it's `release()` method, or by a `using` declaration leaving scope.
+ * 
+ * ```
+ * {
+ *    await using release = await mtx.lock();
+ *    ...
+ * } // Released here
+ * ```
+ */
+export type LockHandle = Handle<Releaser>;
+
 /**
  * Type for the promise resolvers
  */
-export type LockResolver = (release:Releaser) => void;
+export type LockResolver = (release:LockHandle) => void;
 
 /**
  * Type for the promise rejectors
@@ -30,4 +46,62 @@ export type LockRejector = (err:Error) => void;
 export interface QueuedPromise<Resolver = LockResolver, Rejector = LockRejector> {
   resolve:Resolver;
   reject:Rejector;
+
+  /**
+   * Disarms any timers attached to this waiting promise
+   */
+  disarm ?: () => void;
+
+  /**
+   * Async task waiting, when tracked by a deadlock detector
+   */
+  task ?: Task;
+
+  /**
+   * Call stack of the lock attempt, when watching for leaked holds
+   */
+  stack ?: (string|null);
+
+  /**
+   * Milliseconds the hold may last once granted, when given a `ttl`
+   */
+  ttl ?: number;
+};
+
+/**
+ * Options available for an individual lock attempt
+ */
+export interface LockOptions {
+
+  /**
+   * Milliseconds to wait for the lock before giving up and rejecting with
+   * {@link ErrTimeout}. Overrides any default timeout set in the constructor
+   * options.
+   */
+  timeout ?: number;
+
+  /**
+   * Signal which when aborted cancels this lock attempt. The promise is
+   * rejected with the signal's reason, or the cancelled error if there is
+   * none. A signal that is already aborted rejects without waiting.
+   */
+  signal ?: AbortSignal;
+
+  /**
+   * Priority of this lock attempt, used when the lock was constructed with
+   * the `priority` queue discipline. Higher numbers are granted first, equal
+   * priorities are granted in order. **Default = 0**.
+   */
+  priority ?: number;
 };
+
+/**
+ * Sentinel value resolved by the `tryGuard` methods when the lock was not
+ * immediately available and the callback was skipped.
+ */
+export const Skipped:unique symbol = Symbol('async-synchro.skipped');
+
+/**
+ * Type of the {@link Skipped} sentinel
+ */
+export type SkippedType = typeof Skipped;
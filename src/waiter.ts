@@ -0,0 +1,128 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import { ErrCancelled, ErrTimeout } from './errors';
+import type { LockOptions, QueuedPromise } from './types';
+
+/**
+ * Function which disarms any timers or listeners set up for a waiting lock.
+ */
+export type Disarmer = () => void;
+
+/**
+ * Disarmer used when a waiter has nothing to watch.
+ */
+function noDisarm():void {
+  // Nothing to disarm
+}
+
+/**
+ * Gets the error a waiter should be rejected with when it's signal aborts.
+ * 
+ * Uses the signal's `reason` when the runtime provides one, otherwise the
+ * given fallback error.
+ * 
+ * @param signal The aborted signal
+ * @param fallback Error used when the signal has no reason
+ * @returns Error to reject with
+ */
+export function abortReason(signal:AbortSignal, fallback:Error = ErrCancelled):Error {
+  const { reason } = signal as (AbortSignal & { reason ?: Error });
+  return reason ?? fallback;
+}
+
+/**
+ * Sets up the timeout and abort signal for a lock that has to wait in a queue.
+ * 
+ * When the timeout elapses, or the signal aborts, the `cancel` callback is
+ * executed with the error the waiter should be rejected with. The callback is
+ * responsible for removing the waiter from it's queue. The returned disarmer
+ * must be called once the waiter is resolved or rejected by other means.
+ * 
+ * @param options The options given for this lock attempt
+ * @param cancel Callback removing and rejecting the waiter
+ * @param errorCancelled Error used when an aborted signal has no reason
+ * @returns Function for disarming the timeout and signal
+ */
+export function armWaiter(options:LockOptions, cancel:(err:Error) => void, errorCancelled?:Error):Disarmer {
+  const { timeout, signal } = options;
+
+  const hasTimeout = (typeof timeout === 'number' && Number.isFinite(timeout) && timeout >= 0);
+
+  // Short-circuit if there is nothing to watch
+  if(!hasTimeout && !signal)
+    return noDisarm;
+
+  let timer:(ReturnType<typeof setTimeout>|null) = null;
+  let onAbort:(Disarmer|null) = null;
+
+  const disarm = ():void => {
+    if(timer !== null)
+      clearTimeout(timer);
+    timer = null;
+
+    if(signal && onAbort)
+      signal.removeEventListener('abort', onAbort);
+    onAbort = null;
+  };
+
+  if(hasTimeout) {
+    timer = setTimeout(() => {
+      disarm();
+      cancel(ErrTimeout);
+    }, timeout);
+  }
+
+  if(signal) {
+    onAbort = () => {
+      disarm();
+      cancel(abortReason(signal, errorCancelled));
+    };
+    signal.addEventListener('abort', onAbort);
+  }
+
+  return disarm;
+}
+
+/**
+ * Sets up the timeout and abort signal for a waiter parked in a queue array,
+ * removing the waiter from the queue and rejecting it when either fires.
+ * 
+ * The queue is looked up when cancelling, since it may have been swapped for
+ * a fresh one in the meantime. Waiters no longer in it were settled by other
+ * means and are left alone.
+ * 
+ * @param entry The waiter parked in the queue
+ * @param queue Gets the queue the waiter is parked in
+ * @param options The options given for this wait
+ * @param errorCancelled Error used when an aborted signal has no reason
+ * @param onRemoved Callback executed after removing the waiter, before it is
+ * rejected
+ * @returns Function for disarming the timeout and signal
+ */
+export function armQueued<W extends QueuedPromise<unknown>>(
+  entry:W,
+  queue:() => W[],
+  options:LockOptions,
+  errorCancelled?:Error,
+  onRemoved?:() => void,
+):Disarmer {
+  return armWaiter(options, err => {
+    const waiting = queue();
+    const index = waiting.indexOf(entry);
+    if(index === -1)
+      return;
+    waiting.splice(index, 1);
+
+    onRemoved?.();
+    entry.reject(err);
+  }, errorCancelled);
+}
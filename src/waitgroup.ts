@@ -0,0 +1,231 @@
+/**
+ * Async-Synchro - Library for asynchronous locking and concurrency
+ * 
+ * Copyright 2022 Chris Pikul, MIT licensed.
+ * 
+ * See project root for ./LICENSE file.
+ * 
+ * NPM: https://npmjs.com/package/async-synchro
+ * GITHUB: https://github.com/chris-pikul/async-synchro
+ */
+
+import SynchroError, { ErrCancelled } from './errors';
+import type {
+  LockOptions,
+  LockRejector,
+  QueuedPromise,
+} from './types';
+import { abortReason, armQueued } from './waiter';
+
+export type WaitGroupQueuedPromise = QueuedPromise<() => void, LockRejector>;
+
+/**
+ * Options available for WaitGroup objects
+ */
+export interface WaitGroupOptions {
+
+  /**
+   * Callback executed whenever the counter reaches zero, before the waiters
+   * are released.
+   */
+  onDone ?: () => void;
+
+  /**
+   * Callback executed AFTER the WaitGroup has it's waiters cancelled.
+   */
+  onCancel ?: () => void;
+
+  /**
+   * Error object that is thrown when the waiters are cancelled.
+   */
+  errorCancelled ?: (Error|SynchroError);
+};
+
+/**
+ * Counter of outstanding tasks that can be waited on until they have all
+ * finished. Also known as a CountDownLatch.
+ * 
+ * The counter is increased with {@link WaitGroup.add} as tasks are started,
+ * and decreased with {@link WaitGroup.done} as they finish. Anyone waiting with
+ * {@link WaitGroup.wait} is released once it reaches zero.
+ */
+export default class WaitGroup {
+  /**
+   * Readonly set of default options that will be used when constructing a new
+   * WaitGroup object.
+   */
+  public static readonly DefaultOptions:WaitGroupOptions = { errorCancelled: ErrCancelled };
+
+  /**
+   * Options dictating how this wait group will work
+   */
+  options:WaitGroupOptions;
+
+  /**
+   * Number of outstanding tasks
+   */
+  #count:number;
+
+  /**
+   * Waiters to release once the count reaches zero
+   */
+  #queue:Array<WaitGroupQueuedPromise> = [];
+
+  /**
+   * @param count Initial number of outstanding tasks. **Default = 0**.
+   * @param options Additional settings declaring how this wait group operates.
+   * **Default = WaitGroup.DefaultOptions**.
+   * @param options.onDone Function which is called whenever the count reaches
+   * zero.
+   * @param options.onCancel Function which is called after the waiters are
+   * cancelled.
+   * @param options.errorCancelled The error value thrown to each waiter when
+   * the wait group is cancelled.
+   */
+  constructor(count?:number, options?:WaitGroupOptions) {
+    // Bind methods
+    this.add = this.add.bind(this);
+    this.done = this.done.bind(this);
+    this.wait = this.wait.bind(this);
+    this.cancelAll = this.cancelAll.bind(this);
+
+    // Ensure the count is a non-negative integer if provided
+    const initial = count ?? 0;
+    if(typeof initial !== 'number' || !Number.isInteger(initial) || initial < 0)
+      throw new TypeError(`WaitGroup was constructed with a count of "${initial}", a non-negative integer is required`);
+    this.#count = initial;
+
+    // Assign the options by overloading the defaults with a spread
+    this.options = {
+      ...WaitGroup.DefaultOptions,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Number of outstanding tasks
+   */
+  get count():number {
+    return this.#count;
+  }
+
+  /**
+   * Number of waiters waiting for the count to reach zero
+   */
+  get waiting():number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Adds to the number of outstanding tasks. Negative numbers may be given to
+   * finish several tasks at once.
+   * 
+   * @throws {SynchroError} If the count would go below zero
+   * @param delta Number to add to the count. **Default = 1**.
+   */
+  add(delta = 1):void {
+    if(typeof delta !== 'number' || !Number.isInteger(delta))
+      throw new TypeError(`WaitGroup add was given "${delta}", an integer is required`);
+
+    const count = this.#count + delta;
+    if(count < 0)
+      throw new SynchroError(`WaitGroup count cannot go below zero, it is ${this.#count} and was given ${delta}`);
+    this.#count = count;
+
+    if(count === 0 && delta !== 0)
+      this.#release();
+  }
+
+  /**
+   * Marks one task as finished, decreasing the count by one.
+   * 
+   * @throws {SynchroError} If the count is already zero
+   */
+  done():void {
+    this.add(-1);
+  }
+
+  /**
+   * Waits until the count reaches zero. Resolves straight away if it already
+   * is zero.
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * ```
+   * const wg = new WaitGroup();
+   * 
+   * for(const file of files) {
+   *    wg.add();
+   *    upload(file).finally(wg.done);
+   * }
+   * 
+   * await wg.wait({ timeout: 30000 });
+   * ```
+   * 
+   * ---------------------------------------------------------------------------
+   * 
+   * @param options Optional settings for this wait
+   * @param options.timeout Milliseconds to wait before rejecting with
+   * `ErrTimeout`.
+   * @param options.signal AbortSignal which cancels this wait when aborted.
+   * @returns Promise resolving once the count is zero
+   */
+  wait(options?:LockOptions):Promise<void> {
+    if(this.#count === 0)
+      return Promise.resolve();
+
+    // An already aborted signal never waits
+    if(options?.signal?.aborted)
+      return Promise.reject(abortReason(options.signal, this.options.errorCancelled));
+
+    return new Promise<void>((resolve, reject) => {
+      const entry:WaitGroupQueuedPromise = {
+        resolve,
+        reject,
+      };
+      this.#queue.push(entry);
+
+      entry.disarm = armQueued(entry, () => this.#queue, options ?? {}, this.options.errorCancelled);
+    });
+  }
+
+  /**
+   * Cancels all waiters by rejecting their promises. The count is left as it
+   * is.
+   * 
+   * The error given in the rejection is one of the following (whichever applies
+   * first):
+   * 
+   * - The `err` parameter.
+   * - The `errorCancelled` option set in the WaitGroup constructor options.
+   * - The {@link ErrCancelled} default error.
+   * 
+   * @param err Optional custom error to throw
+   */
+  cancelAll(err?:Error):void {
+    const queue = this.#queue;
+    this.#queue = [];
+
+    queue.forEach(({ reject, disarm }) => {
+      disarm?.();
+      reject(err ?? this.options.errorCancelled ?? ErrCancelled);
+    });
+
+    // Call the onCancel asked for
+    if(typeof this.options.onCancel === 'function')
+      this.options.onCancel();
+  }
+
+  #release():void {
+    if(typeof this.options.onDone === 'function')
+      this.options.onDone();
+
+    const queue = this.#queue;
+    this.#queue = [];
+
+    queue.forEach(({ resolve, disarm }) => {
+      disarm?.();
+      resolve();
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import AdaptiveLimiter, { AimdLimit, GradientLimit } from '../src/adaptivelimiter';
+
+describe('AdaptiveLimiter', () => {
+  describe('Algorithms', () => {
+    it('AIMD grows additively and backs off multiplicatively', () => {
+      const aimd = new AimdLimit({ latencyThreshold: 100 });
+
+      expect(aimd.update(10, {
+        latency: 10,
+        inFlight: 10,
+        dropped: false,
+      })).to.equal(11);
+      expect(aimd.update(10, {
+        latency: 10,
+        inFlight: 1,
+        dropped: false,
+      }), 'limit not in use').to.equal(10);
+      expect(aimd.update(10, {
+        latency: 10,
+        inFlight: 10,
+        dropped: true,
+      })).to.equal(9);
+      expect(aimd.update(10, {
+        latency: 200,
+        inFlight: 10,
+        dropped: false,
+      }), 'too slow').to.equal(9);
+    });
+
+    it('gradient shrinks as latency rises above the fastest seen', () => {
+      const gradient = new GradientLimit({ smoothing: 1 });
+
+      const steady = gradient.update(16, {
+        latency: 10,
+        inFlight: 16,
+        dropped: false,
+      });
+      expect(steady).to.equal(20);
+
+      const slow = gradient.update(16, {
+        latency: 60,
+        inFlight: 16,
+        dropped: false,
+      });
+      expect(slow).to.equal(12);
+    });
+  });
+
+  describe('Guarding', () => {
+    const clock = FakeTimers.createClock();
+
+    it('adjusts the limit from the guarded calls', async () => {
+      const changes:number[] = [];
+      const limiter = new AdaptiveLimiter({
+        initialLimit: 2,
+        onLimitChange: limit => changes.push(limit),
+      });
+
+      await Promise.all([
+        limiter.guard(() => clock.tickAsync(5)),
+        limiter.guard(() => clock.tickAsync(5)),
+      ]);
+      expect(limiter.limit).to.equal(4);
+
+      let caught = false;
+      await limiter.guard(() => {
+        throw new Error('overloaded');
+      }).catch(() => {
+        caught = true;
+      });
+
+      expect(caught).to.be.true;
+      expect(limiter.limit).to.equal(3);
+      expect(changes).to.eql([ 3, 4, 3 ]);
+      expect(limiter.inFlight).to.equal(0);
+    });
+
+    it('ignores errors that do not signal overload', async () => {
+      const limiter = new AdaptiveLimiter({
+        initialLimit: 5,
+        isDropped: err => (err as Error).message === 'overloaded',
+      });
+
+      await limiter.guard(() => {
+        throw new Error('not found');
+      }).catch(() => null);
+
+      expect(limiter.limit).to.equal(5);
+    });
+
+    it('stays within the min and max limits', async () => {
+      const limiter = new AdaptiveLimiter({
+        initialLimit: 1,
+        maxLimit: 1,
+      });
+
+      await limiter.guard(() => null);
+      expect(limiter.limit).to.equal(1);
+
+      expect(() => new AdaptiveLimiter({ minLimit: 0 })).to.throw(TypeError);
+    });
+
+    it('keeps the outcome of the call when the algorithm throws', async () => {
+      const broken = new Error('broken algorithm');
+      const reported:unknown[] = [];
+      const limiter = new AdaptiveLimiter({
+        initialLimit: 5,
+        algorithm: {
+          update: () => {
+            throw broken;
+          },
+        },
+        onUpdateError: err => reported.push(err),
+      });
+
+      expect(await limiter.guard(() => 42)).to.equal(42);
+
+      const failure = new Error('call failed');
+      let caught:unknown = null;
+      await limiter.guard(() => {
+        throw failure;
+      }).catch(err => {
+        caught = err;
+      });
+
+      expect(caught).to.equal(failure);
+      expect(reported).to.eql([ broken, broken ]);
+      expect(limiter.limit).to.equal(5);
+      expect(limiter.inFlight).to.equal(0);
+    });
+
+    it('keeps the outcome of the call when onUpdateError throws', async () => {
+      const limiter = new AdaptiveLimiter({
+        algorithm: {
+          update: () => {
+            throw new Error('broken algorithm');
+          },
+        },
+        onUpdateError: () => {
+          throw new Error('broken reporter');
+        },
+      });
+
+      expect(await limiter.guard(() => 42)).to.equal(42);
+      expect(limiter.inFlight).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import AutoResetEvent from '../src/autoresetevent';
+import { ErrCancelled } from '../src/errors';
+
+describe('AutoResetEvent', () => {
+  const clock = FakeTimers.createClock();
+
+  it('releases exactly one waiter per set', async () => {
+    const evt = new AutoResetEvent();
+    const vals:number[] = [];
+
+    evt.wait().then(() => vals.push(1));
+    evt.wait().then(() => vals.push(2));
+
+    evt.set();
+    await clock.tickAsync(0);
+    expect(vals).to.eql([ 1 ]);
+    expect(evt.isSet, 'closes behind the waiter').to.be.false;
+
+    evt.set();
+    await clock.tickAsync(0);
+    expect(vals).to.eql([ 1, 2 ]);
+  });
+
+  it('stays set until the next wait passes through', async () => {
+    const evt = new AutoResetEvent();
+    let released = false;
+
+    evt.set();
+    expect(evt.isSet).to.be.true;
+
+    await evt.wait();
+    expect(evt.isSet).to.be.false;
+
+    evt.wait().then(() => {
+      released = true;
+    });
+    await clock.tickAsync(0);
+    expect(released).to.be.false;
+  });
+
+  it('cancels waiters', async () => {
+    const evt = new AutoResetEvent();
+
+    let caught:unknown = null;
+    evt.wait().catch(err => {
+      caught = err;
+    });
+
+    evt.cancelAll();
+    await clock.tickAsync(0);
+    expect(caught).to.equal(ErrCancelled);
+    expect(evt.waiting).to.equal(0);
+  });
+});
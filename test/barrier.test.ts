@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import Barrier from '../src/barrier';
+import SynchroError, { ErrBrokenBarrier, ErrTimeout } from '../src/errors';
+
+describe('Barrier', () => {
+  const clock = FakeTimers.createClock();
+
+  describe('Constructor', () => {
+    it('requires a positive integer of parties', () => {
+      expect(() => new Barrier(0)).to.throw(TypeError);
+      expect(() => new Barrier(1.5)).to.throw(TypeError);
+      expect(new Barrier(3).parties).to.equal(3);
+    });
+  });
+
+  describe('Arriving', () => {
+    it('releases all parties once the last arrives', async () => {
+      const barrier = new Barrier(3);
+      const vals:number[] = [];
+
+      barrier.arriveAndWait().then(gen => vals.push(gen));
+      barrier.arriveAndWait().then(gen => vals.push(gen));
+
+      await clock.tickAsync(0);
+      expect(vals).to.eql([]);
+      expect(barrier.waiting).to.equal(2);
+
+      expect(barrier.arrive(), 'arrives at the first generation').to.equal(0);
+      await clock.tickAsync(0);
+      expect(vals).to.eql([ 0, 0 ]);
+      expect(barrier.generation, 'reset for the next generation').to.equal(1);
+      expect(barrier.arrived).to.equal(0);
+    });
+
+    it('runs onTrip once per generation before releasing', async () => {
+      const trips:number[] = [];
+      const order:string[] = [];
+      const barrier = new Barrier(2, {
+        onTrip: async gen => {
+          trips.push(gen);
+          await Promise.resolve();
+          order.push('trip');
+        },
+      });
+
+      for(let gen = 0; gen < 2; gen++) {
+        const waiting = [ barrier.arriveAndWait(), barrier.arriveAndWait() ];
+        await Promise.all(waiting).then(() => order.push('released'));
+      }
+
+      expect(trips).to.eql([ 0, 1 ]);
+      expect(order).to.eql([
+        'trip',
+        'released',
+        'trip',
+        'released',
+      ]);
+    });
+
+    it('rejects the waiting parties if onTrip throws', async () => {
+      const error = new Error('trip failed');
+      const barrier = new Barrier(1, {
+        onTrip: () => {
+          throw error;
+        },
+      });
+
+      let caught:unknown = null;
+      await barrier.arriveAndWait().catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(error);
+    });
+
+    it('throws the onTrip error from arrive when no party is waiting', () => {
+      const error = new Error('trip failed');
+      const barrier = new Barrier(2, {
+        onTrip: () => {
+          throw error;
+        },
+      });
+
+      barrier.arrive();
+      expect(() => barrier.arrive()).to.throw(error);
+      expect(barrier.generation, 'still tripped').to.equal(1);
+      expect(barrier.arrived).to.equal(0);
+    });
+  });
+
+  describe('Parties', () => {
+    it('allows parties to join and leave', async () => {
+      const barrier = new Barrier(2);
+      let released = false;
+
+      barrier.register();
+      expect(barrier.parties).to.equal(3);
+
+      barrier.arriveAndWait().then(() => {
+        released = true;
+      });
+      barrier.arrive();
+      await clock.tickAsync(0);
+      expect(released).to.be.false;
+
+      barrier.arriveAndDeregister();
+      await clock.tickAsync(0);
+      expect(released).to.be.true;
+      expect(barrier.parties).to.equal(2);
+    });
+
+    it('does not deregister the last party', () => {
+      expect(() => new Barrier(1).arriveAndDeregister()).to.throw(SynchroError);
+    });
+  });
+
+  describe('Cancelling', () => {
+    it('breaks the barrier for all waiting parties', async () => {
+      let firedOnCancel = false;
+      const barrier = new Barrier(3, {
+        onCancel: () => {
+          firedOnCancel = true;
+        },
+      });
+      const errors:unknown[] = [];
+
+      barrier.arriveAndWait().catch(err => errors.push(err));
+      barrier.arriveAndWait().catch(err => errors.push(err));
+
+      barrier.cancelAll();
+      await clock.tickAsync(0);
+
+      expect(errors).to.eql([ ErrBrokenBarrier, ErrBrokenBarrier ]);
+      expect(firedOnCancel).to.be.true;
+      expect(barrier.arrived).to.equal(0);
+      expect(barrier.generation).to.equal(1);
+    });
+
+    it('takes back the arrival of a party that times out', async () => {
+      const clk = FakeTimers.install();
+      try {
+        const barrier = new Barrier(2);
+
+        let caught:unknown = null;
+        barrier.arriveAndWait({ timeout: 50 }).catch(err => {
+          caught = err;
+        });
+        expect(barrier.arrived).to.equal(1);
+
+        await clk.tickAsync(50);
+        expect(caught).to.equal(ErrTimeout);
+        expect(barrier.arrived).to.equal(0);
+      } finally {
+        clk.uninstall();
+      }
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import { setTimeout as realTimeout } from 'timers';
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+
+import Semaphore from '../src/semaphore';
+import { mapConcurrent } from '../src/concurrent';
+import { ErrTimeout } from '../src/errors';
+
+describe('Concurrent', () => {
+  let clock:FakeTimers.InstalledClock;
+
+  beforeEach(() => {
+    clock = FakeTimers.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  const delay = (ms:number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  describe('Map', () => {
+    it('resolves the results in input order with limited concurrency', async () => {
+      const sem = new Semaphore(2);
+      let running = 0;
+      let peak = 0;
+
+      const prom = sem.map([ 30, 10, 20, 5 ], async (ms, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(ms);
+        running--;
+        return `${index}:${ms}`;
+      });
+
+      await clock.tickAsync(100);
+      expect(await prom).to.eql([
+        '0:30',
+        '1:10',
+        '2:20',
+        '3:5',
+      ]);
+      expect(peak, 'never more than the limit').to.equal(2);
+      expect(sem.isLocked, 'all released').to.be.false;
+    });
+
+    it('consumes async iterables lazily', async () => {
+      const pulled:number[] = [];
+      async function* source() {
+        for(let i = 0; i < 5; i++) {
+          pulled.push(i);
+          yield i;
+        }
+      }
+
+      const prom = mapConcurrent(source(), 2, async item => {
+        await delay(10);
+        return item * 2;
+      });
+
+      await clock.tickAsync(0);
+      expect(pulled, 'only as many as can run').to.eql([ 0, 1 ]);
+
+      await clock.tickAsync(10);
+      expect(pulled).to.eql([
+        0,
+        1,
+        2,
+        3,
+      ]);
+
+      await clock.tickAsync(20);
+      expect(await prom).to.eql([
+        0,
+        2,
+        4,
+        6,
+        8,
+      ]);
+    });
+
+    it('stops starting items on the first error when failing fast', async () => {
+      const started:number[] = [];
+      let closed = false;
+      async function* source() {
+        try {
+          for(let i = 0; i < 10; i++)
+            yield i;
+        } finally {
+          closed = true;
+        }
+      }
+
+      const error = new Error('item 1');
+      let caught:unknown = null;
+      mapConcurrent(source(), 2, async item => {
+        started.push(item);
+        await delay(item === 1 ? 10 : 20);
+        if(item === 1)
+          throw error;
+        return item;
+      }).catch(err => {
+        caught = err;
+      });
+
+      await clock.tickAsync(50);
+      expect(caught).to.equal(error);
+      expect(started, 'remaining items not started').to.eql([ 0, 1 ]);
+      expect(closed, 'source was closed').to.be.true;
+    });
+
+    it('fails fast while waiting for a slot held elsewhere', async () => {
+      const sem = new Semaphore(1);
+      const error = new Error('item 0');
+
+      let caught:unknown = null;
+      sem.map([ 0, 1 ], async item => {
+        await delay(10);
+        if(item === 0)
+          throw error;
+        return item;
+      }).catch(err => {
+        caught = err;
+      });
+
+      // Queued ahead of the second item, taking the slot the first frees up
+      const other = sem.acquire();
+
+      await clock.tickAsync(10);
+      expect(caught, 'not waiting for the slot').to.equal(error);
+
+      const [ release ] = await other;
+      release();
+      await clock.tickAsync(0);
+      expect(sem.isLocked, 'no slot kept').to.be.false;
+    });
+
+    it('closes the source and waits for running items when acquiring fails', async () => {
+      const sem = new Semaphore(1);
+      let closed = false;
+      function* source() {
+        try {
+          yield 30;
+          yield 10;
+        } finally {
+          closed = true;
+        }
+      }
+
+      const finished:number[] = [];
+      let caught:unknown = null;
+      sem.map(source(), async ms => {
+        await delay(ms);
+        finished.push(ms);
+      }, { timeout: 10 }).catch(err => {
+        caught = err;
+      });
+
+      await clock.tickAsync(10);
+      expect(closed, 'source was closed').to.be.true;
+      expect(caught, 'running item still awaited').to.be.null;
+
+      await clock.tickAsync(20);
+      expect(finished).to.eql([ 30 ]);
+      expect(caught).to.equal(ErrTimeout);
+    });
+
+    it('rejects with every error in input order when collecting', async () => {
+      const prom = mapConcurrent([ 1, 2, 3, 4 ], 4, async item => {
+        await delay(10 - item);
+        if(item % 2 === 0)
+          throw new Error(`item ${item}`);
+        return item;
+      }, { errors: 'collect' });
+
+      let caught:any = null;
+      prom.catch(err => {
+        caught = err;
+      });
+
+      await clock.tickAsync(10);
+      expect(caught).to.be.instanceOf(AggregateError);
+      expect(caught.errors.map((err:Error) => err.message)).to.eql([ 'item 2', 'item 4' ]);
+    });
+  });
+
+  describe('For Each', () => {
+    it('performs the callback for every item', async () => {
+      const sem = new Semaphore(3);
+      const seen:number[] = [];
+
+      await sem.forEach(new Set([ 1, 2, 3 ]), item => {
+        seen.push(item);
+      });
+
+      expect(seen).to.eql([
+        1,
+        2,
+        3,
+      ]);
+    });
+
+    it('does not keep the results of finished items', async () => {
+      setFlagsFromString('--expose-gc');
+      const gc = runInNewContext('gc') as () => void;
+
+      const sem = new Semaphore(1);
+      let collected = false;
+      const finalizers = new FinalizationRegistry(() => {
+        collected = true;
+      });
+
+      // Holds the source open after the first item
+      let resume:() => void = () => null;
+      const paused = new Promise<void>(resolve => {
+        resume = resolve;
+      });
+      async function* source() {
+        yield 1;
+        await paused;
+      }
+
+      const done = sem.forEach(source(), () => {
+        const result = {};
+        finalizers.register(result, null);
+        return result;
+      });
+
+      for(let attempt = 0; attempt < 10 && !collected; attempt++) {
+        gc();
+        await new Promise(resolve => realTimeout(resolve, 10));
+      }
+      expect(collected).to.be.true;
+
+      resume();
+      await done;
+    });
+  });
+
+  describe('All Settled', () => {
+    it('resolves the outcome of each item without rejecting', async () => {
+      const sem = new Semaphore(2);
+      const error = new Error('odd');
+
+      const outcomes = await sem.allSettled([ 1, 2, 3 ], item => {
+        if(item % 2 === 1)
+          throw error;
+        return item;
+      });
+
+      expect(outcomes).to.eql([
+        {
+          status: 'rejected',
+          reason: error,
+        },
+        {
+          status: 'fulfilled',
+          value: 2,
+        },
+        {
+          status: 'rejected',
+          reason: error,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+
+import Mutex from '../src/mutex';
+import Condition from '../src/condition';
+import { ErrCancelled, ErrTimeout } from '../src/errors';
+
+describe('Condition', () => {
+  describe('Wait and Notify', () => {
+    const clock = FakeTimers.createClock();
+
+    it('releases the mutex while parked and re-acquires it when notified', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+      let woke = false;
+
+      const release = await mtx.lock();
+      cond.wait(release).then(rel => {
+        woke = true;
+        rel();
+      });
+
+      expect(mtx.isLocked, 'released while parked').to.be.false;
+      expect(cond.waiting).to.equal(1);
+
+      const other = await mtx.lock();
+      expect(cond.notifyOne()).to.be.true;
+      await clock.tickAsync(0);
+      expect(woke, 'must re-acquire first').to.be.false;
+
+      other();
+      await clock.tickAsync(0);
+      expect(woke).to.be.true;
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('notifies all waiters in turn', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+      const vals:number[] = [];
+
+      for(let i = 1; i <= 3; i++) {
+        const release = await mtx.lock();
+        cond.wait(release).then(rel => {
+          vals.push(i);
+          rel();
+        });
+      }
+
+      expect(cond.notifyAll()).to.equal(3);
+      await clock.tickAsync(0);
+      expect(vals).to.eql([
+        1,
+        2,
+        3,
+      ]);
+      expect(cond.notifyOne(), 'nobody left').to.be.false;
+    });
+  });
+
+  describe('Wait For', () => {
+    const clock = FakeTimers.createClock();
+
+    it('returns straight away if the predicate holds', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+
+      const release = await mtx.lock();
+      const same = await cond.waitFor(release, () => true);
+      expect(same).to.equal(release);
+    });
+
+    it('waits until the predicate holds', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+      const buffer:number[] = [];
+      let taken:(number|undefined);
+
+      cond.waitFor(await mtx.lock(), () => buffer.length > 0).then(release => {
+        taken = buffer.shift();
+        release();
+      });
+
+      // A notify without the state changing parks again
+      await mtx.guard(() => cond.notifyAll());
+      await clock.tickAsync(0);
+      expect(taken).to.be.undefined;
+
+      await mtx.guard(() => {
+        buffer.push(42);
+        cond.notifyOne();
+      });
+      await clock.tickAsync(0);
+      expect(taken).to.equal(42);
+    });
+
+    it('rejects with ErrTimeout without holding the mutex', async () => {
+      const clk = FakeTimers.install();
+      try {
+        const mtx = new Mutex();
+        const cond = new Condition(mtx);
+
+        let error:unknown = null;
+        cond.waitFor(await mtx.lock(), () => false, { timeout: 100 }).catch(err => {
+          error = err;
+        });
+
+        await clk.tickAsync(100);
+        expect(error).to.equal(ErrTimeout);
+        expect(mtx.isLocked).to.be.false;
+      } finally {
+        clk.uninstall();
+      }
+    });
+
+    it('applies the timeout to re-acquiring the mutex', async () => {
+      const clk = FakeTimers.install();
+      try {
+        const mtx = new Mutex();
+        const cond = new Condition(mtx);
+
+        let error:unknown = null;
+        cond.wait(await mtx.lock(), { timeout: 100 }).catch(err => {
+          error = err;
+        });
+
+        // Notify, but keep holding the mutex past the timeout
+        const release = await mtx.lock();
+        cond.notifyOne();
+
+        await clk.tickAsync(100);
+        expect(error).to.equal(ErrTimeout);
+
+        release();
+        expect(mtx.isLocked).to.be.false;
+      } finally {
+        clk.uninstall();
+      }
+    });
+
+    it('rejects when aborted', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+      const controller = new AbortController();
+      const reason = new Error('aborted');
+
+      let error:unknown = null;
+      cond.waitFor(await mtx.lock(), () => false, { signal: controller.signal }).catch(err => {
+        error = err;
+      });
+
+      controller.abort(reason);
+      await clock.tickAsync(0);
+      expect(error).to.equal(reason);
+      expect(cond.waiting).to.equal(0);
+    });
+  });
+
+  describe('Cancelling', () => {
+    const clock = FakeTimers.createClock();
+
+    it('rejects parked waiters when the mutex is cancelled', async () => {
+      const mtx = new Mutex();
+      const cond = new Condition(mtx);
+
+      let error:unknown = null;
+      cond.wait(await mtx.lock()).catch(err => {
+        error = err;
+      });
+
+      mtx.cancelAll();
+      await clock.tickAsync(0);
+      expect(error).to.equal(ErrCancelled);
+      expect(cond.waiting).to.equal(0);
+    });
+
+    it('does not keep conditions without parked waiters alive', async () => {
+      setFlagsFromString('--expose-gc');
+      const gc = runInNewContext('gc') as () => void;
+
+      const mtx = new Mutex();
+      let collected = false;
+      const finalizers = new FinalizationRegistry(() => {
+        collected = true;
+      });
+
+      // Park and notify a waiter on a condition that is then dropped
+      await (async () => {
+        const cond = new Condition(mtx);
+        finalizers.register(cond, null);
+
+        const waiting = cond.wait(await mtx.lock());
+        cond.notifyOne();
+        (await waiting)();
+      })();
+
+      for(let attempt = 0; attempt < 10 && !collected; attempt++) {
+        gc();
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(collected).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import DeadlockDetector from '../src/deadlock';
+import Mutex from '../src/mutex';
+import Semaphore from '../src/semaphore';
+import Barrier from '../src/barrier';
+import { DeadlockError, LockOrderError } from '../src/errors';
+import { runTask } from '../src/context';
+
+describe('DeadlockDetector', () => {
+  describe('Wait-for graph', () => {
+    it('rejects the wait that closes a cycle', async () => {
+      const detector = new DeadlockDetector();
+      const a = new Mutex({
+        deadlockDetector: detector,
+        name: 'a',
+      });
+      const b = new Mutex({
+        deadlockDetector: detector,
+        name: 'b',
+      });
+      const barrier = new Barrier(2);
+      const errors:unknown[] = [];
+
+      const crossLock = (first:Mutex, second:Mutex) => runTask(async () => {
+        const unlockFirst = await first.lock();
+        await barrier.arriveAndWait();
+
+        try {
+          (await second.lock())();
+        } catch (err) {
+          errors.push(err);
+        }
+        unlockFirst();
+      });
+
+      await Promise.all([ crossLock(a, b), crossLock(b, a) ]);
+
+      expect(errors).to.have.length(1);
+
+      const err = errors[0] as DeadlockError;
+      expect(err).to.be.instanceOf(DeadlockError);
+      expect(err.cycle.map(link => link.lock)).to.have.members([ 'a', 'b' ]);
+      expect(err.message).to.contain('waits for "a"');
+    });
+
+    it('rejects a task locking a Mutex it already holds', async () => {
+      const mtx = new Mutex({ deadlockDetector: new DeadlockDetector() });
+
+      let caught:unknown = null;
+      await mtx.guard(() => mtx.guard(() => null)).catch(err => {
+        caught = err;
+      });
+
+      expect(caught).to.be.instanceOf(DeadlockError);
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('does not flag semaphores while another holder can still release', async () => {
+      const detector = new DeadlockDetector();
+      const sem = new Semaphore(2, { deadlockDetector: detector });
+      const mtx = new Mutex({ deadlockDetector: detector });
+
+      const [ releaseOther ] = await runTask(() => sem.acquire());
+
+      const blocked = runTask(async () => {
+        const [ release ] = await sem.acquire();
+        await mtx.guard(() => null);
+        release();
+      });
+
+      await runTask(async () => {
+        const unlock = await mtx.lock();
+
+        // Full, but the other holder is not waiting on anything
+        const acquiring = sem.acquire();
+        await new Promise(resolve => setImmediate(resolve));
+        unlock();
+
+        releaseOther();
+        (await acquiring)[0]();
+      });
+
+      await blocked;
+    });
+  });
+
+  describe('Lock ordering', () => {
+    const lockInOrder = (first:Mutex, second:Mutex) => runTask(async () => {
+      const unlockFirst = await first.lock();
+      const unlockSecond = await second.lock();
+      unlockSecond();
+      unlockFirst();
+    });
+
+    it('rejects acquisitions against the observed order', async () => {
+      const detector = new DeadlockDetector({ lockOrder: true });
+      const a = new Mutex({
+        deadlockDetector: detector,
+        name: 'a',
+      });
+      const b = new Mutex({
+        deadlockDetector: detector,
+        name: 'b',
+      });
+
+      await lockInOrder(a, b);
+
+      let caught:unknown = null;
+      await lockInOrder(b, a).catch(err => {
+        caught = err;
+      });
+
+      expect(caught).to.be.instanceOf(LockOrderError);
+      expect((caught as LockOrderError).inversion).to.include({
+        held: 'b',
+        requested: 'a',
+      });
+    });
+
+    it('reports inversions to onInversion instead', async () => {
+      const inversions:string[] = [];
+      const detector = new DeadlockDetector({
+        lockOrder: true,
+        onInversion: ({ held, requested }) => inversions.push(`${held}>${requested}`),
+      });
+      const a = new Mutex({
+        deadlockDetector: detector,
+        name: 'a',
+      });
+      const b = new Mutex({
+        deadlockDetector: detector,
+        name: 'b',
+      });
+
+      await lockInOrder(a, b);
+      await lockInOrder(b, a);
+
+      expect(inversions).to.eql([ 'b>a' ]);
+    });
+  });
+});
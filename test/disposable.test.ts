@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Mutex from '../src/mutex';
+import Semaphore from '../src/semaphore';
+import ReadWriteLock from '../src/readwritelock';
+import ReentrantMutex from '../src/reentrantmutex';
+import KeyedMutex from '../src/keyedmutex';
+import { runTask } from '../src/context';
+
+describe('Disposable', () => {
+  it('defines the well-known dispose symbols', () => {
+    expect(Symbol.dispose).to.be.a('symbol');
+    expect(Symbol.asyncDispose).to.be.a('symbol');
+  });
+
+  it('releases a Mutex lock when disposed', async () => {
+    const mtx = new Mutex();
+
+    const hold = await mtx.lock();
+    expect(mtx.isLocked).to.be.true;
+
+    hold[Symbol.dispose]();
+    expect(mtx.isLocked).to.be.false;
+  });
+
+  it('releases a Mutex lock when async disposed', async () => {
+    const mtx = new Mutex();
+
+    const hold = await mtx.lock();
+    await hold[Symbol.asyncDispose]();
+    expect(mtx.isLocked).to.be.false;
+  });
+
+  it('keeps the handle callable and exposes release()', async () => {
+    const mtx = new Mutex();
+
+    const first = await mtx.lock();
+    first();
+    expect(mtx.isLocked).to.be.false;
+
+    const second = mtx.tryLock();
+    second?.release();
+    expect(mtx.isLocked).to.be.false;
+
+    // Disposing after releasing does nothing
+    first[Symbol.dispose]();
+    expect(mtx.isLocked).to.be.false;
+  });
+
+  it('releases the whole weight when a Semaphore ticket is disposed', async () => {
+    const sem = new Semaphore(4);
+
+    const ticket = await sem.acquire(3);
+    const [ release ] = ticket;
+    release(1);
+    expect(sem.tryAcquire(3), 'still holding 2').to.be.null;
+
+    await ticket[Symbol.asyncDispose]();
+    const again = sem.tryAcquire(4);
+    expect(again).to.not.be.null;
+
+    again?.[0][Symbol.dispose]();
+    expect(sem.isLocked).to.be.false;
+  });
+
+  it('makes ReadWriteLock, ReentrantMutex and KeyedMutex holds disposable', async () => {
+    const rwl = new ReadWriteLock();
+    const write = await rwl.lockWrite();
+    const read = rwl.downgrade(write);
+    read[Symbol.dispose]();
+    expect(rwl.isLocked).to.be.false;
+
+    const mtx = new ReentrantMutex();
+    await runTask(async () => {
+      const outer = await mtx.lock();
+      const inner = await mtx.lock();
+      inner[Symbol.dispose]();
+      outer[Symbol.dispose]();
+    });
+    expect(mtx.isLocked).to.be.false;
+
+    const keyed = new KeyedMutex();
+    const hold = await keyed.lock('a');
+    hold[Symbol.dispose]();
+    expect(keyed.isLocked('a')).to.be.false;
+  });
+});
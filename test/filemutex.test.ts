@@ -0,0 +1,261 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+import FileMutex from '../src/filemutex';
+import { ErrCancelled, ErrTimeout } from '../src/errors';
+
+const delay = (ms:number) => new Promise(res => setTimeout(res, ms));
+
+describe('FileMutex', () => {
+  let dir:string;
+  let lockPath:string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'filemutex-'));
+    lockPath = join(dir, 'cache.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  describe('Lock', () => {
+    it('creates the lock directory with the owner metadata', async () => {
+      const mtx = new FileMutex(lockPath);
+
+      const release = await mtx.lock();
+      expect(mtx.isLocked).to.be.true;
+
+      const owner = await mtx.readOwner();
+      expect(owner).to.include({
+        pid: process.pid,
+        hostname: hostname(),
+      });
+      expect(owner?.timestamp).to.be.a('number');
+
+      await release();
+      expect(mtx.isLocked).to.be.false;
+      expect(await mtx.readOwner()).to.be.null;
+    });
+
+    it('waits for the lock held by another instance', async () => {
+      const first = new FileMutex(lockPath);
+      const second = new FileMutex(lockPath, { pollInterval: 5 });
+      const vals:string[] = [];
+
+      const release = await first.lock();
+      const waiting = second.guard(() => vals.push('second'));
+
+      await delay(30);
+      expect(vals, 'still waiting').to.eql([]);
+
+      await release();
+      await waiting;
+      expect(vals).to.eql([ 'second' ]);
+    });
+
+    it('lines up locks from the same instance', async () => {
+      const mtx = new FileMutex(lockPath);
+      const vals:number[] = [];
+
+      await Promise.all([ 1, 2, 3 ].map(val => mtx.guard(async () => {
+        vals.push(val);
+        await delay(5);
+      })));
+
+      expect(vals).to.eql([
+        1,
+        2,
+        3,
+      ]);
+    });
+
+    it('rejects with ErrTimeout when the lock stays taken', async () => {
+      const first = new FileMutex(lockPath);
+      const second = new FileMutex(lockPath, { pollInterval: 5 });
+
+      const release = await first.lock();
+
+      let caught:unknown = null;
+      await second.lock({ timeout: 30 }).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(ErrTimeout);
+
+      await release();
+    });
+
+    it('cancels the polling locks', async () => {
+      const first = new FileMutex(lockPath);
+      const second = new FileMutex(lockPath, { pollInterval: 5 });
+
+      const release = await first.lock();
+
+      let caught:unknown = null;
+      const waiting = second.lock().catch(err => {
+        caught = err;
+      });
+
+      await delay(20);
+      second.cancelAll();
+      await waiting;
+      expect(caught).to.equal(ErrCancelled);
+
+      await release();
+    });
+  });
+
+  describe('Stale Locks', () => {
+    it('takes over a lock older than the stale age', async () => {
+      await fs.mkdir(lockPath);
+      const old = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, old, old);
+
+      const mtx = new FileMutex(lockPath, { staleAge: 1000 });
+      const release = await mtx.lock({ timeout: 1000 });
+
+      expect((await mtx.readOwner())?.pid).to.equal(process.pid);
+      await release();
+    });
+
+    it('refreshes a held lock with the heartbeat', async () => {
+      const mtx = new FileMutex(lockPath, { heartbeat: 10 });
+      const release = await mtx.lock();
+
+      const old = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, old, old);
+      await delay(50);
+
+      const { mtimeMs } = await fs.stat(lockPath);
+      expect(Date.now() - mtimeMs).to.be.below(1000);
+
+      await release();
+    });
+
+    it('reports a held lock that was taken over', async () => {
+      let compromised:unknown = null;
+      const mtx = new FileMutex(lockPath, {
+        heartbeat: 10,
+        onCompromised: err => {
+          compromised = err;
+        },
+      });
+
+      const release = await mtx.lock();
+      await fs.rm(lockPath, {
+        recursive: true,
+        force: true,
+      });
+      await delay(50);
+
+      expect(compromised).to.be.instanceOf(Error);
+      await release();
+    });
+
+    it('never removes a lock taken over while racing for it', async () => {
+      await fs.mkdir(lockPath);
+      const old = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, old, old);
+
+      const first = new FileMutex(lockPath, {
+        staleAge: 1000,
+        pollInterval: 5,
+      });
+      const second = new FileMutex(lockPath, {
+        staleAge: 1000,
+        pollInterval: 5,
+      });
+
+      // Hold back the first stat of the stale lock until the other took it over
+      let takenOver:() => void = () => {};
+      const tookOver = new Promise<void>(res => {
+        takenOver = res;
+      });
+      const { stat } = fs;
+      let held = false;
+      fs.stat = (async (...args:Parameters<typeof stat>) => {
+        const result = await stat(...args);
+        if(!held && args[0] === lockPath) {
+          held = true;
+          await tookOver;
+        }
+        return result;
+      }) as typeof stat;
+
+      try {
+        let secondLocked = false;
+        const secondLock = second.lock({ timeout: 2000 }).then(rel => {
+          secondLocked = true;
+          return rel;
+        });
+        await delay(10);
+
+        const release = await first.lock({ timeout: 1000 });
+        const owner = await first.readOwner();
+        takenOver();
+        await delay(50);
+
+        expect(secondLocked, 'waits for the fresh lock').to.be.false;
+        expect((await first.readOwner())?.token, 'fresh lock kept').to.equal(owner?.token);
+
+        await release();
+        await (await secondLock)();
+      } finally {
+        fs.stat = stat;
+      }
+    });
+  });
+
+  describe('Child Processes', () => {
+    it('keeps read-modify-write updates from separate processes apart', async function() {
+      this.timeout(60000);
+
+      const counterPath = join(dir, 'counter');
+      await fs.writeFile(counterPath, '0');
+
+      const child = `
+        const { promises: fs } = require('fs');
+        const FileMutex = require(${JSON.stringify(resolve(__dirname, '../src/filemutex'))}).default;
+        const mtx = new FileMutex(${JSON.stringify(lockPath)}, { pollInterval: 2, maxPollInterval: 10 });
+        (async () => {
+          for(let i = 0; i < 10; i++) {
+            await mtx.guard(async () => {
+              const count = Number(await fs.readFile(${JSON.stringify(counterPath)}, 'utf8'));
+              await new Promise(res => setTimeout(res, 2));
+              await fs.writeFile(${JSON.stringify(counterPath)}, String(count + 1));
+            });
+          }
+        })().catch(err => {
+          console.error(err);
+          process.exit(1);
+        });
+      `;
+
+      const run = () => new Promise<void>((res, rej) => {
+        execFile(process.execPath, [
+          '-r',
+          'ts-node/register',
+          '-e',
+          child,
+        ], {
+          env: {
+            ...process.env,
+            TS_NODE_PROJECT: resolve(__dirname, '../tsconfig.test.json'),
+            TS_NODE_TRANSPILE_ONLY: 'true',
+          },
+        }, err => (err ? rej(err) : res()));
+      });
+
+      await Promise.all([ run(), run() ]);
+
+      expect(await fs.readFile(counterPath, 'utf8')).to.equal('20');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import KeyedMutex from '../src/keyedmutex';
+import { ErrCancelled, ErrTimeout } from '../src/errors';
+import { Skipped } from '../src/types';
+
+describe('KeyedMutex', () => {
+  const clock = FakeTimers.createClock();
+
+  it('serializes per key, but not across keys', async () => {
+    const km = new KeyedMutex();
+    const vals:string[] = [];
+
+    const unlockA = await km.lock('a');
+    km.lock('a').then(() => vals.push('a'));
+    km.lock('b').then(() => vals.push('b'));
+
+    await clock.tickAsync(0);
+    expect(vals).to.eql([ 'b' ]);
+    expect(km.isLocked('a')).to.be.true;
+
+    unlockA();
+    await clock.tickAsync(0);
+    expect(vals).to.eql([ 'b', 'a' ]);
+  });
+
+  it('evicts keys once nothing holds or waits on them', async () => {
+    const km = new KeyedMutex();
+
+    const unlock = await km.lock('a');
+    const waiting = km.lock('a');
+    expect(km.size).to.equal(1);
+
+    unlock();
+    unlock();
+    expect(km.size, 'still held by the waiter').to.equal(1);
+
+    (await waiting)();
+    expect(km.size).to.equal(0);
+    expect(km.isLocked('a')).to.be.false;
+
+    await km.guard('b', () => null);
+    expect(km.size).to.equal(0);
+  });
+
+  it('evicts keys when waiters time out', async () => {
+    const clk = FakeTimers.install();
+    try {
+      const km = new KeyedMutex({ timeout: 10 });
+
+      const unlock = await km.lock('a');
+      let caught:unknown = null;
+      km.lock('a').catch(err => {
+        caught = err;
+      });
+
+      await clk.tickAsync(10);
+      expect(caught).to.equal(ErrTimeout);
+
+      unlock();
+      expect(km.size).to.equal(0);
+    } finally {
+      clk.uninstall();
+    }
+  });
+
+  it('evicts keys when a leaked hold is released', async () => {
+    const clk = FakeTimers.install();
+    try {
+      const km = new KeyedMutex({
+        maxHoldTime: 100,
+        releaseLeaks: true,
+      });
+
+      await km.lock('a');
+      expect(km.size).to.equal(1);
+
+      await clk.tickAsync(100);
+      expect(km.isLocked('a')).to.be.false;
+      expect(km.size).to.equal(0);
+    } finally {
+      clk.uninstall();
+    }
+  });
+
+  it('tries locks without waiting', async () => {
+    const km = new KeyedMutex();
+
+    const unlock = km.tryLock('a');
+    expect(unlock).to.be.a('function');
+    expect(km.tryLock('a')).to.be.null;
+    expect(await km.tryGuard('a', () => 1)).to.equal(Skipped);
+
+    unlock?.();
+    expect(km.size).to.equal(0);
+  });
+
+  it('cancels a single key or all of them', async () => {
+    let cancels = 0;
+    const km = new KeyedMutex({
+      onCancel: () => {
+        cancels++;
+      },
+    });
+    const errors:unknown[] = [];
+
+    await km.lock('a');
+    await km.lock('b');
+    km.lock('a').catch(err => errors.push(err));
+    km.lock('b').catch(err => errors.push(err));
+
+    km.cancel('a');
+    await clock.tickAsync(0);
+    expect(errors).to.eql([ ErrCancelled ]);
+
+    km.cancelAll();
+    await clock.tickAsync(0);
+    expect(errors).to.eql([ ErrCancelled, ErrCancelled ]);
+    expect(cancels, 'options forwarded').to.equal(3);
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import KeyedSemaphore from '../src/keyedsemaphore';
+import SynchroError, { ErrCancelled } from '../src/errors';
+
+describe('KeyedSemaphore', () => {
+  const clock = FakeTimers.createClock();
+
+  it('limits concurrency per key', async () => {
+    const ks = new KeyedSemaphore(2);
+    let acquired = 0;
+
+    await ks.acquire('a');
+    await ks.acquire('a');
+    ks.acquire('a').then(() => acquired++);
+    ks.acquire('b').then(() => acquired++);
+
+    await clock.tickAsync(0);
+    expect(acquired).to.equal(1);
+    expect(ks.isLocked('a')).to.be.true;
+    expect(ks.isLocked('b')).to.be.false;
+    expect(ks.size).to.equal(2);
+  });
+
+  it('evicts keys only once the whole weight is released', async () => {
+    const ks = new KeyedSemaphore(3);
+
+    const [ release ] = await ks.acquire('a', { weight: 3 });
+
+    release(2);
+    expect(ks.size).to.equal(1);
+
+    release();
+    expect(ks.size).to.equal(0);
+
+    expect(await ks.guard('a', avail => avail)).to.equal(2);
+    expect(ks.size).to.equal(0);
+  });
+
+  it('throws when releasing a weight that is not a positive integer', async () => {
+    const ks = new KeyedSemaphore(2);
+
+    const [ release ] = await ks.acquire('a', { weight: 2 });
+    expect(() => release(NaN)).to.throw(TypeError);
+    expect(() => release(0)).to.throw(TypeError);
+    expect(ks.isLocked('a')).to.be.true;
+
+    release();
+    expect(ks.size).to.equal(0);
+  });
+
+  it('evicts keys when a leaked hold is released', async () => {
+    const clk = FakeTimers.install();
+    try {
+      const ks = new KeyedSemaphore(2, {
+        maxHoldTime: 100,
+        releaseLeaks: true,
+      });
+
+      await ks.acquire('a', { weight: 2 });
+      expect(ks.size).to.equal(1);
+
+      await clk.tickAsync(100);
+      expect(ks.isLocked('a')).to.be.false;
+      expect(ks.size).to.equal(0);
+    } finally {
+      clk.uninstall();
+    }
+  });
+
+  it('evicts keys after failed attempts', async () => {
+    const ks = new KeyedSemaphore(1);
+
+    let caught = false;
+    await ks.acquire('a', 2).catch(() => {
+      caught = true;
+    });
+    expect(caught).to.be.true;
+    expect(() => ks.tryAcquire('b', 2)).to.throw(SynchroError);
+    expect(ks.size).to.equal(0);
+  });
+
+  it('cancels a single key', async () => {
+    const ks = new KeyedSemaphore();
+
+    await ks.acquire('a');
+    let caught:unknown = null;
+    ks.acquire('a').catch(err => {
+      caught = err;
+    });
+
+    ks.cancel('a');
+    await clock.tickAsync(0);
+    expect(caught).to.equal(ErrCancelled);
+    expect(ks.size, 'holder keeps the key').to.equal(1);
+  });
+
+  it('cancels with the error given', async () => {
+    const ks = new KeyedSemaphore();
+    const errors:unknown[] = [];
+    const stopped = new Error('stopped');
+    const closing = new Error('closing');
+
+    await ks.acquire('a');
+    await ks.acquire('b');
+    ks.acquire('a').catch(err => errors.push(err));
+    ks.acquire('b').catch(err => errors.push(err));
+
+    ks.cancel('a', stopped);
+    await clock.tickAsync(0);
+    expect(errors).to.eql([ stopped ]);
+
+    ks.cancelAll(closing);
+    await clock.tickAsync(0);
+    expect(errors).to.eql([ stopped, closing ]);
+  });
+});
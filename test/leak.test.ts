@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+
+import Mutex from '../src/mutex';
+import Semaphore from '../src/semaphore';
+import type { LockLeak } from '../src/leak';
+
+describe('Leak detection', () => {
+  describe('Max hold time', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('reports locks held for too long with their stack', async () => {
+      const leaks:LockLeak[] = [];
+      const mtx = new Mutex({
+        name: 'config',
+        maxHoldTime: 100,
+        onLeak: leak => leaks.push(leak),
+      });
+
+      const unlock = await mtx.lock();
+      await clock.tickAsync(100);
+
+      expect(leaks).to.have.length(1);
+      expect(leaks[0]).to.include({
+        reason: 'held',
+        name: 'config',
+        heldFor: 100,
+        released: false,
+      });
+      expect(leaks[0].stack).to.contain('leak.test');
+      expect(mtx.isLocked, 'only reported').to.be.true;
+
+      unlock();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('does not report locks released in time', async () => {
+      const leaks:LockLeak[] = [];
+      const sem = new Semaphore(2, {
+        maxHoldTime: 100,
+        onLeak: leak => leaks.push(leak),
+      });
+
+      await sem.guard(() => clock.tickAsync(50), { weight: 2 });
+      await clock.tickAsync(100);
+
+      expect(leaks).to.eql([]);
+    });
+
+    it('force releases leaked holds so waiters keep moving', async () => {
+      const mtx = new Mutex({
+        maxHoldTime: 100,
+        releaseLeaks: true,
+      });
+      let nextIn = false;
+
+      const unlock = await mtx.lock();
+      mtx.lock().then(() => {
+        nextIn = true;
+      });
+
+      await clock.tickAsync(100);
+      expect(nextIn).to.be.true;
+
+      // The leaked releaser no longer does anything
+      unlock();
+      expect(mtx.isLocked).to.be.true;
+    });
+  });
+
+  describe('Garbage collection', () => {
+    setFlagsFromString('--expose-gc');
+    const gc = runInNewContext('gc') as () => void;
+
+    const collect = async (check:() => boolean) => {
+      for(let attempt = 0; attempt < 10 && !check(); attempt++) {
+        gc();
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    };
+
+    it('reports releasers collected without being called', async () => {
+      const leaks:LockLeak[] = [];
+      const sem = new Semaphore(1, {
+        releaseLeaks: true,
+        onLeak: leak => leaks.push(leak),
+      });
+
+      // Acquire, then lose the releaser
+      await (async () => {
+        await sem.acquire();
+      })();
+
+      await collect(() => leaks.length > 0);
+
+      expect(leaks).to.have.length(1);
+      expect(leaks[0]).to.include({
+        reason: 'collected',
+        released: true,
+      });
+      expect(sem.isLocked).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import Mutex from '../src/mutex';
+import Semaphore from '../src/semaphore';
+import { withLocks } from '../src/lockable';
+import { ErrTimeout } from '../src/errors';
+
+describe('withLocks', () => {
+  let clock:FakeTimers.InstalledClock;
+
+  beforeEach(() => {
+    clock = FakeTimers.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  it('gives every lock a unique increasing id', () => {
+    const first = new Mutex();
+    const second = new Semaphore(2);
+
+    expect(second.lockId).to.be.greaterThan(first.lockId);
+  });
+
+  it('acquires in the global order no matter the order given', async () => {
+    const order:string[] = [];
+    const first = new Semaphore(1, { onAquire: () => order.push('first') });
+    const second = new Semaphore(2, { onAquire: () => order.push('second') });
+    const third = new Semaphore(1, { onAquire: () => order.push('third') });
+
+    const value = await withLocks([ third, first, second ], () => {
+      expect(first.isLocked && third.isLocked, 'holds every lock').to.be.true;
+      return 42;
+    });
+
+    expect(value).to.equal(42);
+    expect(order).to.eql([ 'first', 'second', 'third' ]);
+    expect(first.isLocked || third.isLocked, 'released afterwards').to.be.false;
+    expect(second.stats().holders).to.equal(0);
+  });
+
+  it('releases every lock when the callback throws', async () => {
+    const first = new Mutex();
+    const second = new Mutex();
+
+    let caught:unknown = null;
+    await withLocks([ first, second ], () => {
+      throw new Error('failed');
+    }).catch(err => {
+      caught = err;
+    });
+
+    expect(caught).to.be.instanceOf(Error);
+    expect(first.isLocked || second.isLocked).to.be.false;
+  });
+
+  it('does not deadlock when called with opposite orders', async () => {
+    const first = new Mutex();
+    const second = new Mutex();
+    const done:string[] = [];
+
+    const one = withLocks([ first, second ], async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      done.push('one');
+    });
+    const two = withLocks([ second, first ], async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      done.push('two');
+    });
+
+    await clock.tickAsync(20);
+    await Promise.all([ one, two ]);
+    expect(done).to.eql([ 'one', 'two' ]);
+  });
+
+  it('acquires a lock given more than once only once', async () => {
+    const mtx = new Mutex();
+
+    let ran = false;
+    await withLocks([ mtx, mtx ], () => {
+      ran = true;
+    });
+
+    expect(ran).to.be.true;
+    expect(mtx.isLocked).to.be.false;
+  });
+
+  it('releases partial holds when timing out', async () => {
+    const first = new Mutex();
+    const second = new Mutex();
+    const release = second.tryLock();
+
+    let caught:unknown = null;
+    let ran = false;
+    withLocks([ first, second ], () => {
+      ran = true;
+    }, { timeout: 10 }).catch(err => {
+      caught = err;
+    });
+
+    await clock.tickAsync(0);
+    expect(first.isLocked, 'holds the first while waiting').to.be.true;
+
+    await clock.tickAsync(10);
+    expect(caught).to.equal(ErrTimeout);
+    expect(ran).to.be.false;
+    expect(first.isLocked, 'backed off').to.be.false;
+
+    release?.();
+    expect(second.isLocked).to.be.false;
+  });
+
+  it('releases partial holds when aborted', async () => {
+    const first = new Semaphore(1);
+    const second = new Mutex();
+    const release = second.tryLock();
+    const controller = new AbortController();
+    const reason = new Error('aborted');
+
+    let caught:unknown = null;
+    withLocks([ first, second ], () => null, { signal: controller.signal }).catch(err => {
+      caught = err;
+    });
+
+    await clock.tickAsync(0);
+    expect(first.isLocked).to.be.true;
+
+    controller.abort(reason);
+    await clock.tickAsync(0);
+    expect(caught).to.equal(reason);
+    expect(first.isLocked).to.be.false;
+
+    release?.();
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import {
+  AddressInfo,
+  Socket,
+  connect,
+  createServer,
+} from 'net';
+
+import LockServer from '../src/lockserver';
+import TcpBackend from '../src/tcpbackend';
+import RemoteMutex from '../src/remotemutex';
+import InMemoryBackend from '../src/memorybackend';
+import type { LockLease } from '../src/backend';
+import { LeaseLostError, LockBackendError } from '../src/errors';
+
+const delay = (ms:number) => new Promise(res => setTimeout(res, ms));
+
+describe('LockServer', () => {
+  let server:LockServer;
+  let port:number;
+  let clients:TcpBackend[];
+
+  const client = () => {
+    const backend = new TcpBackend({ port });
+    clients.push(backend);
+    return backend;
+  };
+
+  beforeEach(async () => {
+    server = new LockServer();
+    port = await server.listen();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(backend => backend.close()));
+    await server.close();
+  });
+
+  it('listens on a free port', () => {
+    expect(port).to.be.above(0);
+    expect(server.port).to.equal(port);
+  });
+
+  it('grants leases to one client at a time', async () => {
+    const first = client();
+    const second = client();
+
+    const lease = await first.acquire('jobs', 'a', 1000) as LockLease;
+    expect(lease).to.include({
+      key: 'jobs',
+      owner: 'a',
+    });
+    expect(await second.acquire('jobs', 'b', 1000)).to.be.null;
+
+    await first.release(lease);
+    const next = await second.acquire('jobs', 'b', 1000) as LockLease;
+    expect(next.token).to.be.above(lease.token);
+  });
+
+  it('passes a lost lease back as LeaseLostError', async () => {
+    const backend = client();
+
+    const lease = await backend.acquire('jobs', 'a', 1000) as LockLease;
+    await backend.release(lease);
+
+    let caught:unknown = null;
+    await backend.renew(lease, 1000).catch(err => {
+      caught = err;
+    });
+    expect(caught).to.be.instanceOf(LeaseLostError);
+    expect(caught).to.include({
+      key: 'jobs',
+      token: lease.token,
+    });
+  });
+
+  it('answers bad requests with an error', async () => {
+    const socket:Socket = connect(port, '127.0.0.1');
+    socket.setEncoding('utf8');
+
+    const answer = new Promise<string>(res => socket.once('data', res));
+    socket.write('{"id":7,"op":"explode"}\n');
+
+    expect(JSON.parse(await answer)).to.deep.include({
+      id: 7,
+      ok: false,
+    });
+    socket.destroy();
+  });
+
+  it('disconnects clients sending a line longer than maxLineLength', async () => {
+    await server.close();
+    server = new LockServer(undefined, { maxLineLength: 64 });
+    port = await server.listen();
+
+    const socket:Socket = connect(port, '127.0.0.1');
+    const closed = new Promise<void>(res => socket.once('close', () => res()));
+    socket.on('error', () => null);
+    socket.write('x'.repeat(100));
+
+    await closed;
+    expect(socket.destroyed).to.be.true;
+  });
+
+  it('throws on a bad maxLineLength', () => {
+    expect(() => new LockServer(undefined, { maxLineLength: 0 })).to.throw(TypeError);
+  });
+
+  it('coordinates RemoteMutex instances over separate connections', async () => {
+    const backend = new InMemoryBackend();
+    await server.close();
+    server = new LockServer(backend);
+    port = await server.listen();
+
+    const tokens:number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    const mutexes = [ client(), client(), client() ].map(conn => new RemoteMutex(conn, 'jobs', {
+      pollInterval: 2,
+      maxPollInterval: 10,
+    }));
+    await Promise.all(mutexes.map(mtx => mtx.guard(async token => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      tokens.push(token);
+      await delay(5);
+      active--;
+    })));
+
+    expect(maxActive).to.equal(1);
+    expect(tokens).to.eql([ ...tokens ].sort((a, b) => a - b));
+    expect(backend.peek('jobs')).to.be.null;
+  });
+
+  describe('TcpBackend', () => {
+    it('throws on a bad port', () => {
+      expect(() => new TcpBackend({ port: 0 })).to.throw(TypeError);
+    });
+
+    it('rejects with LockBackendError when the server is gone', async () => {
+      await server.close();
+      const backend = client();
+
+      let caught:unknown = null;
+      await backend.acquire('jobs', 'a', 1000).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(LockBackendError);
+    });
+
+    it('rejects with LockBackendError when the server answers with a non-object', async () => {
+      const fake = createServer(socket => socket.on('data', () => socket.write('null\n')));
+      await new Promise<void>(resolve => fake.listen(0, '127.0.0.1', resolve));
+
+      const backend = new TcpBackend({ port: (fake.address() as AddressInfo).port });
+
+      let caught:unknown = null;
+      try {
+        await backend.acquire('jobs', 'a', 1000).catch(err => {
+          caught = err;
+        });
+      } finally {
+        await backend.close();
+        await new Promise(resolve => fake.close(resolve));
+      }
+      expect(caught).to.be.instanceOf(LockBackendError);
+    });
+
+    it('connects again after the connection drops', async () => {
+      const backend = client();
+      await backend.acquire('first', 'a', 1000);
+
+      await server.close();
+      port = await server.listen(port);
+
+      // The first request may still find the old connection
+      await backend.acquire('second', 'a', 1000).catch(() => null);
+      expect(await backend.acquire('third', 'a', 1000)).to.include({ key: 'third' });
+    });
+  });
+});
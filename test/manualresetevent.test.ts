@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import ManualResetEvent from '../src/manualresetevent';
+import { ErrCancelled, ErrTimeout } from '../src/errors';
+
+describe('ManualResetEvent', () => {
+  const clock = FakeTimers.createClock();
+
+  it('starts unset by default', () => {
+    expect(new ManualResetEvent().isSet).to.be.false;
+    expect(new ManualResetEvent(true).isSet).to.be.true;
+  });
+
+  it('releases every waiter when set, and stays set', async () => {
+    const evt = new ManualResetEvent();
+    let released = 0;
+
+    evt.wait().then(() => released++);
+    evt.wait().then(() => released++);
+
+    await clock.tickAsync(0);
+    expect(released).to.equal(0);
+
+    evt.set();
+    await clock.tickAsync(0);
+    expect(released).to.equal(2);
+
+    await evt.wait();
+    expect(evt.isSet).to.be.true;
+  });
+
+  it('makes waits wait again after a reset', async () => {
+    let firedOnReset = false;
+    const evt = new ManualResetEvent(true, {
+      onReset: () => {
+        firedOnReset = true;
+      },
+    });
+    let released = false;
+
+    evt.reset();
+    evt.wait().then(() => {
+      released = true;
+    });
+
+    await clock.tickAsync(0);
+    expect(released).to.be.false;
+    expect(firedOnReset).to.be.true;
+  });
+
+  it('rejects waiters on timeout, abort, and cancel', async () => {
+    const clk = FakeTimers.install();
+    try {
+      const evt = new ManualResetEvent();
+      const controller = new AbortController();
+      const reason = new Error('aborted');
+      const errors:unknown[] = [];
+
+      evt.wait({ timeout: 10 }).catch(err => errors.push(err));
+      evt.wait({ signal: controller.signal }).catch(err => errors.push(err));
+      evt.wait().catch(err => errors.push(err));
+
+      await clk.tickAsync(10);
+      controller.abort(reason);
+      evt.cancelAll();
+      await clk.tickAsync(0);
+
+      expect(errors).to.eql([
+        ErrTimeout,
+        reason,
+        ErrCancelled,
+      ]);
+    } finally {
+      clk.uninstall();
+    }
+  });
+});
@@ -3,8 +3,12 @@ import { describe } from 'mocha';
 import * as FakeTimers from '@sinonjs/fake-timers';
 
 import Mutex from '../src/mutex';
-import { Releaser } from '../src/types';
-import { ErrCancelled } from '../src/errors';
+import { Releaser, Skipped } from '../src/types';
+import {
+  ErrCancelled,
+  ErrClosed,
+  ErrTimeout,
+} from '../src/errors';
 
 describe('Mutex', () => {
   describe('Lock', () => {
@@ -74,10 +78,12 @@ describe('Mutex', () => {
     const testCancel = async (mtx:Mutex, errExpected:Error) => {
       let cancelled = false;
 
-      mtx.lock().then(() => {})
-        .catch(err => {
-          throw new Error('first lock should not cancel');
-        });
+      let firstRel:Releaser = () => {};
+      mtx.lock().then(rel => {
+        firstRel = rel;
+      }).catch(err => {
+        throw new Error('first lock should not cancel');
+      });
 
       mtx.lock().then(() => {})
         .catch(err => {
@@ -96,6 +102,9 @@ describe('Mutex', () => {
       await clock.tickAsync(0);
 
       expect(cancelled, 'catches got executed').to.be.true;
+      expect(mtx.isLocked, 'still held by the first lock').to.be.true;
+
+      firstRel();
       expect(mtx.isLocked, 'no longer locked').to.be.false;
     };
 
@@ -175,4 +184,515 @@ describe('Mutex', () => {
       expect(ret, 'returned value').to.equal(1);
     });
   });
+
+  describe('Timeout', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('rejects a waiting lock with ErrTimeout and removes it from the queue', async () => {
+      const mtx = new Mutex();
+      const vals:string[] = [];
+
+      const release = await mtx.lock();
+
+      mtx.lock({ timeout: 100 })
+        .then(() => vals.push('first'))
+        .catch(err => vals.push(err === ErrTimeout ? 'timeout' : 'wrong error'));
+      mtx.lock().then(() => vals.push('second'));
+
+      await clock.tickAsync(99);
+      expect(vals, 'still waiting').to.eql([]);
+
+      await clock.tickAsync(1);
+      expect(vals, 'timed out').to.eql([ 'timeout' ]);
+
+      release();
+      await clock.tickAsync(0);
+      expect(vals, 'timed out waiter skipped').to.eql([ 'timeout', 'second' ]);
+    });
+
+    it('uses the default timeout from the options', async () => {
+      const mtx = new Mutex({ timeout: 50 });
+
+      await mtx.lock();
+
+      let timedOut = false;
+      mtx.guard(() => 1).catch(err => {
+        timedOut = (err === ErrTimeout);
+      });
+
+      await clock.tickAsync(50);
+      expect(timedOut).to.be.true;
+      expect(mtx.isLocked, 'holder keeps the lock').to.be.true;
+    });
+
+    it('does not time out once the lock is acquired', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock();
+      const prom = mtx.lock({ timeout: 100 });
+
+      release();
+      const second = await prom;
+
+      await clock.tickAsync(200);
+      expect(mtx.isLocked).to.be.true;
+      second();
+    });
+  });
+
+  describe('Abort Signal', () => {
+    const clock = FakeTimers.createClock();
+
+    it('rejects only the aborted waiter with the signal reason', async () => {
+      const mtx = new Mutex();
+      const vals:string[] = [];
+      const reason = new Error('aborted');
+      const controller = new AbortController();
+
+      const release = await mtx.lock();
+
+      mtx.lock({ signal: controller.signal })
+        .then(() => vals.push('aborted waiter'))
+        .catch(err => vals.push(err === reason ? 'reason' : 'wrong error'));
+      mtx.lock().then(() => vals.push('second'));
+
+      controller.abort(reason);
+      await clock.tickAsync(0);
+      expect(vals).to.eql([ 'reason' ]);
+
+      release();
+      await clock.tickAsync(0);
+      expect(vals).to.eql([ 'reason', 'second' ]);
+    });
+
+    it('rejects an already aborted signal without queueing', async () => {
+      const mtx = new Mutex();
+      const controller = new AbortController();
+      controller.abort();
+
+      let rejected = false;
+      await mtx.lock({ signal: controller.signal }).catch(() => {
+        rejected = true;
+      });
+
+      expect(rejected).to.be.true;
+      expect(mtx.isLocked, 'never locked').to.be.false;
+    });
+
+    it('falls back to ErrCancelled when the signal has no reason', async () => {
+      const mtx = new Mutex();
+      const controller = new AbortController();
+
+      await mtx.lock();
+
+      let cancelled = false;
+      mtx.guard(() => 1, { signal: controller.signal }).catch(err => {
+        cancelled = (err === ErrCancelled || err.name === 'AbortError');
+      });
+
+      controller.abort();
+      await clock.tickAsync(0);
+      expect(cancelled).to.be.true;
+    });
+  });
+
+  describe('Try Lock', () => {
+    const clock = FakeTimers.createClock();
+
+    it('locks immediately when available', () => {
+      const mtx = new Mutex();
+
+      const release = mtx.tryLock();
+      expect(release).to.be.a('function');
+      expect(mtx.isLocked).to.be.true;
+
+      expect(mtx.tryLock(), 'second try fails').to.be.null;
+
+      release?.();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('hands the lock to waiters after a try lock is released', async () => {
+      const mtx = new Mutex();
+      let waited = false;
+
+      const release = mtx.tryLock();
+      mtx.lock().then(() => {
+        waited = true;
+      });
+
+      release?.();
+      await clock.tickAsync(0);
+      expect(waited).to.be.true;
+    });
+
+    it('tryGuard skips the callback when locked', async () => {
+      const mtx = new Mutex();
+
+      await mtx.lock();
+
+      let called = false;
+      const results = await mtx.tryGuard(() => {
+        called = true;
+      });
+
+      expect(called).to.be.false;
+      expect(results).to.equal(Skipped);
+    });
+
+    it('tryGuard runs the callback when free', async () => {
+      const mtx = new Mutex();
+
+      const results = await mtx.tryGuard(() => 42);
+      expect(results).to.equal(42);
+      expect(mtx.isLocked).to.be.false;
+    });
+  });
+
+  describe('Queue Discipline', () => {
+    const clock = FakeTimers.createClock();
+
+    it('grants waiting locks by priority', async () => {
+      const mtx = new Mutex({ queue: 'priority' });
+      const vals:string[] = [];
+
+      const release = await mtx.lock();
+
+      mtx.guard(() => vals.push('batch'), { priority: 0 });
+      mtx.guard(() => vals.push('interactive'), { priority: 10 });
+      mtx.guard(() => vals.push('batch 2'));
+
+      release();
+      await clock.tickAsync(0);
+
+      expect(vals).to.eql([
+        'interactive',
+        'batch',
+        'batch 2',
+      ]);
+    });
+  });
+
+  describe('Stats', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('only reports the current state when disabled', async () => {
+      const mtx = new Mutex();
+
+      await mtx.lock();
+      mtx.lock();
+
+      const stats = mtx.stats();
+      expect(stats).to.include({
+        holders: 1,
+        waiting: 1,
+        acquisitions: 0,
+      });
+      expect(stats.waitTime.count).to.equal(0);
+    });
+
+    it('records acquisitions, wait and hold times', async () => {
+      const mtx = new Mutex({ stats: true });
+
+      const release = await mtx.lock();
+      const waiting = mtx.lock();
+
+      await clock.tickAsync(30);
+      release();
+      const second = await waiting;
+
+      mtx.lock({ timeout: 10 }).catch(() => null);
+      mtx.cancelAll();
+      second();
+
+      const stats = mtx.stats();
+      expect(stats).to.include({
+        holders: 0,
+        waiting: 0,
+        acquisitions: 2,
+        cancellations: 1,
+        timeouts: 0,
+      });
+      expect(stats.waitTime).to.include({
+        count: 2,
+        min: 0,
+        max: 30,
+        mean: 15,
+        p99: 30,
+      });
+      expect(stats.holdTime).to.include({
+        count: 2,
+        max: 30,
+      });
+    });
+
+    it('counts timeouts and resets', async () => {
+      const mtx = new Mutex({ stats: true });
+
+      const release = await mtx.lock();
+      mtx.lock({ timeout: 10 }).catch(() => null);
+      await clock.tickAsync(10);
+
+      expect(mtx.stats().timeouts).to.equal(1);
+
+      release();
+      mtx.resetStats();
+      expect(mtx.stats()).to.include({
+        acquisitions: 0,
+        timeouts: 0,
+      });
+    });
+  });
+
+  describe('TTL', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('releases the hold once the ttl elapses', async () => {
+      const expired:unknown[] = [];
+      const mtx = new Mutex({
+        name: 'cache',
+        onExpire: hold => expired.push(hold),
+      });
+      const vals:number[] = [];
+
+      const release = await mtx.lock({ ttl: 100 });
+      expect(release.expiresAt).to.equal(Date.now() + 100);
+      mtx.guard(() => vals.push(2));
+
+      await clock.tickAsync(99);
+      expect(vals, 'still held').to.eql([]);
+
+      await clock.tickAsync(1);
+      expect(vals).to.eql([ 2 ]);
+      expect(release.expiresAt).to.be.null;
+      expect(expired).to.eql([
+        {
+          name: 'cache',
+          task: undefined,
+          heldFor: 100,
+        },
+      ]);
+    });
+
+    it('ignores the releaser after the hold expired', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock({ ttl: 50 });
+      await clock.tickAsync(50);
+
+      const second = await mtx.lock();
+      release();
+      expect(mtx.isLocked, 'still held by the second').to.be.true;
+
+      second();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('pushes the expiry back with extend', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock({ ttl: 50 });
+      await clock.tickAsync(40);
+      expect(release.extend(50)).to.be.true;
+
+      await clock.tickAsync(40);
+      expect(mtx.isLocked, 'extended').to.be.true;
+
+      await clock.tickAsync(10);
+      expect(mtx.isLocked).to.be.false;
+      expect(release.extend(50), 'already expired').to.be.false;
+    });
+
+    it('starts the ttl once a waiting lock is granted', async () => {
+      const mtx = new Mutex();
+
+      const first = await mtx.lock();
+      const waiting = mtx.lock({ ttl: 50 });
+
+      await clock.tickAsync(100);
+      first();
+      const second = await waiting;
+      expect(second.expiresAt).to.equal(Date.now() + 50);
+
+      await clock.tickAsync(50);
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('never expires holds without a ttl', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock();
+      expect(release.expiresAt).to.be.null;
+      expect(release.extend(50)).to.be.false;
+
+      await clock.tickAsync(1000);
+      expect(mtx.isLocked).to.be.true;
+      release();
+    });
+
+    it('expires holds from tryLock', async () => {
+      const mtx = new Mutex();
+
+      mtx.tryLock({ ttl: 20 });
+      await clock.tickAsync(20);
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('rejects a ttl that is not a positive number', async () => {
+      const mtx = new Mutex();
+
+      let caught:unknown = null;
+      await mtx.lock({ ttl: 0 }).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(TypeError);
+      expect(() => mtx.tryLock({ ttl: -1 })).to.throw(TypeError);
+    });
+  });
+
+  describe('Lifecycle', () => {
+    const clock = FakeTimers.createClock();
+
+    it('keeps the held lock accounted for when cancelling', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock();
+      mtx.lock().catch(() => {});
+      mtx.cancelAll();
+
+      expect(mtx.tryLock(), 'can not lock while held').to.be.null;
+
+      release();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('rejects new locks with ErrClosed once closed', async () => {
+      const mtx = new Mutex();
+
+      const release = await mtx.lock();
+      let waiting:unknown = null;
+      mtx.lock().catch(err => {
+        waiting = err;
+      });
+
+      mtx.close();
+      await clock.tickAsync(0);
+
+      expect(mtx.isClosed).to.be.true;
+      expect(waiting, 'waiting lock rejected').to.equal(ErrClosed);
+      expect(mtx.isLocked, 'held lock stays held').to.be.true;
+
+      let caught:unknown = null;
+      await mtx.lock().catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(ErrClosed);
+      expect(() => mtx.tryLock()).to.throw(ErrClosed);
+
+      release();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('drains the waiting locks before resolving', async () => {
+      const mtx = new Mutex();
+      const events:string[] = [];
+
+      const first = await mtx.lock();
+      let second:Releaser = () => {};
+      mtx.lock().then(rel => {
+        events.push('second');
+        second = rel;
+      });
+
+      mtx.drain().then(() => events.push('drained'));
+
+      let caught:unknown = null;
+      await mtx.lock().catch(err => {
+        caught = err;
+      });
+      expect(caught, 'refuses new locks').to.equal(ErrClosed);
+
+      first();
+      await clock.tickAsync(0);
+      expect(events).to.eql([ 'second' ]);
+
+      second();
+      await clock.tickAsync(0);
+      expect(events).to.eql([ 'second', 'drained' ]);
+    });
+
+    it('resolves onIdle once released without closing', async () => {
+      const mtx = new Mutex();
+
+      let idle = false;
+      await mtx.onIdle();
+
+      const release = await mtx.lock();
+      mtx.onIdle().then(() => {
+        idle = true;
+      });
+
+      await clock.tickAsync(0);
+      expect(idle).to.be.false;
+
+      release();
+      await clock.tickAsync(0);
+      expect(idle).to.be.true;
+      expect(mtx.isClosed).to.be.false;
+    });
+
+    it('waits for the lock to be free without locking', async () => {
+      const fake = FakeTimers.install();
+      try {
+        const mtx = new Mutex();
+
+        const release = await mtx.lock();
+
+        let timedOut:unknown = null;
+        mtx.waitForUnlock({ timeout: 10 }).catch(err => {
+          timedOut = err;
+        });
+
+        let unlocked = false;
+        mtx.waitForUnlock().then(() => {
+          unlocked = true;
+        });
+
+        await fake.tickAsync(10);
+        expect(timedOut).to.equal(ErrTimeout);
+        expect(unlocked).to.be.false;
+
+        release();
+        await fake.tickAsync(0);
+        expect(unlocked).to.be.true;
+        expect(mtx.isLocked, 'did not lock').to.be.false;
+      } finally {
+        fake.uninstall();
+      }
+    });
+  });
 });
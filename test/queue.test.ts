@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import {
+  FifoQueue,
+  LifoQueue,
+  PriorityQueue,
+  WaitQueue,
+  createQueue,
+} from '../src/queue';
+
+const drain = <T>(queue:WaitQueue<T>):T[] => {
+  const out:T[] = [];
+  while(queue.length > 0)
+    out.push(queue.shift() as T);
+  return out;
+};
+
+describe('Queues', () => {
+  describe('FifoQueue', () => {
+    it('grants in insertion order', () => {
+      const queue = new FifoQueue<string>();
+      queue.push('a');
+      queue.push('b');
+      queue.push('c');
+
+      expect(queue.peek()).to.equal('a');
+      expect(drain(queue)).to.eql([ 'a', 'b', 'c' ]);
+    });
+
+    it('removes specific entries', () => {
+      const queue = new FifoQueue<string>();
+      queue.push('a');
+      queue.push('b');
+
+      expect(queue.remove('a')).to.be.true;
+      expect(queue.remove('a')).to.be.false;
+      expect(queue.has('b')).to.be.true;
+      expect(queue.clear()).to.eql([ 'b' ]);
+      expect(queue.length).to.equal(0);
+    });
+  });
+
+  describe('LifoQueue', () => {
+    it('grants the newest first', () => {
+      const queue = new LifoQueue<string>();
+      queue.push('a');
+      queue.push('b');
+      queue.push('c');
+
+      expect(queue.peek()).to.equal('c');
+      expect(queue.clear()).to.eql([ 'c', 'b', 'a' ]);
+    });
+  });
+
+  describe('PriorityQueue', () => {
+    it('grants higher priorities first and is stable for equal priorities', () => {
+      const queue = new PriorityQueue<string>();
+      queue.push('low', -1);
+      queue.push('first');
+      queue.push('high', 5);
+      queue.push('second');
+
+      expect(drain(queue)).to.eql([
+        'high',
+        'first',
+        'second',
+        'low',
+      ]);
+    });
+
+    it('ages long waiting entries', () => {
+      let now = 0;
+      const queue = new PriorityQueue<string>({
+        agingInterval: 100,
+        now: () => now,
+      });
+
+      queue.push('old', 0);
+      now = 250;
+      queue.push('new', 2);
+
+      // Old has aged +2, and is tied but was pushed first
+      expect(queue.shift()).to.equal('old');
+      expect(queue.shift()).to.equal('new');
+    });
+
+    it('throws on an invalid agingInterval', () => {
+      expect(() => new PriorityQueue({ agingInterval: -1 })).to.throw(TypeError);
+    });
+  });
+
+  describe('createQueue', () => {
+    it('creates the built-in disciplines', () => {
+      expect(createQueue()).to.be.instanceOf(FifoQueue);
+      expect(createQueue('lifo')).to.be.instanceOf(LifoQueue);
+      expect(createQueue('priority')).to.be.instanceOf(PriorityQueue);
+    });
+
+    it('uses custom factories', () => {
+      const queue = createQueue(() => new LifoQueue());
+      expect(queue).to.be.instanceOf(LifoQueue);
+    });
+
+    it('throws on unknown disciplines', () => {
+      expect(() => createQueue('random' as unknown as 'fifo')).to.throw(TypeError);
+    });
+  });
+});
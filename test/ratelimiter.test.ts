@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import RateLimiter, { RateLimiterClock } from '../src/ratelimiter';
+import SynchroError, { ErrCancelled } from '../src/errors';
+
+describe('RateLimiter', () => {
+  let clock:FakeTimers.Clock;
+  let limiterClock:RateLimiterClock;
+
+  beforeEach(() => {
+    clock = FakeTimers.createClock();
+    limiterClock = {
+      now: () => clock.now,
+      setTimeout: clock.setTimeout,
+      clearTimeout: clock.clearTimeout,
+    };
+  });
+
+  const granted = (limiter:RateLimiter, count:number) => {
+    const times:number[] = [];
+    for(let index = 0; index < count; index++) {
+      limiter.acquire().then(([ release ]) => {
+        times.push(clock.now);
+        release();
+      });
+    }
+    return times;
+  };
+
+  describe('Constructor', () => {
+    it('validates the limits', () => {
+      expect(() => new RateLimiter(0)).to.throw(TypeError);
+      expect(() => new RateLimiter(1, { interval: -1 })).to.throw(TypeError);
+      expect(() => new RateLimiter(1, { algorithm: 'leaky' as unknown as 'token-bucket' })).to.throw(TypeError);
+      expect(() => new RateLimiter(0.5, { algorithm: 'sliding-window' })).to.throw(TypeError);
+    });
+  });
+
+  describe('Token bucket', () => {
+    it('allows a burst, then refills at the rate', async () => {
+      const limiter = new RateLimiter(2, {
+        burst: 3,
+        clock: limiterClock,
+      });
+
+      const times = granted(limiter, 5);
+
+      await clock.tickAsync(0);
+      expect(times).to.eql([ 0, 0, 0 ]);
+      expect(limiter.waiting).to.equal(2);
+
+      await clock.tickAsync(1000);
+      expect(times).to.eql([ 0, 0, 0, 500, 1000 ]);
+    });
+
+    it('hands out one token at a time below a rate of 1', async () => {
+      const limiter = new RateLimiter(0.5, { clock: limiterClock });
+
+      const times = granted(limiter, 3);
+
+      await clock.tickAsync(4000);
+      expect(times).to.eql([ 0, 2000, 4000 ]);
+    });
+
+    it('rejects weights larger than the bucket', async () => {
+      const limiter = new RateLimiter(2, { clock: limiterClock });
+
+      let caught:unknown = null;
+      await limiter.acquire(3).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(SynchroError);
+    });
+  });
+
+  describe('Sliding window', () => {
+    it('hands out at most the limit per interval', async () => {
+      const limiter = new RateLimiter(2, {
+        algorithm: 'sliding-window',
+        interval: 100,
+        clock: limiterClock,
+      });
+
+      await limiter.acquire();
+      await clock.tickAsync(40);
+      const times = granted(limiter, 3);
+
+      await clock.tickAsync(0);
+      expect(times).to.eql([ 40 ]);
+      expect(limiter.available).to.equal(0);
+
+      await clock.tickAsync(200);
+      expect(times).to.eql([ 40, 100, 140 ]);
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('caps the rate and concurrency together', async () => {
+      const limiter = new RateLimiter(10, {
+        maxConcurrent: 1,
+        clock: limiterClock,
+      });
+
+      const [ release ] = await limiter.acquire();
+      let secondIn = false;
+      limiter.acquire().then(() => {
+        secondIn = true;
+      });
+
+      await clock.tickAsync(500);
+      expect(secondIn, 'tokens left, but no slot').to.be.false;
+      expect(limiter.isLocked).to.be.true;
+
+      release();
+      await clock.tickAsync(0);
+      expect(secondIn).to.be.true;
+    });
+  });
+
+  describe('Cancelling', () => {
+    it('rejects waiters on abort and cancel', async () => {
+      const limiter = new RateLimiter(1, { clock: limiterClock });
+      const controller = new AbortController();
+      const reason = new Error('aborted');
+      const errors:unknown[] = [];
+
+      await limiter.acquire();
+      limiter.acquire({ signal: controller.signal }).catch(err => errors.push(err));
+      limiter.acquire().catch(err => errors.push(err));
+
+      controller.abort(reason);
+      limiter.cancelAll();
+      await clock.tickAsync(5000);
+
+      expect(errors).to.eql([ reason, ErrCancelled ]);
+      expect(limiter.available, 'tokens keep refilling').to.equal(1);
+    });
+
+    it('times out waiters', async () => {
+      const installed = FakeTimers.install();
+      try {
+        const limiter = new RateLimiter(1, { timeout: 100 });
+
+        await limiter.guard(() => null);
+
+        let timedOut = false;
+        limiter.acquire().catch(() => {
+          timedOut = true;
+        });
+
+        await installed.tickAsync(100);
+        expect(timedOut).to.be.true;
+        expect(limiter.waiting).to.equal(0);
+      } finally {
+        installed.uninstall();
+      }
+    });
+  });
+});
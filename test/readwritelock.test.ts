@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import ReadWriteLock from '../src/readwritelock';
+import SynchroError, { ErrCancelled } from '../src/errors';
+
+describe('ReadWriteLock', () => {
+  const clock = FakeTimers.createClock();
+
+  describe('Constructor', () => {
+    it('uses the fair policy by default', () => {
+      const rwl = new ReadWriteLock();
+      expect(rwl.policy).to.equal('fair');
+      expect(rwl.isLocked).to.be.false;
+    });
+
+    it('throws on an unknown policy', () => {
+      expect(() => new ReadWriteLock({ policy: 'random' as unknown as 'fair' })).to.throw(TypeError);
+    });
+  });
+
+  describe('Locking', () => {
+    it('allows multiple readers at once', async () => {
+      const rwl = new ReadWriteLock();
+
+      const first = await rwl.lockRead();
+      const second = await rwl.lockRead();
+
+      expect(rwl.readers).to.equal(2);
+      expect(rwl.isReadLocked).to.be.true;
+      expect(rwl.isWriteLocked).to.be.false;
+
+      first();
+      second();
+
+      expect(rwl.isLocked).to.be.false;
+    });
+
+    it('gives writers exclusive access', async () => {
+      const rwl = new ReadWriteLock();
+      const vals:string[] = [];
+
+      const unlockWrite = await rwl.lockWrite();
+      rwl.lockRead().then(() => vals.push('read'));
+      rwl.lockWrite().then(() => vals.push('write'));
+
+      await clock.tickAsync(0);
+      expect(vals).to.eql([]);
+      expect(rwl.isWriteLocked).to.be.true;
+
+      unlockWrite();
+      await clock.tickAsync(0);
+      expect(vals, 'reader goes first in fair order').to.eql([ 'read' ]);
+    });
+
+    it('does not release twice', async () => {
+      const rwl = new ReadWriteLock();
+
+      const first = await rwl.lockRead();
+      await rwl.lockRead();
+
+      first();
+      first();
+
+      expect(rwl.readers).to.equal(1);
+    });
+  });
+
+  describe('Policies', () => {
+    const runScenario = async (rwl:ReadWriteLock):Promise<string[]> => {
+      const order:string[] = [];
+
+      const unlockRead = await rwl.lockRead();
+      rwl.lockWrite().then(release => {
+        order.push('write');
+        release();
+      });
+      rwl.lockRead().then(release => {
+        order.push('read');
+        release();
+      });
+
+      await clock.tickAsync(0);
+      unlockRead();
+      await clock.tickAsync(0);
+
+      return order;
+    };
+
+    it('prefer-readers lets readers pass waiting writers', async () => {
+      const order = await runScenario(new ReadWriteLock({ policy: 'prefer-readers' }));
+      expect(order).to.eql([ 'read', 'write' ]);
+    });
+
+    it('prefer-writers holds readers back while a writer waits', async () => {
+      const order = await runScenario(new ReadWriteLock({ policy: 'prefer-writers' }));
+      expect(order).to.eql([ 'write', 'read' ]);
+    });
+
+    it('fair grants in request order', async () => {
+      const order = await runScenario(new ReadWriteLock({ policy: 'fair' }));
+      expect(order).to.eql([ 'write', 'read' ]);
+    });
+  });
+
+  describe('Downgrade', () => {
+    it('converts a write lock into a read lock', async () => {
+      const rwl = new ReadWriteLock();
+      let readerIn = false;
+
+      const unlockWrite = await rwl.lockWrite();
+      rwl.lockRead().then(() => {
+        readerIn = true;
+      });
+
+      const unlockRead = rwl.downgrade(unlockWrite);
+      await clock.tickAsync(0);
+
+      expect(readerIn, 'waiting reader let in').to.be.true;
+      expect(rwl.isWriteLocked).to.be.false;
+      expect(rwl.readers).to.equal(2);
+
+      // The old write releaser is now a no-op
+      unlockWrite();
+      expect(rwl.readers).to.equal(2);
+
+      unlockRead();
+      expect(rwl.readers).to.equal(1);
+    });
+
+    it('throws when not given the active write releaser', async () => {
+      const rwl = new ReadWriteLock();
+
+      const unlockRead = await rwl.lockRead();
+      expect(() => rwl.downgrade(unlockRead)).to.throw(SynchroError);
+    });
+  });
+
+  describe('Guards and cancelling', () => {
+    it('guards reads and writes', async () => {
+      const rwl = new ReadWriteLock();
+
+      const read = await rwl.guardRead(() => 1);
+      const write = await rwl.guardWrite(() => 2);
+
+      expect(read + write).to.equal(3);
+      expect(rwl.isLocked).to.be.false;
+    });
+
+    it('cancels waiting locks only', async () => {
+      let firedOnCancel = false;
+      const rwl = new ReadWriteLock({
+        onCancel: () => {
+          firedOnCancel = true;
+        },
+      });
+
+      let cancelled = false;
+      await rwl.lockWrite();
+      rwl.lockRead().catch(err => {
+        cancelled = (err === ErrCancelled);
+      });
+
+      rwl.cancelAll();
+      await clock.tickAsync(0);
+
+      expect(cancelled, 'waiting reader rejected').to.be.true;
+      expect(firedOnCancel, 'fired onCancel').to.be.true;
+      expect(rwl.isWriteLocked, 'holder keeps the lock').to.be.true;
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import ReentrantMutex from '../src/reentrantmutex';
+import SynchroError from '../src/errors';
+import { runTask } from '../src/context';
+
+describe('ReentrantMutex', () => {
+  const clock = FakeTimers.createClock();
+
+  it('allows nested guards without deadlocking', async () => {
+    const mtx = new ReentrantMutex();
+
+    const results = await mtx.guard(async () => {
+      expect(mtx.holds).to.equal(1);
+      return mtx.guard(() => mtx.holds);
+    });
+
+    expect(results).to.equal(2);
+    expect(mtx.isLocked).to.be.false;
+    expect(mtx.holds).to.equal(0);
+  });
+
+  it('only unlocks once every hold is released', async () => {
+    const mtx = new ReentrantMutex();
+    let otherIn = false;
+
+    await runTask(async () => {
+      const outer = await mtx.lock();
+      const inner = await mtx.lock();
+      expect(mtx.tryLock(), 'try re-enters too').to.be.a('function');
+
+      // A nested task is a different owner
+      runTask(() => mtx.guard(() => {
+        otherIn = true;
+      }));
+
+      outer();
+      await clock.tickAsync(0);
+      expect(otherIn, 'still held').to.be.false;
+
+      inner();
+    });
+
+    await clock.tickAsync(0);
+    expect(otherIn, 'one hold left').to.be.false;
+  });
+
+  it('makes other tasks wait', async () => {
+    const mtx = new ReentrantMutex();
+    const vals:string[] = [];
+
+    const first = runTask(() => mtx.guard(async () => {
+      await clock.tickAsync(0);
+      vals.push('first');
+    }));
+    const second = runTask(() => mtx.guard(() => {
+      vals.push('second');
+    }));
+
+    expect(mtx.tryLock(), 'no task owns outside').to.be.null;
+
+    await Promise.all([ first, second ]);
+    expect(vals).to.eql([ 'first', 'second' ]);
+  });
+
+  it('throws when released from a different context', async () => {
+    const mtx = new ReentrantMutex();
+
+    const release = await runTask(() => mtx.lock());
+
+    expect(() => release()).to.throw(SynchroError);
+    expect(mtx.isLocked).to.be.true;
+  });
+
+  it('expires every hold along with the outer lock', async () => {
+    const timers = FakeTimers.install();
+    try {
+      const mtx = new ReentrantMutex();
+      let otherIn = false;
+
+      await runTask(async () => {
+        const outer = await mtx.lock({ ttl: 50 });
+        const inner = await mtx.lock();
+        expect(inner.expiresAt).to.equal(outer.expiresAt);
+
+        runTask(() => mtx.guard(() => {
+          otherIn = true;
+        }));
+
+        await timers.tickAsync(50);
+        expect(otherIn).to.be.true;
+        expect(mtx.holds).to.equal(0);
+
+        // Stale holds can not release the lock from it's next owner
+        const next = await mtx.lock();
+        inner();
+        outer();
+        expect(mtx.holds).to.equal(1);
+        next();
+      });
+
+      expect(mtx.isLocked).to.be.false;
+    } finally {
+      timers.uninstall();
+    }
+  });
+});
@@ -0,0 +1,300 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import RemoteMutex from '../src/remotemutex';
+import InMemoryBackend from '../src/memorybackend';
+import type { LockBackend, LockLease } from '../src/backend';
+import {
+  ErrCancelled,
+  ErrTimeout,
+  LeaseLostError,
+  LockBackendError,
+} from '../src/errors';
+
+const delay = (ms:number) => new Promise(res => setTimeout(res, ms));
+
+describe('InMemoryBackend', () => {
+  it('grants a key to one owner at a time', async () => {
+    const backend = new InMemoryBackend();
+
+    const lease = await backend.acquire('jobs', 'a', 1000);
+    expect(lease).to.include({
+      key: 'jobs',
+      owner: 'a',
+    });
+    expect(await backend.acquire('jobs', 'b', 1000)).to.be.null;
+
+    await backend.release(lease as LockLease);
+    expect(await backend.acquire('jobs', 'b', 1000)).to.include({ owner: 'b' });
+  });
+
+  it('hands out strictly increasing tokens for each key', async () => {
+    const backend = new InMemoryBackend();
+    const tokens:number[] = [];
+
+    for(let i = 0; i < 3; i++) {
+      const lease = await backend.acquire('jobs', 'a', 1000) as LockLease;
+      tokens.push(lease.token);
+      await backend.release(lease);
+    }
+
+    expect(tokens[1]).to.be.above(tokens[0]);
+    expect(tokens[2]).to.be.above(tokens[1]);
+  });
+
+  it('expires leases that are not renewed', async () => {
+    let now = 1000;
+    const backend = new InMemoryBackend({ now: () => now });
+
+    const first = await backend.acquire('jobs', 'a', 100) as LockLease;
+    now += 50;
+    const renewed = await backend.renew(first, 100);
+    expect(renewed.expiresAt).to.equal(1150);
+
+    now += 200;
+    const second = await backend.acquire('jobs', 'b', 100) as LockLease;
+    expect(second.token).to.be.above(first.token);
+
+    let caught:unknown = null;
+    await backend.renew(first, 100).catch(err => {
+      caught = err;
+    });
+    expect(caught).to.be.instanceOf(LeaseLostError);
+    expect(caught).to.include({
+      key: 'jobs',
+      token: first.token,
+    });
+  });
+
+  it('ignores releasing a lease that was lost', async () => {
+    let now = 1000;
+    const backend = new InMemoryBackend({ now: () => now });
+
+    const first = await backend.acquire('jobs', 'a', 100) as LockLease;
+    now += 200;
+    const second = await backend.acquire('jobs', 'b', 100) as LockLease;
+
+    await backend.release(first);
+    expect(backend.peek('jobs')).to.include({ token: second.token });
+  });
+
+  it('only renews or releases a lease for the owner holding it', async () => {
+    const backend = new InMemoryBackend();
+
+    const lease = await backend.acquire('jobs', 'a', 1000) as LockLease;
+    const foreign = {
+      ...lease,
+      owner: 'b',
+    };
+
+    let caught:unknown = null;
+    await backend.renew(foreign, 1000).catch(err => {
+      caught = err;
+    });
+    expect(caught).to.be.instanceOf(LeaseLostError);
+
+    await backend.release(foreign);
+    expect(backend.peek('jobs')).to.include({
+      owner: 'a',
+      token: lease.token,
+    });
+  });
+});
+
+describe('RemoteMutex', () => {
+  it('throws on a missing key or bad ttl', () => {
+    const backend = new InMemoryBackend();
+
+    expect(() => new RemoteMutex(backend, '')).to.throw(TypeError);
+    expect(() => new RemoteMutex(backend, 'jobs', { ttl: 0 })).to.throw(TypeError);
+    expect(() => new RemoteMutex(backend, 'jobs', {
+      ttl: 100,
+      renewInterval: 200,
+    })).to.throw(TypeError);
+  });
+
+  describe('Lock', () => {
+    it('holds a lease with a fencing token until released', async () => {
+      const backend = new InMemoryBackend();
+      const mtx = new RemoteMutex(backend, 'jobs');
+
+      const release = await mtx.lock();
+      expect(mtx.isLocked).to.be.true;
+      expect(release.key).to.equal('jobs');
+      expect(mtx.token).to.equal(release.token);
+      expect(backend.peek('jobs')).to.include({
+        owner: mtx.owner,
+        token: release.token,
+      });
+
+      await release();
+      expect(mtx.isLocked).to.be.false;
+      expect(mtx.token).to.be.null;
+      expect(backend.peek('jobs')).to.be.null;
+    });
+
+    it('waits for the lock held by another instance', async () => {
+      const backend = new InMemoryBackend();
+      const first = new RemoteMutex(backend, 'jobs');
+      const second = new RemoteMutex(backend, 'jobs', { pollInterval: 5 });
+      const vals:number[] = [];
+
+      const release = await first.lock();
+      const waiting = second.guard(token => vals.push(token));
+
+      await delay(30);
+      expect(vals, 'still waiting').to.eql([]);
+
+      await release();
+      await waiting;
+      expect(vals).to.have.length(1);
+      expect(vals[0]).to.be.above(release.token);
+    });
+
+    it('lines up locks from the same instance', async () => {
+      const mtx = new RemoteMutex(new InMemoryBackend(), 'jobs');
+      const vals:number[] = [];
+
+      await Promise.all([ 1, 2, 3 ].map(val => mtx.guard(async () => {
+        vals.push(val);
+        await delay(5);
+      })));
+
+      expect(vals).to.eql([
+        1,
+        2,
+        3,
+      ]);
+    });
+
+    it('rejects with ErrTimeout when the lock stays taken', async () => {
+      const backend = new InMemoryBackend();
+      const first = new RemoteMutex(backend, 'jobs');
+      const second = new RemoteMutex(backend, 'jobs', { pollInterval: 5 });
+
+      const release = await first.lock();
+
+      let caught:unknown = null;
+      await second.lock({ timeout: 30 }).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(ErrTimeout);
+
+      await release();
+    });
+
+    it('cancels the polling locks', async () => {
+      const backend = new InMemoryBackend();
+      const first = new RemoteMutex(backend, 'jobs');
+      const second = new RemoteMutex(backend, 'jobs', { pollInterval: 5 });
+
+      const release = await first.lock();
+
+      let caught:unknown = null;
+      const waiting = second.lock().catch(err => {
+        caught = err;
+      });
+
+      await delay(20);
+      second.cancelAll();
+      await waiting;
+      expect(caught).to.equal(ErrCancelled);
+
+      await release();
+    });
+
+    it('gives back a lease granted after the attempt was cancelled', async () => {
+      const backend = new InMemoryBackend();
+      const slow:LockBackend = {
+        acquire: async (key, owner, ttl) => {
+          await delay(20);
+          return backend.acquire(key, owner, ttl);
+        },
+        renew: backend.renew,
+        release: backend.release,
+      };
+      const mtx = new RemoteMutex(slow, 'jobs');
+
+      const controller = new AbortController();
+      const locking = mtx.lock({ signal: controller.signal });
+
+      // Abort while the backend is still granting the lease
+      await delay(10);
+      const reason = new Error('stop');
+      controller.abort(reason);
+
+      let caught:unknown = null;
+      await locking.catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(reason);
+      expect(backend.peek('jobs')).to.be.null;
+    });
+  });
+
+  describe('Leases', () => {
+    it('renews the lease while held', async () => {
+      const backend = new InMemoryBackend();
+      const mtx = new RemoteMutex(backend, 'jobs', { ttl: 60 });
+
+      const release = await mtx.lock();
+      await delay(150);
+
+      expect(backend.peek('jobs')).to.include({ token: release.token });
+      await release();
+    });
+
+    it('reports a lease granted to somebody else', async () => {
+      let now = Date.now();
+      const backend = new InMemoryBackend({ now: () => now });
+
+      let lost:unknown = null;
+      const mtx = new RemoteMutex(backend, 'jobs', {
+        ttl: 1000,
+        renewInterval: 10,
+        onLeaseLost: err => {
+          lost = err;
+        },
+      });
+
+      const release = await mtx.lock();
+
+      // Another holder takes the lease once it has run out on the backend
+      now += 5000;
+      await backend.acquire('jobs', 'other', 1000);
+      await delay(50);
+
+      expect(lost).to.be.instanceOf(LeaseLostError);
+      expect(lost).to.include({ token: release.token });
+
+      await release();
+    });
+
+    it('reports a lease that could not be renewed in time', async () => {
+      const backend = new InMemoryBackend();
+      const failing:LockBackend = {
+        acquire: backend.acquire,
+        renew: () => Promise.reject(new LockBackendError('unreachable')),
+        release: backend.release,
+      };
+
+      let lost:unknown = null;
+      const mtx = new RemoteMutex(failing, 'jobs', {
+        ttl: 40,
+        renewInterval: 10,
+        onLeaseLost: err => {
+          lost = err;
+        },
+      });
+
+      const release = await mtx.lock();
+      await delay(20);
+      expect(lost, 'retried while the lease lasts').to.be.null;
+
+      await delay(80);
+      expect(lost).to.be.instanceOf(LeaseLostError);
+
+      await release();
+    });
+  });
+});
@@ -3,7 +3,9 @@ import { describe } from 'mocha';
 import * as FakeTimers from '@sinonjs/fake-timers';
 
 import Semaphore from '../src/semaphore';
-import { Releaser } from '../src/types';
+import { Releaser, Skipped } from '../src/types';
+import { PriorityQueue } from '../src/queue';
+import SynchroError, { ErrClosed, ErrTimeout } from '../src/errors';
 
 describe('Semaphore', () => {
   describe('Constructor', () => {
@@ -273,4 +275,627 @@ describe('Semaphore', () => {
       expect(ret, 'returned the value from cb').to.equal(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('Timeout', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('rejects a waiting acquire with ErrTimeout and gives back the slot', async () => {
+      const sem = new Semaphore(1);
+      const vals:string[] = [];
+
+      const [ release ] = await sem.acquire();
+
+      sem.acquire({ timeout: 100 })
+        .then(() => vals.push('first'))
+        .catch(err => vals.push(err === ErrTimeout ? 'timeout' : 'wrong error'));
+
+      await clock.tickAsync(100);
+      expect(vals).to.eql([ 'timeout' ]);
+
+      release();
+      expect(sem.isLocked, 'slot is available again').to.be.false;
+
+      const [ again, avail ] = await sem.acquire();
+      expect(avail).to.equal(0);
+      again();
+    });
+
+    it('uses the default timeout for guards', async () => {
+      const sem = new Semaphore(1, { timeout: 10 });
+
+      await sem.acquire();
+
+      let timedOut = false;
+      sem.guard(() => 1).catch(err => {
+        timedOut = (err === ErrTimeout);
+      });
+
+      await clock.tickAsync(10);
+      expect(timedOut).to.be.true;
+    });
+  });
+
+  describe('Abort Signal', () => {
+    const clock = FakeTimers.createClock();
+
+    it('rejects the aborted waiter and keeps the slot count correct', async () => {
+      const sem = new Semaphore(1);
+      const controller = new AbortController();
+      const reason = new Error('aborted');
+
+      const [ release ] = await sem.acquire();
+
+      let rejected = false;
+      sem.acquire({ signal: controller.signal }).catch(err => {
+        rejected = (err === reason);
+      });
+
+      controller.abort(reason);
+      await clock.tickAsync(0);
+      expect(rejected).to.be.true;
+
+      release();
+      expect(sem.isLocked, 'slot returned').to.be.false;
+
+      const [ , avail ] = await sem.acquire();
+      expect(avail).to.equal(0);
+    });
+
+    it('rejects an already aborted signal without queueing', async () => {
+      const sem = new Semaphore(1);
+      const controller = new AbortController();
+      controller.abort();
+
+      let rejected = false;
+      await sem.acquire({ signal: controller.signal }).catch(() => {
+        rejected = true;
+      });
+
+      expect(rejected).to.be.true;
+      expect(sem.isLocked).to.be.false;
+    });
+  });
+
+  describe('Weighted', () => {
+    const clock = FakeTimers.createClock();
+
+    it('takes and returns the whole weight', async () => {
+      const sem = new Semaphore(10);
+
+      const [ release, avail ] = await sem.acquire(4);
+      expect(avail).to.equal(6);
+
+      release();
+
+      const [ , again ] = await sem.acquire({ weight: 10 });
+      expect(again).to.equal(0);
+      expect(sem.isLocked).to.be.true;
+    });
+
+    it('allows partial release of the weight', async () => {
+      const sem = new Semaphore(4);
+      const vals:number[] = [];
+
+      const [ release ] = await sem.acquire(4);
+      sem.acquire(2).then(([ , avail ]) => vals.push(avail));
+
+      release(1);
+      await clock.tickAsync(0);
+      expect(vals, 'not enough released yet').to.eql([]);
+
+      release(1);
+      await clock.tickAsync(0);
+      expect(vals, 'enough released').to.eql([ 0 ]);
+
+      release();
+      release();
+      await clock.tickAsync(0);
+
+      // Two slots are held by the second acquisition only
+      const [ , avail ] = await sem.acquire(2);
+      expect(avail).to.equal(0);
+    });
+
+    it('throws when releasing a weight that is not a positive integer', async () => {
+      const sem = new Semaphore(2);
+
+      const [ release ] = await sem.acquire(2);
+      expect(() => release(NaN)).to.throw(TypeError);
+      expect(() => release(0)).to.throw(TypeError);
+      expect(() => release(-1)).to.throw(TypeError);
+      expect(() => release(1.5)).to.throw(TypeError);
+      expect(sem.stats().holders, 'still held').to.equal(1);
+
+      release();
+      expect(sem.isLocked).to.be.false;
+      expect(sem.tryAcquire(2)).to.not.be.null;
+    });
+
+    it('does not let light waiters overtake a heavy waiter', async () => {
+      const sem = new Semaphore(4);
+      const vals:string[] = [];
+
+      const [ release ] = await sem.acquire(2);
+      sem.acquire(4).then(([ rel ]) => {
+        vals.push('heavy');
+        rel();
+      });
+      sem.acquire(1).then(() => vals.push('light'));
+
+      await clock.tickAsync(0);
+      expect(vals, 'light waits behind heavy').to.eql([]);
+
+      release();
+      await clock.tickAsync(0);
+      expect(vals).to.eql([ 'heavy', 'light' ]);
+    });
+
+    it('rejects weights above maxConcurrent with a SynchroError', async () => {
+      const sem = new Semaphore(2);
+
+      let error:unknown = null;
+      await sem.guard(() => 1, { weight: 3 }).catch(err => {
+        error = err;
+      });
+
+      expect(error).to.be.instanceOf(SynchroError);
+      expect(sem.isLocked).to.be.false;
+    });
+
+    it('rejects weights that are not positive integers', async () => {
+      const sem = new Semaphore(2);
+
+      let error:unknown = null;
+      await sem.acquire(0).catch(err => {
+        error = err;
+      });
+
+      expect(error).to.be.instanceOf(TypeError);
+    });
+  });
+
+  describe('Try Acquire', () => {
+    const clock = FakeTimers.createClock();
+
+    it('acquires immediately when slots are available', () => {
+      const sem = new Semaphore(2);
+
+      const ticket = sem.tryAcquire();
+      expect(ticket).to.not.be.null;
+      expect(ticket?.[1]).to.equal(1);
+
+      expect(sem.tryAcquire(2), 'not enough slots').to.be.null;
+
+      ticket?.[0]();
+      expect(sem.tryAcquire(2)).to.not.be.null;
+    });
+
+    it('respects acquisitions already waiting in line', async () => {
+      const sem = new Semaphore(2);
+
+      const [ release ] = await sem.acquire(2);
+      sem.acquire(2);
+
+      release();
+      expect(sem.tryAcquire(), 'waiter got the slots').to.be.null;
+
+      await clock.tickAsync(0);
+    });
+
+    it('tryGuard skips the callback when no slots are available', async () => {
+      const sem = new Semaphore(1);
+
+      await sem.acquire();
+
+      const results = await sem.tryGuard(() => 1);
+      expect(results).to.equal(Skipped);
+    });
+
+    it('tryGuard runs the callback and releases', async () => {
+      const sem = new Semaphore(3);
+
+      const results = await sem.tryGuard(avail => avail, { weight: 2 });
+      expect(results).to.equal(1);
+      expect(sem.isLocked).to.be.false;
+    });
+  });
+
+  describe('Queue Discipline', () => {
+    const clock = FakeTimers.createClock();
+
+    it('grants the newest acquisition first with lifo', async () => {
+      const sem = new Semaphore(1, { queue: 'lifo' });
+      const vals:number[] = [];
+
+      const [ release ] = await sem.acquire();
+
+      sem.guard(() => vals.push(1));
+      sem.guard(() => vals.push(2));
+
+      release();
+      await clock.tickAsync(0);
+
+      expect(vals).to.eql([ 2, 1 ]);
+    });
+
+    it('grants the entry it checked when aging reorders the queue', async () => {
+      // The times handed out in turn, repeating the last one
+      let times = [ 0 ];
+      const now = () => (times.length > 1 ? times.shift() as number : times[0]);
+
+      const sem = new Semaphore(2, { queue: () => new PriorityQueue({ agingInterval: 100, now }) });
+      const granted:string[] = [];
+
+      const [ release ] = await sem.acquire(2);
+      sem.acquire({ weight: 2 }).then(() => granted.push('heavy'));
+      times = [ 50 ];
+      sem.acquire({
+        weight: 1,
+        priority: 1,
+      }).then(() => granted.push('light'));
+
+      // The heavy one ages past the light one in between checking and granting
+      times = [ 99, 100 ];
+      release(1);
+      await clock.tickAsync(0);
+
+      expect(granted).to.eql([ 'light' ]);
+      expect(sem.isLocked, 'no slot beyond the limit').to.be.true;
+    });
+  });
+
+  describe('Stats', () => {
+    const clock = FakeTimers.createClock();
+
+    it('counts holders regardless of weight', async () => {
+      const sem = new Semaphore(3, { stats: true });
+
+      const [ heavy ] = await sem.acquire(2);
+      const [ light ] = await sem.acquire();
+      sem.acquire();
+
+      expect(sem.stats()).to.include({
+        holders: 2,
+        waiting: 1,
+        acquisitions: 2,
+      });
+
+      // Partially releasing lets the waiter in, but still holds a slot
+      heavy(1);
+      expect(sem.stats().holders).to.equal(3);
+
+      heavy();
+      light();
+      await clock.tickAsync(0);
+
+      const stats = sem.stats();
+      expect(stats).to.include({
+        holders: 1,
+        waiting: 0,
+        acquisitions: 3,
+      });
+      expect(stats.holdTime.count).to.equal(2);
+    });
+  });
+
+  describe('Resizing', () => {
+    const clock = FakeTimers.createClock();
+
+    it('dispatches waiters right away when growing', async () => {
+      const sem = new Semaphore(1);
+      let acquired = 0;
+
+      await sem.acquire();
+      sem.acquire().then(() => acquired++);
+      sem.acquire().then(() => acquired++);
+
+      sem.setMaxConcurrent(3);
+      await clock.tickAsync(0);
+
+      expect(acquired).to.equal(2);
+      expect(sem.maxConcurrent).to.equal(3);
+    });
+
+    it('lets holders drain when shrinking', async () => {
+      const sem = new Semaphore(3);
+      let acquired = false;
+
+      const [ first ] = await sem.acquire();
+      const [ second ] = await sem.acquire();
+      sem.setMaxConcurrent(1);
+
+      sem.acquire().then(() => {
+        acquired = true;
+      });
+
+      first();
+      await clock.tickAsync(0);
+      expect(acquired, 'still at the new limit').to.be.false;
+
+      second();
+      await clock.tickAsync(0);
+      expect(acquired).to.be.true;
+      expect(sem.isLocked).to.be.true;
+    });
+
+    it('rejects waiters heavier than the new limit', async () => {
+      const sem = new Semaphore(3);
+
+      const [ release ] = await sem.acquire(3);
+      let caught:unknown = null;
+      sem.acquire(2).catch(err => {
+        caught = err;
+      });
+
+      sem.setMaxConcurrent(1);
+      release();
+      await clock.tickAsync(0);
+
+      expect(caught).to.be.instanceOf(SynchroError);
+      expect(() => sem.setMaxConcurrent(0)).to.throw(TypeError);
+    });
+
+    it('counts waiters rejected by the new limit as cancelled', async () => {
+      const sem = new Semaphore(3, { stats: true });
+
+      const [ release ] = await sem.acquire(3);
+      sem.acquire(2).catch(() => null);
+
+      sem.setMaxConcurrent(1);
+      release();
+      await clock.tickAsync(0);
+
+      expect(sem.stats()).to.include({
+        cancellations: 1,
+        waiting: 0,
+      });
+    });
+  });
+
+  describe('TTL', () => {
+    let clock:FakeTimers.InstalledClock;
+
+    beforeEach(() => {
+      clock = FakeTimers.install();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('releases the slots once the ttl elapses', async () => {
+      const expired:unknown[] = [];
+      const sem = new Semaphore(2, { onExpire: hold => expired.push(hold) });
+      let acquired = false;
+
+      const [ release ] = await sem.acquire({
+        weight: 2,
+        ttl: 100,
+      });
+      expect(release.expiresAt).to.equal(Date.now() + 100);
+      sem.acquire(2).then(() => {
+        acquired = true;
+      });
+
+      await clock.tickAsync(99);
+      expect(acquired, 'still held').to.be.false;
+
+      await clock.tickAsync(1);
+      expect(acquired).to.be.true;
+      expect(expired).to.eql([
+        {
+          name: undefined,
+          task: undefined,
+          weight: 2,
+          heldFor: 100,
+        },
+      ]);
+    });
+
+    it('keeps the slot accounting after partial releases and expiry', async () => {
+      const sem = new Semaphore(3);
+
+      const [ release ] = await sem.acquire({
+        weight: 3,
+        ttl: 50,
+      });
+      release(1);
+
+      await clock.tickAsync(50);
+      release();
+      release(2);
+
+      const ticket = sem.tryAcquire(3);
+      expect(ticket, 'all slots are back').to.not.be.null;
+      expect(sem.tryAcquire(), 'no more than the limit').to.be.null;
+      expect(sem.stats().holders).to.equal(1);
+    });
+
+    it('pushes the expiry back with extend', async () => {
+      const sem = new Semaphore(1);
+
+      const [ release ] = await sem.acquire({ ttl: 50 });
+      await clock.tickAsync(40);
+      expect(release.extend(50)).to.be.true;
+
+      await clock.tickAsync(40);
+      expect(sem.isLocked, 'extended').to.be.true;
+
+      await clock.tickAsync(10);
+      expect(sem.isLocked).to.be.false;
+      expect(release.extend(50), 'already expired').to.be.false;
+    });
+
+    it('expires holds from tryAcquire and guards', async () => {
+      const sem = new Semaphore(1);
+
+      sem.tryAcquire({ ttl: 20 });
+      await clock.tickAsync(20);
+      expect(sem.isLocked).to.be.false;
+
+      sem.guard(() => new Promise(() => null), { ttl: 30 });
+      await clock.tickAsync(0);
+      expect(sem.isLocked, 'hung guard').to.be.true;
+
+      await clock.tickAsync(30);
+      expect(sem.isLocked).to.be.false;
+    });
+
+    it('rejects a ttl that is not a positive number', async () => {
+      const sem = new Semaphore(1);
+
+      let caught:unknown = null;
+      await sem.acquire({ ttl: -5 }).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(TypeError);
+      expect(() => sem.tryAcquire({ ttl: 0 })).to.throw(TypeError);
+    });
+  });
+
+  describe('Lifecycle', () => {
+    const clock = FakeTimers.createClock();
+
+    it('keeps held slots accounted for when cancelling', async () => {
+      const sem = new Semaphore(2);
+
+      const [ first ] = await sem.acquire();
+      const [ second ] = await sem.acquire();
+      sem.acquire().catch(() => {});
+      sem.cancelAll();
+
+      expect(sem.tryAcquire(), 'no slot while both are held').to.be.null;
+
+      first();
+      second();
+
+      const tickets = [ sem.tryAcquire(), sem.tryAcquire(), sem.tryAcquire() ];
+      expect(tickets.filter(ticket => ticket !== null), 'never exceeds the limit').to.have.length(2);
+    });
+
+    it('cancels with the error given', async () => {
+      const sem = new Semaphore(1);
+      const custom = new Error('custom');
+
+      await sem.acquire();
+      let caught:unknown = null;
+      sem.acquire().catch(err => {
+        caught = err;
+      });
+
+      sem.cancelAll(custom);
+      await clock.tickAsync(0);
+      expect(caught).to.equal(custom);
+    });
+
+    it('rejects new acquisitions with ErrClosed once closed', async () => {
+      const sem = new Semaphore(1);
+
+      const [ release ] = await sem.acquire();
+      let waiting:unknown = null;
+      sem.acquire().catch(err => {
+        waiting = err;
+      });
+
+      sem.close();
+      await clock.tickAsync(0);
+
+      expect(sem.isClosed).to.be.true;
+      expect(waiting, 'waiting acquisition rejected').to.equal(ErrClosed);
+
+      let caught:unknown = null;
+      await sem.acquire().catch(err => {
+        caught = err;
+      });
+      expect(caught).to.equal(ErrClosed);
+      expect(() => sem.tryAcquire()).to.throw(ErrClosed);
+
+      release();
+      expect(sem.isLocked).to.be.false;
+    });
+
+    it('drains the waiting acquisitions before resolving', async () => {
+      const sem = new Semaphore(1);
+      const events:string[] = [];
+
+      const [ first ] = await sem.acquire();
+      let second:Releaser = () => {};
+      sem.acquire().then(([ rel ]) => {
+        events.push('second');
+        second = rel;
+      });
+
+      sem.drain().then(() => events.push('drained'));
+
+      first();
+      await clock.tickAsync(0);
+      expect(events).to.eql([ 'second' ]);
+
+      second();
+      await clock.tickAsync(0);
+      expect(events).to.eql([ 'second', 'drained' ]);
+    });
+
+    it('resolves onIdle once every slot is released', async () => {
+      const sem = new Semaphore(2);
+
+      let idle = false;
+      const [ first ] = await sem.acquire();
+      const [ second ] = await sem.acquire();
+      sem.onIdle().then(() => {
+        idle = true;
+      });
+
+      first();
+      await clock.tickAsync(0);
+      expect(idle, 'one slot still held').to.be.false;
+
+      second();
+      await clock.tickAsync(0);
+      expect(idle).to.be.true;
+      expect(sem.isClosed).to.be.false;
+    });
+
+    it('waits for the slots to be free without acquiring', async () => {
+      const sem = new Semaphore(3);
+
+      const [ release ] = await sem.acquire(2);
+
+      let light = false;
+      sem.waitForUnlock().then(() => {
+        light = true;
+      });
+      let heavy = false;
+      sem.waitForUnlock(2).then(() => {
+        heavy = true;
+      });
+
+      await clock.tickAsync(0);
+      expect(light, 'one slot is free').to.be.true;
+      expect(heavy).to.be.false;
+
+      release();
+      await clock.tickAsync(0);
+      expect(heavy).to.be.true;
+      expect(sem.stats().holders, 'did not acquire').to.equal(0);
+    });
+
+    it('rejects waiting for a weight above maxConcurrent', async () => {
+      const sem = new Semaphore(2);
+
+      let caught:unknown = null;
+      await sem.waitForUnlock(3).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(SynchroError);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { Worker } from 'worker_threads';
+import { resolve } from 'path';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import SharedMutex from '../src/sharedmutex';
+import { Skipped } from '../src/types';
+import { ErrCancelled, ErrTimeout } from '../src/errors';
+
+describe('SharedMutex', () => {
+  describe('Lock', () => {
+    const clock = FakeTimers.createClock();
+
+    it('locks and releases the shared state', async () => {
+      const mtx = new SharedMutex();
+
+      const release = await mtx.lock();
+      expect(mtx.isLocked).to.be.true;
+      expect(mtx.tryLock(), 'second try fails').to.be.null;
+
+      release();
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('wakes a waiting lock when released', async () => {
+      const mtx = new SharedMutex();
+      const vals:string[] = [];
+
+      const release = await mtx.lock();
+      const waiting = mtx.guard(() => vals.push('second'));
+
+      await clock.tickAsync(0);
+      expect(vals, 'still waiting').to.eql([]);
+      expect(mtx.waiting).to.equal(1);
+
+      release();
+      await waiting;
+      expect(vals).to.eql([ 'second' ]);
+      expect(mtx.isLocked).to.be.false;
+    });
+
+    it('shares the lock with a mutex rebuilt from the buffer', async () => {
+      const mtx = new SharedMutex();
+      const other = SharedMutex.from(mtx.buffer);
+
+      const release = await mtx.lock();
+      expect(other.isLocked).to.be.true;
+      expect(await other.tryGuard(() => 1)).to.equal(Skipped);
+
+      release();
+      expect(await other.tryGuard(() => 1)).to.equal(1);
+    });
+
+    it('rejects buffers that are too small', () => {
+      expect(() => SharedMutex.from(new SharedArrayBuffer(1))).to.throw(TypeError);
+    });
+  });
+
+  describe('Cancelling', () => {
+    it('rejects with ErrTimeout when the lock stays taken', async () => {
+      const mtx = new SharedMutex();
+      const release = await mtx.lock();
+
+      let caught:unknown = null;
+      await mtx.lock({ timeout: 10 }).catch(err => {
+        caught = err;
+      });
+
+      expect(caught).to.equal(ErrTimeout);
+      expect(mtx.waiting).to.equal(0);
+      release();
+    });
+
+    it('cancels the waiting locks of this thread', async () => {
+      const mtx = new SharedMutex();
+      const release = await mtx.lock();
+
+      let caught:unknown = null;
+      const waiting = mtx.lock().catch(err => {
+        caught = err;
+      });
+
+      mtx.cancelAll();
+      await waiting;
+      expect(caught).to.equal(ErrCancelled);
+      expect(mtx.isLocked, 'holder keeps the lock').to.be.true;
+
+      // The cancelled waiter is still parked, and passes on the wake up
+      const next = mtx.lock();
+      release();
+      (await next)();
+      expect(mtx.isLocked).to.be.false;
+    });
+  });
+
+  describe('Worker Threads', () => {
+    it('keeps read-modify-write updates from separate workers apart', async function() {
+      this.timeout(60000);
+
+      const mtx = new SharedMutex();
+      const counter = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+
+      const code = `
+        require(${JSON.stringify(require.resolve('ts-node'))}).register({
+          transpileOnly: true,
+          project: ${JSON.stringify(resolve(__dirname, '../tsconfig.test.json'))},
+        });
+        const { workerData } = require('worker_threads');
+        const SharedMutex = require(${JSON.stringify(resolve(__dirname, '../src/sharedmutex'))}).default;
+
+        const mtx = SharedMutex.from(workerData.buffer);
+        const counter = workerData.counter;
+        (async () => {
+          for(let i = 0; i < 200; i++) {
+            await mtx.guard(async () => {
+              const value = counter[0];
+              await new Promise(res => setImmediate(res));
+              counter[0] = value + 1;
+            });
+          }
+        })();
+      `;
+
+      const run = () => new Promise<void>((res, rej) => {
+        const worker = new Worker(code, {
+          eval: true,
+          workerData: {
+            buffer: mtx.buffer,
+            counter,
+          },
+        });
+        worker.on('error', rej);
+        worker.on('exit', () => res());
+      });
+
+      await Promise.all([ run(), run() ]);
+
+      expect(counter[0]).to.equal(400);
+      expect(mtx.isLocked).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { Worker } from 'worker_threads';
+import { resolve } from 'path';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import SharedSemaphore from '../src/sharedsemaphore';
+import SynchroError, { ErrCancelled } from '../src/errors';
+
+describe('SharedSemaphore', () => {
+  describe('Acquire', () => {
+    const clock = FakeTimers.createClock();
+
+    it('takes and gives back weighted slots', async () => {
+      const sem = new SharedSemaphore(4);
+
+      const [ release, available ] = await sem.acquire(3);
+      expect(available).to.equal(1);
+      expect(sem.tryAcquire(2), 'not enough left').to.be.null;
+
+      release(1);
+      expect(sem.available).to.equal(2);
+
+      release();
+      expect(sem.available).to.equal(4);
+    });
+
+    it('throws when releasing a weight that is not a positive integer', async () => {
+      const sem = new SharedSemaphore(2);
+
+      const [ release ] = await sem.acquire(2);
+      expect(() => release(NaN)).to.throw(TypeError);
+      expect(() => release(0)).to.throw(TypeError);
+      expect(sem.available).to.equal(0);
+
+      release();
+      expect(sem.available).to.equal(2);
+    });
+
+    it('wakes a waiting acquisition once enough slots are released', async () => {
+      const sem = new SharedSemaphore(2);
+      const vals:string[] = [];
+
+      const [ release ] = await sem.acquire(2);
+      const waiting = sem.guard(() => vals.push('heavy'), { weight: 2 });
+
+      release(1);
+      await clock.tickAsync(0);
+      expect(vals, 'one slot is not enough').to.eql([]);
+
+      release();
+      await waiting;
+      expect(vals).to.eql([ 'heavy' ]);
+    });
+
+    it('rebuilds from the buffer with the same maxConcurrent', async () => {
+      const sem = new SharedSemaphore(3);
+      const other = SharedSemaphore.from(sem.buffer);
+
+      expect(other.maxConcurrent).to.equal(3);
+
+      const ticket = sem.tryAcquire(3);
+      expect(other.isLocked).to.be.true;
+
+      ticket?.[0]();
+      expect(other.available).to.equal(3);
+    });
+
+    it('rejects weights above maxConcurrent', async () => {
+      const sem = new SharedSemaphore(2);
+
+      let caught:unknown = null;
+      await sem.acquire(3).catch(err => {
+        caught = err;
+      });
+      expect(caught).to.be.instanceOf(SynchroError);
+    });
+
+    it('cancels the waiting acquisitions of this thread', async () => {
+      const sem = new SharedSemaphore(1);
+      const [ release ] = await sem.acquire();
+
+      let caught:unknown = null;
+      const waiting = sem.acquire().catch(err => {
+        caught = err;
+      });
+
+      sem.cancelAll();
+      await waiting;
+      expect(caught).to.equal(ErrCancelled);
+
+      release();
+      expect(sem.available).to.equal(1);
+    });
+  });
+
+  describe('Worker Threads', () => {
+    it('limits the concurrency across workers', async function() {
+      this.timeout(60000);
+
+      const sem = new SharedSemaphore(2);
+
+      // Running count and the highest it got
+      const counts = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+
+      const code = `
+        require(${JSON.stringify(require.resolve('ts-node'))}).register({
+          transpileOnly: true,
+          project: ${JSON.stringify(resolve(__dirname, '../tsconfig.test.json'))},
+        });
+        const { workerData } = require('worker_threads');
+        const SharedSemaphore = require(${JSON.stringify(resolve(__dirname, '../src/sharedsemaphore'))}).default;
+
+        const sem = SharedSemaphore.from(workerData.buffer);
+        const counts = workerData.counts;
+        (async () => {
+          await Promise.all(Array.from({ length: 20 }, () => sem.guard(async () => {
+            const running = Atomics.add(counts, 0, 1) + 1;
+            let peak = Atomics.load(counts, 1);
+            while(running > peak && Atomics.compareExchange(counts, 1, peak, running) !== peak)
+              peak = Atomics.load(counts, 1);
+
+            await new Promise(res => setTimeout(res, 1));
+            Atomics.sub(counts, 0, 1);
+          })));
+        })();
+      `;
+
+      const run = () => new Promise<void>((res, rej) => {
+        const worker = new Worker(code, {
+          eval: true,
+          workerData: {
+            buffer: sem.buffer,
+            counts,
+          },
+        });
+        worker.on('error', rej);
+        worker.on('exit', () => res());
+      });
+
+      await Promise.all([
+        run(),
+        run(),
+        run(),
+      ]);
+
+      expect(counts[0], 'all finished').to.equal(0);
+      expect(counts[1], 'never above the limit').to.equal(2);
+      expect(sem.available).to.equal(2);
+    });
+  });
+});
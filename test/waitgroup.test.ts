@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as FakeTimers from '@sinonjs/fake-timers';
+
+import WaitGroup from '../src/waitgroup';
+import SynchroError, { ErrCancelled, ErrTimeout } from '../src/errors';
+
+describe('WaitGroup', () => {
+  const clock = FakeTimers.createClock();
+
+  describe('Counting', () => {
+    it('starts at the given count', () => {
+      expect(new WaitGroup().count).to.equal(0);
+      expect(new WaitGroup(3).count).to.equal(3);
+      expect(() => new WaitGroup(-1)).to.throw(TypeError);
+    });
+
+    it('throws a SynchroError when going below zero', () => {
+      const wg = new WaitGroup(1);
+      wg.done();
+
+      expect(() => wg.done()).to.throw(SynchroError);
+      expect(() => wg.add(-2)).to.throw(SynchroError);
+      expect(wg.count).to.equal(0);
+    });
+  });
+
+  describe('Waiting', () => {
+    it('resolves straight away at zero', async () => {
+      await new WaitGroup().wait();
+    });
+
+    it('releases waiters once all tasks are done', async () => {
+      let firedOnDone = 0;
+      const wg = new WaitGroup(0, {
+        onDone: () => {
+          firedOnDone++;
+        },
+      });
+      let released = false;
+
+      wg.add(2);
+      wg.wait().then(() => {
+        released = true;
+      });
+
+      wg.done();
+      await clock.tickAsync(0);
+      expect(released).to.be.false;
+
+      wg.done();
+      await clock.tickAsync(0);
+      expect(released).to.be.true;
+      expect(firedOnDone).to.equal(1);
+    });
+
+    it('rejects with ErrTimeout', async () => {
+      const clk = FakeTimers.install();
+      try {
+        const wg = new WaitGroup(1);
+
+        let caught:unknown = null;
+        wg.wait({ timeout: 10 }).catch(err => {
+          caught = err;
+        });
+
+        await clk.tickAsync(10);
+        expect(caught).to.equal(ErrTimeout);
+        expect(wg.waiting).to.equal(0);
+      } finally {
+        clk.uninstall();
+      }
+    });
+
+    it('rejects when the signal aborts', async () => {
+      const wg = new WaitGroup(1);
+      const controller = new AbortController();
+      const reason = new Error('aborted');
+
+      let caught:unknown = null;
+      wg.wait({ signal: controller.signal }).catch(err => {
+        caught = err;
+      });
+
+      controller.abort(reason);
+      await clock.tickAsync(0);
+      expect(caught).to.equal(reason);
+    });
+  });
+
+  describe('Cancelling', () => {
+    it('rejects waiters with errorCancelled', async () => {
+      let firedOnCancel = false;
+      const wg = new WaitGroup(1, {
+        onCancel: () => {
+          firedOnCancel = true;
+        },
+      });
+
+      let caught:unknown = null;
+      wg.wait().catch(err => {
+        caught = err;
+      });
+
+      wg.cancelAll();
+      await clock.tickAsync(0);
+      expect(caught).to.equal(ErrCancelled);
+      expect(firedOnCancel).to.be.true;
+      expect(wg.count, 'count is kept').to.equal(1);
+    });
+  });
+});